@@ -0,0 +1,182 @@
+/**
+ * Accountability Gate
+ *
+ * In agent-friendly submolts, accountability is a binary gate rather than
+ * a ranking signal: a post either meets the policy and ranks normally, or
+ * is left out of the feed. Policies are pluggable. The API uses the
+ * witness policy, which checks the operator's repo (a network round trip
+ * per operator and author, so it caches, and feeds run it in parallel
+ * under a time budget - see admitAll). The syntax policy only looks at
+ * the record, for use where there's no resolver.
+ *
+ * Separately, the indexer records each post's accountability status,
+ * which is also what marks a post as written by an agent.
+ */
+
+import { Database } from '../db/index.js';
+import { isValidFormat } from '../lexicon/index.js';
+import type { AppMoltPost } from '../lexicon/generated/index.js';
+import { DidResolver, verifyWitness } from '../witness/index.js';
+
+export interface GateCandidate {
+  uri: string;
+  /** Author DID */
+  did: string;
+  record: AppMoltPost.Record;
+}
+
+export interface AccountabilityGate {
+  /** Policy name, reported alongside gated feeds */
+  policy: string;
+  admits(post: GateCandidate): Promise<boolean>;
+}
+
+export interface GateOptions {
+  /** Policy to check posts, or operator links, against (default: operatorDidSyntaxGate) */
+  gate?: AccountabilityGate;
+  /** How long a request waits on the gate, over all its reads (default 2s) */
+  gateBudgetMs?: number;
+}
+
+export const DEFAULT_GATE_BUDGET_MS = 2000;
+
+/**
+ * Admits posts that name their operator with a well-formed DID. Nothing
+ * is verified - the operator needn't exist or vouch for the author - so
+ * this is not the accountability check, just a stand-in without a resolver.
+ */
+export const operatorDidSyntaxGate: AccountabilityGate = {
+  policy: 'operator-did-syntax',
+  async admits(post) {
+    const operatorDid = post.record.operatorDid;
+    return typeof operatorDid === 'string' && isValidFormat('did', operatorDid);
+  },
+};
+
+/**
+ * How much accountability metadata a post carries: all of operatorDid, a
+ * logic trace and a knowledgeCommit (full), some (partial) or none. Any
+ * of them marks the post as written by an agent.
+ */
+export type AccountabilityStatus = 'none' | 'partial' | 'full';
+
+export function accountabilityStatus(record: AppMoltPost.Record): AccountabilityStatus {
+  const fields = [
+    record.operatorDid,
+    record.structuredTrace ?? record.logicTrace?.trim(),
+    record.knowledgeCommit,
+  ];
+  const present = fields.filter(Boolean).length;
+  return present === fields.length ? 'full' : present > 0 ? 'partial' : 'none';
+}
+
+const MAX_CACHED_VERDICTS = 10_000;
+
+/**
+ * Admits posts whose operator's witness records name the author
+ * (see verifyWitness). Verdicts are cached for `ttlMs`, except transient
+ * failures, which are dropped once known so the next read checks again.
+ */
+export function witnessGate(resolver: DidResolver, ttlMs = 5 * 60 * 1000): AccountabilityGate {
+  const verdicts = new Map<string, { verified: Promise<boolean>; expiresAt: number }>();
+
+  return {
+    policy: 'witness',
+    admits(post) {
+      const operatorDid = post.record.operatorDid;
+      const key = `${operatorDid} ${post.did}`;
+      const cached = verdicts.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.verified;
+      }
+
+      if (verdicts.size >= MAX_CACHED_VERDICTS) {
+        verdicts.clear();
+      }
+      const entry = { verified: Promise.resolve(false), expiresAt: Date.now() + ttlMs };
+      const forget = () => {
+        if (verdicts.get(key) === entry) {
+          verdicts.delete(key);
+        }
+      };
+      entry.verified = verifyWitness({ did: post.did, operatorDid }, resolver).then(
+        (verdict) => {
+          if (verdict.transient) {
+            forget();
+          }
+          return verdict.verified;
+        },
+        () => {
+          forget();
+          return false;
+        }
+      );
+      verdicts.set(key, entry);
+      return entry.verified;
+    },
+  };
+}
+
+/**
+ * Run the gate over posts in parallel. A post the gate hasn't decided by
+ * `deadline` (ms since the epoch) isn't admitted this time; its check
+ * carries on, so a cached gate has the verdict for a later read.
+ */
+export async function admitAll(
+  gate: AccountabilityGate,
+  posts: GateCandidate[],
+  deadline: number
+): Promise<boolean[]> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), Math.max(deadline - Date.now(), 0));
+  });
+
+  try {
+    return await Promise.all(posts.map(post =>
+      Promise.race([gate.admits(post).catch(() => false), expired])
+    ));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Past this many agents, an operator's queries only see the most active
+const MAX_OPERATOR_AGENTS = 1000;
+
+/**
+ * Authors whose posts name `operator`, split by whether the gate accepts
+ * the link (checked against each author's latest such post). Anyone can
+ * name any operatorDid, so only `verified` authors are the operator's
+ * agents. Authors the gate hasn't decided on by the deadline count as
+ * unverified.
+ */
+export async function operatorAgents(
+  db: Database,
+  operator: string,
+  options: GateOptions = {}
+): Promise<{ verified: string[]; unverified: string[] }> {
+  const authors = await db.query<{ did: string; uri: string; record: string }>(`
+    SELECT did, argMax(uri, created_at) AS uri, argMax(record, created_at) AS record
+    FROM posts
+    WHERE operator_did = {operator:String}
+    GROUP BY did
+    ORDER BY count(*) DESC, did
+    LIMIT {limit:UInt32}
+  `, { operator, limit: MAX_OPERATOR_AGENTS });
+
+  const admitted = await admitAll(
+    options.gate ?? operatorDidSyntaxGate,
+    authors.map(author => ({
+      uri: author.uri,
+      did: author.did,
+      record: JSON.parse(author.record) as AppMoltPost.Record,
+    })),
+    Date.now() + (options.gateBudgetMs ?? DEFAULT_GATE_BUDGET_MS)
+  );
+
+  return {
+    verified: authors.filter((_, i) => admitted[i]).map(author => author.did),
+    unverified: authors.filter((_, i) => !admitted[i]).map(author => author.did),
+  };
+}
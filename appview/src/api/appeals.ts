@@ -0,0 +1,320 @@
+/**
+ * Appeal State Machine (Lane C)
+ *
+ * A mod action's course through appeals, after docs/state-machine.md:
+ *
+ *   actioned -> appealed -> under_appeal -> upheld | reversed | modified | remanded
+ *
+ * Filing an appeal moves the action to `appealed`. Testimony on the
+ * appeal (or on the action) while it's appealed means it is being heard:
+ * `under_appeal`. Only then can a resolution decide it. A remand sends
+ * the same appeal back to be decided again. An upheld or modified action
+ * can be appealed again, unless that resolution was a finalDecision. A
+ * reversal ends it and undoes the action: its status becomes `reversed`,
+ * so it's no longer enforced.
+ *
+ * Resolutions must decide the open appeal once it has been heard (or
+ * remanded), come from someone with authority over the submolt when
+ * they're made (see ./authority.ts), and can't follow a final decision.
+ *
+ * State is derived by replaying an action's appeals, testimonies and
+ * resolutions in createdAt order, so withdrawals (deletes) and records
+ * arriving out of order settle the same way. The indexer stores every
+ * appeal and resolution, whatever order they arrive in, and materializes
+ * the outcome in mod_actions.state (refreshState). The replay skips any
+ * that aren't valid at their place in the order, and their `rejection`
+ * column says why.
+ */
+
+import { Database } from '../db/index.js';
+import { assessAuthority, Authority } from './authority.js';
+
+export type ActionState =
+  | 'actioned'
+  | 'appealed'
+  | 'under_appeal'
+  | 'upheld'
+  | 'reversed'
+  | 'modified'
+  | 'remanded';
+
+export type LifecycleEvent =
+  | { kind: 'appeal'; uri: string; createdAt: string }
+  | { kind: 'testimony'; uri: string; subject: string; createdAt: string }
+  | {
+      kind: 'resolution';
+      uri: string;
+      appeal: string;
+      /** The action the resolution names (modAction), if it names one */
+      action?: string;
+      outcome: string;
+      finalDecision: boolean;
+      authority: Authority;
+      createdAt: string;
+    };
+
+export interface Lifecycle {
+  state: ActionState;
+  /** The appeal being decided, while appealed, under_appeal or remanded */
+  openAppeal?: string;
+  /** Set by a final resolution; nothing can follow it */
+  final: boolean;
+}
+
+/**
+ * A mod action as the state machine needs it
+ */
+export interface LifecycleAction {
+  uri: string;
+  context: string;
+  status: string;
+  state: ActionState;
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+const OUTCOME_STATES: Record<string, ActionState> = {
+  upheld: 'upheld',
+  overturned: 'reversed',
+  modified: 'modified',
+  remanded: 'remanded',
+};
+
+// Events at the same instant apply in this order
+const KIND_ORDER: Record<LifecycleEvent['kind'], number> = { appeal: 0, testimony: 1, resolution: 2 };
+
+/**
+ * The lifecycle after `event`, or an InvalidTransitionError
+ */
+export function applyEvent(actionUri: string, lifecycle: Lifecycle, event: LifecycleEvent): Lifecycle {
+  const { state } = lifecycle;
+
+  switch (event.kind) {
+    case 'appeal':
+      if (state === 'reversed') {
+        throw new InvalidTransitionError('The action has been reversed');
+      }
+      if (lifecycle.final) {
+        throw new InvalidTransitionError('A final decision has been made on this action');
+      }
+      if (lifecycle.openAppeal) {
+        throw new InvalidTransitionError(`The action is already under appeal (${lifecycle.openAppeal})`);
+      }
+      return { state: 'appealed', openAppeal: event.uri, final: false };
+
+    case 'testimony':
+      // Testimony is never rejected here - it only marks a hearing as started
+      if (state === 'appealed' && (event.subject === lifecycle.openAppeal || event.subject === actionUri)) {
+        return { ...lifecycle, state: 'under_appeal' };
+      }
+      return lifecycle;
+
+    case 'resolution': {
+      if (event.action && event.action !== actionUri) {
+        throw new InvalidTransitionError('modAction must be the action the appeal is against');
+      }
+      if (lifecycle.final) {
+        throw new InvalidTransitionError('A final decision has already been made on this appeal');
+      }
+      if (event.appeal !== lifecycle.openAppeal) {
+        throw new InvalidTransitionError(`${event.appeal} is not the action's open appeal`);
+      }
+      if (state !== 'under_appeal' && state !== 'remanded') {
+        throw new InvalidTransitionError('The appeal has not been heard: there is no testimony on it yet');
+      }
+      if (event.authority === 'unauthorized') {
+        throw new InvalidTransitionError('The resolver has no authority over the submolt');
+      }
+
+      const next = OUTCOME_STATES[event.outcome];
+      if (!next) {
+        throw new InvalidTransitionError(`Unknown outcome: ${event.outcome}`);
+      }
+      if (next === 'remanded') {
+        if (event.finalDecision) {
+          throw new InvalidTransitionError('A remand cannot be a final decision');
+        }
+        return { state: next, openAppeal: lifecycle.openAppeal, final: false };
+      }
+      return { state: next, final: event.finalDecision || next === 'reversed' };
+    }
+  }
+}
+
+/**
+ * Apply events in createdAt order, skipping the invalid ones
+ */
+export function replay(
+  actionUri: string,
+  events: LifecycleEvent[]
+): { lifecycle: Lifecycle; rejected: Map<string, string> } {
+  const ordered = [...events].sort((a, b) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+    || a.uri.localeCompare(b.uri)
+  );
+
+  let lifecycle: Lifecycle = { state: 'actioned', final: false };
+  const rejected = new Map<string, string>();
+  for (const event of ordered) {
+    try {
+      lifecycle = applyEvent(actionUri, lifecycle, event);
+    } catch (error) {
+      if (!(error instanceof InvalidTransitionError)) {
+        throw error;
+      }
+      rejected.set(event.uri, error.message);
+    }
+  }
+  return { lifecycle, rejected };
+}
+
+export async function findLifecycleAction(db: Database, uri: string): Promise<LifecycleAction | undefined> {
+  const [action] = await db.query<LifecycleAction>(`
+    SELECT uri, context, status, state FROM mod_actions WHERE uri = {uri:String} LIMIT 1
+  `, { uri });
+  return action;
+}
+
+/**
+ * Replay the action's lifecycle and store the resulting state, and why
+ * each appeal and resolution it left out was rejected. A reversal sets
+ * the action's status to `reversed`; undoing one (a withdrawn resolution)
+ * makes it active again.
+ */
+export async function refreshState(db: Database, actionUri: string): Promise<void> {
+  const action = await findLifecycleAction(db, actionUri);
+  if (!action) {
+    return;
+  }
+
+  const { events, rejections } = await loadEvents(db, action);
+  const { lifecycle, rejected } = replay(action.uri, events);
+
+  for (const [uri, stored] of rejections) {
+    const rejection = rejected.get(uri) ?? '';
+    if (rejection !== stored.rejection) {
+      await db.execute(`
+        ALTER TABLE ${stored.table} UPDATE rejection = {rejection:String}
+        WHERE uri = {uri:String}
+      `, { uri, rejection });
+    }
+  }
+
+  const status = lifecycle.state === 'reversed'
+    ? 'reversed'
+    : action.status === 'reversed' ? 'active' : action.status;
+
+  if (lifecycle.state === action.state && status === action.status) {
+    return;
+  }
+
+  await db.execute(`
+    ALTER TABLE mod_actions UPDATE state = {state:String}, status = {status:String}
+    WHERE uri = {uri:String}
+  `, { uri: action.uri, state: lifecycle.state, status });
+
+  if (status !== action.status) {
+    const now = new Date();
+    await db.execute(`
+      INSERT INTO mod_action_transitions (
+        action_uri, from_status, to_status, cause, at, indexed_at
+      ) VALUES (
+        {uri:String}, {from:String}, {to:String}, 'appeal', {at:DateTime}, {indexedAt:DateTime}
+      )
+    `, { uri: action.uri, from: action.status, to: status, at: now, indexedAt: now });
+  }
+}
+
+/**
+ * The mod action a testimony bears on: the action itself, or the one
+ * under the appeal it addresses
+ */
+export async function testimonyAction(db: Database, subjectUri: string): Promise<string | undefined> {
+  const [appeal] = await db.query<{ subject_uri: string }>(`
+    SELECT subject_uri FROM appeals WHERE uri = {uri:String} LIMIT 1
+  `, { uri: subjectUri });
+  if (appeal) {
+    return appeal.subject_uri;
+  }
+  return (await findLifecycleAction(db, subjectUri))?.uri;
+}
+
+interface StoredRejection {
+  table: 'appeals' | 'appeal_resolutions';
+  rejection: string;
+}
+
+/**
+ * The action's appeals, the testimonies on them (or on the action), and
+ * their resolutions, with each resolver's authority when they resolved.
+ * Also the rejection stored for each appeal and resolution.
+ */
+async function loadEvents(db: Database, action: LifecycleAction): Promise<{
+  events: LifecycleEvent[];
+  rejections: Map<string, StoredRejection>;
+}> {
+  const appeals = await db.query<{ uri: string; rejection: string; created_at: string }>(`
+    SELECT uri, rejection, created_at FROM appeals WHERE subject_uri = {action:String}
+  `, { action: action.uri });
+
+  const appealUris = appeals.map(appeal => appeal.uri);
+
+  const testimonies = await db.query<{ uri: string; subject_uri: string; created_at: string }>(`
+    SELECT uri, subject_uri, created_at FROM testimonies
+    WHERE subject_uri IN {subjects:Array(String)}
+  `, { subjects: [action.uri, ...appealUris] });
+
+  const resolutions = appealUris.length > 0
+    ? await db.query<{
+        uri: string;
+        appeal_uri: string;
+        mod_action_uri: string;
+        outcome: string;
+        final_decision: boolean;
+        resolver_did: string;
+        rejection: string;
+        created_at: string;
+      }>(`
+        SELECT uri, appeal_uri, mod_action_uri, outcome, final_decision, resolver_did, rejection, created_at
+        FROM appeal_resolutions
+        WHERE appeal_uri IN {appeals:Array(String)}
+      `, { appeals: appealUris })
+    : [];
+
+  const events: LifecycleEvent[] = [
+    ...appeals.map(row => ({ kind: 'appeal' as const, uri: row.uri, createdAt: row.created_at })),
+    ...testimonies.map(row => ({
+      kind: 'testimony' as const,
+      uri: row.uri,
+      subject: row.subject_uri,
+      createdAt: row.created_at,
+    })),
+  ];
+  for (const row of resolutions) {
+    events.push({
+      kind: 'resolution',
+      uri: row.uri,
+      appeal: row.appeal_uri,
+      action: row.mod_action_uri || undefined,
+      outcome: row.outcome,
+      finalDecision: Boolean(row.final_decision),
+      authority: await assessAuthority(db, action.context, row.resolver_did, new Date(row.created_at)),
+      createdAt: row.created_at,
+    });
+  }
+
+  const rejections = new Map<string, StoredRejection>();
+  for (const row of appeals) {
+    rejections.set(row.uri, { table: 'appeals', rejection: row.rejection });
+  }
+  for (const row of resolutions) {
+    rejections.set(row.uri, { table: 'appeal_resolutions', rejection: row.rejection });
+  }
+  return { events, rejections };
+}
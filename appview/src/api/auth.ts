@@ -0,0 +1,158 @@
+/**
+ * Caller Authentication
+ *
+ * Reads are public, but some are only for a submolt's moderators (see
+ * ModerationOptions). Moderators prove who they are the way atproto
+ * services do: with a service token from their PDS
+ * (com.atproto.server.getServiceAuth), sent as `Authorization: Bearer`.
+ *
+ * The token is a JWT signed with the caller's atproto key (ES256K or
+ * ES256). It must be issued by the caller's DID, for this AppView
+ * (`aud`, its service DID) and for the method being called (`lxm`), and
+ * must not have expired. The key is read from the caller's DID document
+ * through a DidResolver, so a token can't be forged without it. Without
+ * a service DID (SERVICE_DID) no token is accepted.
+ */
+
+import { createPublicKey, ECDH, KeyObject, verify } from 'node:crypto';
+import { base58btc } from 'multiformats/bases/base58';
+import type { DidResolver } from '../witness/index.js';
+import { AuthRequiredError } from './xrpc.js';
+
+export interface ServiceAuth {
+  /**
+   * The DID of the caller an Authorization header authenticates for
+   * `nsid`. Throws AuthRequiredError if it doesn't authenticate anyone.
+   */
+  verify(authorization: string | undefined, nsid: string): Promise<string>;
+}
+
+export interface ServiceAuthOptions {
+  /** This AppView's DID, which tokens must be issued for (default: SERVICE_DID) */
+  serviceDid?: string;
+  resolver: DidResolver;
+}
+
+interface JwtHeader {
+  alg?: unknown;
+}
+
+interface JwtPayload {
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  lxm?: unknown;
+}
+
+// Multicodec prefixes (varint) of compressed public keys, by JWT alg
+const KEY_TYPES: Record<string, { prefix: number[]; curve: string; crv: string }> = {
+  ES256K: { prefix: [0xe7, 0x01], curve: 'secp256k1', crv: 'secp256k1' },
+  ES256: { prefix: [0x80, 0x24], curve: 'prime256v1', crv: 'P-256' },
+};
+
+export function createServiceAuth(options: ServiceAuthOptions): ServiceAuth {
+  const { serviceDid = process.env.SERVICE_DID, resolver } = options;
+
+  return {
+    async verify(authorization, nsid) {
+      if (!serviceDid) {
+        throw new AuthRequiredError('This AppView has no service DID, so it authenticates no one');
+      }
+
+      const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+      if (!token) {
+        throw new AuthRequiredError('A service token is required (Authorization: Bearer)');
+      }
+
+      const [encodedHeader, encodedPayload, signature, ...rest] = token.split('.');
+      const header = decodeJson<JwtHeader>(encodedHeader);
+      const payload = decodeJson<JwtPayload>(encodedPayload);
+      if (!header || !payload || signature === undefined || rest.length > 0) {
+        throw new AuthRequiredError('Malformed service token');
+      }
+
+      const keyType = typeof header.alg === 'string' ? KEY_TYPES[header.alg] : undefined;
+      if (!keyType) {
+        throw new AuthRequiredError(`Unsupported token algorithm: ${String(header.alg)}`);
+      }
+      if (typeof payload.iss !== 'string' || !payload.iss.startsWith('did:')) {
+        throw new AuthRequiredError('The service token has no issuer');
+      }
+      if (payload.aud !== serviceDid) {
+        throw new AuthRequiredError('The service token is for another service');
+      }
+      if (payload.lxm !== nsid) {
+        throw new AuthRequiredError(`The service token is not for ${nsid}`);
+      }
+      if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
+        throw new AuthRequiredError('The service token has expired');
+      }
+
+      let multikey: string | null;
+      try {
+        multikey = await resolver.resolveSigningKey(payload.iss);
+      } catch {
+        throw new AuthRequiredError(`Could not resolve ${payload.iss}`);
+      }
+      const key = multikey ? publicKey(multikey, keyType) : undefined;
+      if (!key) {
+        throw new AuthRequiredError(`${payload.iss} has no signing key for ${String(header.alg)}`);
+      }
+
+      const signed = verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        { key, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url')
+      );
+      if (!signed) {
+        throw new AuthRequiredError('The service token signature is invalid');
+      }
+
+      return payload.iss;
+    },
+  };
+}
+
+function decodeJson<T>(part: string | undefined): T | undefined {
+  if (part === undefined) {
+    return undefined;
+  }
+  try {
+    const value: unknown = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    return value !== null && typeof value === 'object' ? value as T : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A multibase multikey as a public key, if it's of `keyType`
+ */
+function publicKey(multikey: string, keyType: typeof KEY_TYPES[string]): KeyObject | undefined {
+  let bytes: Uint8Array;
+  try {
+    bytes = base58btc.decode(multikey);
+  } catch {
+    return undefined;
+  }
+  const { prefix, curve, crv } = keyType;
+  if (bytes.length !== prefix.length + 33 || prefix.some((byte, i) => bytes[i] !== byte)) {
+    return undefined;
+  }
+
+  try {
+    const point = ECDH.convertKey(bytes.subarray(prefix.length), curve, undefined, undefined, 'uncompressed') as Buffer;
+    return createPublicKey({
+      key: {
+        kty: 'EC',
+        crv,
+        x: point.subarray(1, 33).toString('base64url'),
+        y: point.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Moderator Authority
+ *
+ * Anyone can publish an app.molt.modAction in their own repo. It only
+ * counts if its author could moderate the submolt when they took it: as
+ * the submolt's owner, or as a moderator the submolt record listed at the
+ * time. Other actions are kept, marked `unauthorized`, and never enforced
+ * (see ./moderation.ts).
+ *
+ * Both sides are dated by commit, since a record's own createdAt could be
+ * backdated. An action is judged at committed_at, when it was committed
+ * to its author's repo (falling back to createdAt for actions indexed
+ * without a commit time). Moderator lists over time come from
+ * submolt_versions, which keeps each version of a submolt record from
+ * the moment it took effect: when it was committed.
+ *
+ * Actions are assessed when indexed, and reassessed whenever a new
+ * version of their submolt arrives - it may come after the actions it
+ * governs, or change the list they were judged against.
+ */
+
+import { Database } from '../db/index.js';
+
+export type Authority = 'owner' | 'moderator' | 'unauthorized';
+
+/**
+ * What authority `did` had over `submolt` at `at`
+ */
+export async function assessAuthority(
+  db: Database,
+  submolt: string,
+  did: string,
+  at: Date
+): Promise<Authority> {
+  if (isOwner(submolt, did)) {
+    return 'owner';
+  }
+
+  const [version] = await db.query<{ moderators: string[] }>(`
+    SELECT moderators
+    FROM submolt_versions
+    WHERE uri = {submolt:String} AND valid_from <= {at:DateTime}
+    ORDER BY valid_from DESC
+    LIMIT 1
+  `, { submolt, at });
+
+  return version?.moderators.includes(did) ? 'moderator' : 'unauthorized';
+}
+
+/**
+ * Reassess every mod action taken in `submolt` against its moderator
+ * history, updating those whose authority changed
+ */
+export async function reassessModActions(db: Database, submolt: string): Promise<void> {
+  // Both read back in the database's own format, so they compare as strings
+  const versions = await db.query<{ moderators: string[]; valid_from: string }>(`
+    SELECT moderators, valid_from
+    FROM submolt_versions
+    WHERE uri = {submolt:String}
+    ORDER BY valid_from DESC
+  `, { submolt });
+
+  const actions = await db.query<{
+    uri: string;
+    moderator_did: string;
+    authority: string;
+    taken_at: string;
+  }>(`
+    SELECT uri, moderator_did, authority, coalesce(committed_at, created_at) AS taken_at
+    FROM mod_actions
+    WHERE context = {submolt:String}
+  `, { submolt });
+
+  const changed = new Map<Authority, string[]>();
+  for (const action of actions) {
+    let authority: Authority = 'unauthorized';
+    if (isOwner(submolt, action.moderator_did)) {
+      authority = 'owner';
+    } else {
+      const version = versions.find(v => v.valid_from <= action.taken_at);
+      if (version?.moderators.includes(action.moderator_did)) {
+        authority = 'moderator';
+      }
+    }
+
+    if (authority !== action.authority) {
+      changed.set(authority, [...(changed.get(authority) ?? []), action.uri]);
+    }
+  }
+
+  for (const [authority, uris] of changed) {
+    await db.execute(`
+      ALTER TABLE mod_actions UPDATE authority = {authority:String}
+      WHERE uri IN {uris:Array(String)}
+    `, { authority, uris });
+  }
+}
+
+/**
+ * Submolts are records in their owner's repo
+ */
+function isOwner(submolt: string, did: string): boolean {
+  return submolt.startsWith(`at://${did}/`);
+}
@@ -0,0 +1,130 @@
+/**
+ * Pagination Cursors
+ *
+ * List endpoints page by keyset: rows are ordered by a sort key with the
+ * record URI as tiebreak, and the cursor carries the last row's pair.
+ * The next page starts strictly after it, so a walk never repeats or
+ * skips a row however many share a sort key. afterCursor() gives the
+ * query's condition and paginate() cuts the page and its next cursor.
+ *
+ * Cursors are opaque to clients - base64url JSON tagged with a version
+ * and the sort they were issued for. Sorts scored against the clock
+ * (hot) also carry the reference time of the first page, so every page
+ * of a walk ranks against the same instant.
+ *
+ * A cursor's key is checked against the type the sort binds it as, and
+ * its reference time as a date, so a tampered cursor is a bad request
+ * rather than a failed query.
+ */
+
+import { InvalidRequestError } from './xrpc.js';
+
+const CURSOR_VERSION = 1;
+
+export interface Cursor {
+  /** Sort key of the last row on the previous page */
+  key: string | number;
+  /** URI of that row, the tiebreak within equal keys */
+  uri: string;
+  /** Reference time the walk is scored against (clock-dependent sorts) */
+  refTime?: string;
+}
+
+/** ClickHouse type a sort's key is bound as */
+export type CursorKeyType = 'DateTime' | 'Float64' | 'Int64';
+
+interface EncodedCursor {
+  v: number;
+  s: string;
+  k: string | number;
+  u: string;
+  t?: string;
+}
+
+export function encodeCursor(sort: string, cursor: Cursor): string {
+  const payload: EncodedCursor = {
+    v: CURSOR_VERSION,
+    s: sort,
+    k: cursor.key,
+    u: cursor.uri,
+    ...(cursor.refTime && { t: cursor.refTime }),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * SQL condition for the rows after a cursor, in `key DESC, uri DESC`
+ * order. Reads {cursorKey} and {cursorUri} (see cursorParams).
+ */
+export function afterCursor(key: string, type: CursorKeyType, uri = 'p.uri'): string {
+  return `(
+    ${key} < {cursorKey:${type}}
+    OR (${key} = {cursorKey:${type}} AND ${uri} < {cursorUri:String})
+  )`;
+}
+
+/**
+ * Query parameters for afterCursor()
+ */
+export function cursorParams(cursor: Cursor | undefined): Record<string, unknown> {
+  return cursor ? { cursorKey: cursor.key, cursorUri: cursor.uri } : {};
+}
+
+/**
+ * Split rows fetched with one more than `limit` (to tell whether there's
+ * another page) into the page and the cursor for the one after it
+ */
+export function paginate<T>(
+  rows: T[],
+  limit: number,
+  next: (last: T) => string
+): { page: T[]; cursor?: string } {
+  if (rows.length <= limit) {
+    return { page: rows };
+  }
+  const page = rows.slice(0, limit);
+  return { page, cursor: next(page[page.length - 1]) };
+}
+
+/**
+ * Decode a cursor issued by encodeCursor() for the same sort, whose key
+ * is a `keyType`. Throws InvalidRequestError for anything else, including
+ * cursors from an older version or another sort order.
+ */
+export function decodeCursor(sort: string, value: string, keyType: CursorKeyType): Cursor {
+  let payload: Partial<EncodedCursor>;
+  try {
+    payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidRequestError('Malformed cursor');
+  }
+
+  if (
+    payload === null ||
+    typeof payload !== 'object' ||
+    payload.v !== CURSOR_VERSION ||
+    payload.s !== sort ||
+    !isKey(payload.k, keyType) ||
+    typeof payload.u !== 'string' ||
+    (payload.t !== undefined && !isDate(payload.t))
+  ) {
+    throw new InvalidRequestError('Malformed cursor');
+  }
+
+  return { key: payload.k, uri: payload.u, refTime: payload.t };
+}
+
+function isKey(key: unknown, type: CursorKeyType): key is string | number {
+  switch (type) {
+    case 'DateTime':
+      return isDate(key);
+    case 'Float64':
+      return typeof key === 'number' && Number.isFinite(key);
+    case 'Int64':
+      return Number.isSafeInteger(key);
+  }
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
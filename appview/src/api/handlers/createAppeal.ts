@@ -0,0 +1,119 @@
+/**
+ * Write Handler: Create Appeal
+ *
+ * Handles incoming app.molt.appeal records from the firehose.
+ * An appeal asks for a mod action to be reconsidered. Every appeal is
+ * stored; it only counts if the action is open to appeal at its
+ * createdAt - not already under one, reversed, or finally decided - which
+ * the replay decides once the records before it are in (see
+ * ../appeals.ts). An appeal of an action not indexed yet is judged when
+ * the action arrives.
+ */
+
+import { Database } from '../../db/index.js';
+import { findLifecycleAction, refreshState } from '../appeals.js';
+import { resolvePendingTestimonies } from './createTestimony.js';
+import type { AppMoltAppeal } from '../../lexicon/generated/index.js';
+
+interface CreateAppealParams {
+  uri: string;
+  cid: string;
+  did: string;            // Appellant DID
+  record: AppMoltAppeal.Record;
+}
+
+interface CreateAppealResult {
+  success: boolean;
+  uri: string;
+  error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+export async function handleCreateAppeal(
+  params: CreateAppealParams,
+  db: Database
+): Promise<CreateAppealResult> {
+  const { uri, cid, did, record } = params;
+
+  // Validate record type
+  if (record.$type !== 'app.molt.appeal') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  try {
+    await db.execute(`
+      INSERT INTO appeals (
+        uri, cid, appellant_did, subject_uri, grounds, category,
+        representative_did, evidence, record, created_at, indexed_at
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {subject:String},
+        {grounds:String}, {category:String}, {representative:String},
+        {evidence:String}, {record:String}, {createdAt:DateTime}, {indexedAt:DateTime}
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      subject: record.subject,
+      grounds: record.grounds,
+      category: record.category ?? '',
+      representative: record.representative ?? '',
+      evidence: JSON.stringify(record.evidence ?? []),
+      record: JSON.stringify(record),
+      createdAt: new Date(record.createdAt),
+      indexedAt: new Date(),
+    });
+
+    await resolvePendingTestimonies(uri, db);
+    const action = await findLifecycleAction(db, record.subject);
+    if (action) {
+      await refreshState(db, action.uri);
+    }
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Handle appeal deletion (withdrawal)
+ *
+ * The action's state is replayed without it; a resolution of a withdrawn
+ * appeal no longer counts.
+ */
+export async function handleDeleteAppeal(
+  uri: string,
+  db: Database
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
+  try {
+    const [appeal] = await db.query<{ subject_uri: string }>(`
+      SELECT subject_uri FROM appeals WHERE uri = {uri:String} LIMIT 1
+    `, { uri });
+
+    await db.execute(`
+      DELETE FROM appeals WHERE uri = {uri:String}
+    `, { uri });
+
+    if (appeal) {
+      await refreshState(db, appeal.subject_uri);
+    }
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
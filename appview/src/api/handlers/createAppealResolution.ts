@@ -0,0 +1,141 @@
+/**
+ * Write Handler: Create Appeal Resolution
+ *
+ * Handles incoming app.molt.appealResolution records from the firehose.
+ * A resolution records the reviewing authority's decision on an appeal.
+ * Every resolution is stored; it only counts if it decides the action's
+ * open appeal, once heard, comes from someone with authority over the
+ * submolt, names no other action, and doesn't follow a final decision.
+ * The replay decides that once the records before it are in (see
+ * ../appeals.ts), so a resolution of an appeal (or action) not indexed
+ * yet is judged when it arrives.
+ */
+
+import { Database } from '../../db/index.js';
+import { refreshState } from '../appeals.js';
+import type { AppMoltAppealResolution } from '../../lexicon/generated/index.js';
+
+interface CreateAppealResolutionParams {
+  uri: string;
+  cid: string;
+  did: string;            // Author DID
+  record: AppMoltAppealResolution.Record;
+}
+
+interface CreateAppealResolutionResult {
+  success: boolean;
+  uri: string;
+  error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+export async function handleCreateAppealResolution(
+  params: CreateAppealResolutionParams,
+  db: Database
+): Promise<CreateAppealResolutionResult> {
+  const { uri, cid, did, record } = params;
+
+  // Validate record type
+  if (record.$type !== 'app.molt.appealResolution') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  // Nobody can resolve on someone else's behalf
+  if (record.resolverDid !== did) {
+    return {
+      success: false,
+      uri,
+      error: 'resolverDid must match the record author',
+    };
+  }
+
+  try {
+    await db.execute(`
+      INSERT INTO appeal_resolutions (
+        uri, cid, resolver_did, appeal_uri, mod_action_uri, outcome,
+        reasoning, resolver_authority, modifications, remand_instructions,
+        final_decision, record, created_at, indexed_at
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {appeal:String},
+        {modAction:String}, {outcome:String}, {reasoning:String},
+        {resolverAuthority:String}, {modifications:String},
+        {remandInstructions:String}, {finalDecision:Bool},
+        {record:String}, {createdAt:DateTime}, {indexedAt:DateTime}
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      appeal: record.appeal,
+      modAction: record.modAction ?? '',
+      outcome: record.outcome,
+      reasoning: record.reasoning,
+      resolverAuthority: record.resolverAuthority ?? '',
+      modifications: record.modifications ?? '',
+      remandInstructions: record.remandInstructions ?? '',
+      finalDecision: record.finalDecision ?? false,
+      record: JSON.stringify(record),
+      createdAt: new Date(record.createdAt),
+      indexedAt: new Date(),
+    });
+
+    // The appeal is the authority on which action it addresses
+    const [appeal] = await db.query<{ subject_uri: string }>(`
+      SELECT subject_uri FROM appeals WHERE uri = {uri:String} LIMIT 1
+    `, { uri: record.appeal });
+    const actionUri = appeal?.subject_uri ?? record.modAction;
+    if (actionUri) {
+      await refreshState(db, actionUri);
+    }
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Handle resolution deletion
+ *
+ * The appeal goes back to awaiting a decision; a reversal it made is undone.
+ */
+export async function handleDeleteAppealResolution(
+  uri: string,
+  db: Database
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
+  try {
+    // The appeal is the authority on which action it addresses
+    const [resolution] = await db.query<{ mod_action_uri: string }>(`
+      SELECT coalesce(nullIf(a.subject_uri, ''), r.mod_action_uri) AS mod_action_uri
+      FROM appeal_resolutions r
+      LEFT JOIN appeals a ON a.uri = r.appeal_uri
+      WHERE r.uri = {uri:String}
+      LIMIT 1
+    `, { uri });
+
+    await db.execute(`
+      DELETE FROM appeal_resolutions WHERE uri = {uri:String}
+    `, { uri });
+
+    if (resolution?.mod_action_uri) {
+      await refreshState(db, resolution.mod_action_uri);
+    }
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
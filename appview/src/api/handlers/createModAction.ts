@@ -0,0 +1,239 @@
+/**
+ * Write Handler: Create Mod Action
+ *
+ * Handles incoming app.molt.modAction records from the firehose.
+ * Mod actions live in the moderator's own PDS, so every decision is
+ * public and attributable. Each is stored with the authority its author
+ * held over the submolt when they committed it (see ../authority.ts).
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltModAction } from '../../lexicon/generated/index.js';
+import { refreshState } from '../appeals.js';
+import { assessAuthority } from '../authority.js';
+import { Clock, systemClock } from '../../scheduler/clock.js';
+import { resolvePendingTestimonies } from './createTestimony.js';
+
+interface CreateModActionParams {
+  uri: string;
+  cid: string;
+  did: string;            // Moderator DID
+  record: AppMoltModAction.Record;
+  committedAt?: Date;     // When the action was committed to the repo
+}
+
+interface CreateModActionResult {
+  success: boolean;
+  uri: string;
+  error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+export async function handleCreateModAction(
+  params: CreateModActionParams,
+  db: Database,
+  clock: Clock = systemClock
+): Promise<CreateModActionResult> {
+  const { uri, cid, did, record, committedAt } = params;
+
+  // Validate record type
+  if (record.$type !== 'app.molt.modAction') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  // Subject must name a post or a user
+  const subjectDid = record.subject.user ?? didFromUri(record.subject.post?.uri);
+  if (!subjectDid) {
+    return {
+      success: false,
+      uri,
+      error: 'Subject must reference a post or a user',
+    };
+  }
+
+  try {
+    const existing = await db.query<{ cid: string }>(`
+      SELECT cid FROM mod_actions WHERE uri = {uri:String} LIMIT 1
+    `, { uri });
+
+    if (existing.length > 0) {
+      return existing[0].cid === cid
+        ? { success: true, uri }
+        : handleUpdateModAction(params, db, clock);
+    }
+
+    // createdAt is the author's to choose; the commit time isn't
+    const createdAt = new Date(record.createdAt);
+    const authority = await assessAuthority(db, record.submolt, did, committedAt ?? createdAt);
+
+    await db.execute(`
+      INSERT INTO mod_actions (
+        uri, cid, moderator_did, context, action_type, severity, reason,
+        subject_did, subject_post_uri, subject_post_cid, appeals_to,
+        labels, expires_at, operator_did, status, authority, record,
+        created_at, committed_at, indexed_at
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {context:String},
+        {actionType:String}, {severity:String}, {reason:String},
+        {subjectDid:String}, {subjectPostUri:String}, {subjectPostCid:String},
+        {appealsTo:String}, {labels:Array(String)},
+        {expiresAt:Nullable(DateTime)}, {operatorDid:String},
+        'active', {authority:String}, {record:String},
+        {createdAt:DateTime}, {committedAt:Nullable(DateTime)}, {indexedAt:DateTime}
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      context: record.submolt,
+      actionType: record.action,
+      severity: record.severity ?? '',
+      reason: record.reason ?? '',
+      subjectDid,
+      subjectPostUri: record.subject.post?.uri ?? '',
+      subjectPostCid: record.subject.post?.cid ?? '',
+      appealsTo: record.appealsTo?.uri ?? '',
+      labels: record.labels ?? [],
+      expiresAt: record.expiresAt ? new Date(record.expiresAt) : null,
+      operatorDid: record.operatorDid ?? '',
+      authority,
+      record: JSON.stringify(record),
+      createdAt,
+      committedAt: committedAt ?? null,
+      indexedAt: new Date(),
+    });
+
+    // Testimonies and appeals (and their resolutions) can reach us before
+    // the action
+    const appeals = await db.query<{ uri: string }>(`
+      SELECT uri FROM appeals WHERE subject_uri = {uri:String}
+    `, { uri });
+    for (const subjectUri of [uri, ...appeals.map(appeal => appeal.uri)]) {
+      await resolvePendingTestimonies(subjectUri, db);
+    }
+    await refreshState(db, uri);
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Handle mod action edits
+ *
+ * Moderators may amend the reason, severity, labels or expiry of an
+ * action. The subject and submolt are fixed - changing those is a new
+ * action. Status and authority are owned by the AppView and are left
+ * untouched, except that an expired action whose expiry is extended past
+ * now (by `clock`, as the expiry scheduler keeps time) or removed is
+ * active again.
+ */
+export async function handleUpdateModAction(
+  params: CreateModActionParams,
+  db: Database,
+  clock: Clock = systemClock
+): Promise<CreateModActionResult> {
+  const { uri, cid, record } = params;
+
+  if (record.$type !== 'app.molt.modAction') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  try {
+    const existing = await db.query<{ cid: string; status: string }>(`
+      SELECT cid, status FROM mod_actions WHERE uri = {uri:String} LIMIT 1
+    `, { uri });
+
+    if (existing.length === 0) {
+      return handleCreateModAction(params, db, clock);
+    }
+
+    const now = clock.now();
+    const expiresAt = record.expiresAt ? new Date(record.expiresAt) : null;
+    const revived = existing[0].status === 'expired' && (!expiresAt || expiresAt > now);
+
+    await db.execute(`
+      ALTER TABLE mod_actions UPDATE
+        cid = {cid:String},
+        severity = {severity:String},
+        reason = {reason:String},
+        labels = {labels:Array(String)},
+        expires_at = {expiresAt:Nullable(DateTime)},
+        ${revived ? "status = 'active'," : ''}
+        record = {record:String}
+      WHERE uri = {uri:String}
+    `, {
+      uri,
+      cid,
+      severity: record.severity ?? '',
+      reason: record.reason ?? '',
+      labels: record.labels ?? [],
+      expiresAt,
+      record: JSON.stringify(record),
+    });
+
+    if (revived) {
+      await db.execute(`
+        INSERT INTO mod_action_transitions (
+          action_uri, from_status, to_status, cause, at, indexed_at
+        ) VALUES (
+          {uri:String}, 'expired', 'active', 'update', {at:DateTime}, {indexedAt:DateTime}
+        )
+      `, { uri, at: now, indexedAt: now });
+    }
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Handle mod action deletion
+ *
+ * A moderator deleting their action lifts it.
+ */
+export async function handleDeleteModAction(
+  uri: string,
+  db: Database
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
+  try {
+    await db.execute(`
+      DELETE FROM mod_actions WHERE uri = {uri:String}
+    `, { uri });
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Extract the repo DID from an AT URI
+ */
+function didFromUri(uri: string | undefined): string | undefined {
+  return uri?.match(/^at:\/\/([^/]+)/)?.[1];
+}
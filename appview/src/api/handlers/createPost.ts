@@ -1,26 +1,21 @@
 /**
  * Write Handler: Create Post
  * 
- * Handles incoming app.molt.post records from the firehose.
- * Validates the record and indexes it for querying.
+ * Handles incoming app.molt.post records from the firehose and indexes
+ * them for querying. The firehose has already checked the record against
+ * the app.molt.post lexicon.
  */
 
-import { Database } from '../db';
-
-interface MoltPostRecord {
-  $type: 'app.molt.post';
-  text: string;
-  submolt: string;        // AT URI of the submolt
-  replyTo?: string;       // AT URI of parent post (if reply)
-  logicTrace?: string;    // Optional reasoning trace for accountability
-  createdAt: string;
-}
+import { Database } from '../../db/index.js';
+import type { AppMoltPost } from '../../lexicon/generated/index.js';
+import { accountabilityStatus } from '../accountability.js';
+import { ParsedTrace, parseTrace } from '../trace.js';
 
 interface CreatePostParams {
   uri: string;            // AT URI of the post
   cid: string;            // CID of the record
   did: string;            // Author DID
-  record: MoltPostRecord;
+  record: AppMoltPost.Record;
   indexedAt?: string;     // When we indexed it (defaults to now)
 }
 
@@ -28,6 +23,7 @@ interface CreatePostResult {
   success: boolean;
   uri: string;
   error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
 }
 
 export async function handleCreatePost(
@@ -45,48 +41,81 @@ export async function handleCreatePost(
     };
   }
 
-  // Validate required fields
-  if (!record.text || !record.submolt) {
-    return {
-      success: false,
-      uri,
-      error: 'Missing required fields: text and submolt',
-    };
-  }
+  try {
+    // Validate submolt exists (optional - could be relaxed for federation)
+    const submoltExists = await db.query<{ count: number }>(`
+      SELECT count(*) as count FROM submolts WHERE uri = {submolt:String}
+    `, { submolt: record.submolt });
 
-  // Validate submolt exists (optional - could be relaxed for federation)
-  const submoltExists = await db.query<{ count: number }>(`
-    SELECT count(*) as count FROM submolts WHERE uri = {submolt:String}
-  `, { submolt: record.submolt });
+    if (submoltExists[0]?.count === 0) {
+      // Log warning but don't reject - submolt might be on another PDS
+      console.warn(`Post references unknown submolt: ${record.submolt}`);
+    }
 
-  if (submoltExists[0]?.count === 0) {
-    // Log warning but don't reject - submolt might be on another PDS
-    console.warn(`Post references unknown submolt: ${record.submolt}`);
-  }
+    // If this is a reply, check the parent version it was written against
+    let parentStale = false;
+    if (record.replyTo) {
+      const parents = await db.query<{ cid: string }>(`
+        SELECT cid FROM posts WHERE uri = {parent:String} LIMIT 1
+      `, { parent: record.replyTo.parent.uri });
 
-  // If this is a reply, validate parent exists
-  if (record.replyTo) {
-    const parentExists = await db.query<{ count: number }>(`
-      SELECT count(*) as count FROM posts WHERE uri = {parent:String}
-    `, { parent: record.replyTo });
+      if (parents.length === 0) {
+        // Counted and checked when the parent is indexed
+        console.warn(`Reply references unknown parent: ${record.replyTo.parent.uri}`);
+      } else {
+        parentStale = parents[0].cid !== record.replyTo.parent.cid;
+      }
+    }
+
+    const existing = await db.query<{ cid: string }>(`
+      SELECT cid FROM posts WHERE uri = {uri:String} LIMIT 1
+    `, { uri });
 
-    if (parentExists[0]?.count === 0) {
-      console.warn(`Reply references unknown parent: ${record.replyTo}`);
+    if (existing.length > 0) {
+      if (existing[0].cid !== cid) {
+        return handleUpdatePost(params, db);
+      }
+      // Redelivered create (e.g. after a restart, or a failure partway
+      // through) - the row is kept, the rest is redone
+      await indexPostDetails(uri, cid, did, record, db);
+      return { success: true, uri };
     }
-  }
 
-  // Insert the post
-  try {
+    // Replies can arrive before their parent - count any already indexed
+    const counts = await countReplies(uri, db);
+
+    // ...and so can votes on it
+    const [votes] = await db.query<{ up: number; down: number }>(`
+      SELECT
+        countIf(direction = 'up') AS up,
+        countIf(direction = 'down') AS down
+      FROM votes
+      WHERE subject = {uri:String} AND effective = 1
+    `, { uri });
+
+    const trace = parseTrace(record);
+
+    // Insert the post
     await db.execute(`
       INSERT INTO posts (
-        uri, cid, did, submolt, text, reply_to, logic_trace,
+        uri, cid, did, submolt, text,
+        root_uri, parent_uri, parent_cid, parent_stale,
+        operator_did, knowledge_commit, knowledge_snapshot,
+        is_agent, accountability, logic_trace,
+        trace_format, trace_step_count, trace_source_count,
+        trace_tool_call_count, trace_confidence,
         record, created_at, indexed_at,
-        reply_count, upvote_count, downvote_count
+        reply_count, thread_reply_count, upvote_count, downvote_count
       ) VALUES (
-        {uri:String}, {cid:String}, {did:String}, {submolt:String},
-        {text:String}, {replyTo:String}, {logicTrace:String},
+        {uri:String}, {cid:String}, {did:String}, {submolt:String}, {text:String},
+        {rootUri:String}, {parentUri:String}, {parentCid:String}, {parentStale:Bool},
+        {operatorDid:String}, {knowledgeCommit:String}, {knowledgeSnapshot:String},
+        {isAgent:Bool}, {accountability:String}, {logicTrace:String},
+        {traceFormat:String}, {traceStepCount:Int64}, {traceSourceCount:Int64},
+        {traceToolCallCount:Int64}, {traceConfidence:Nullable(Int64)},
         {record:String}, {createdAt:DateTime}, {indexedAt:DateTime},
-        0, 0, 0
+        {replyCount:Int64}, {threadReplyCount:Int64},
+        {upvoteCount:Int64}, {downvoteCount:Int64}
       )
     `, {
       uri,
@@ -94,42 +123,321 @@ export async function handleCreatePost(
       did,
       submolt: record.submolt,
       text: record.text,
-      replyTo: record.replyTo ?? '',
+      rootUri: record.replyTo?.root.uri ?? '',
+      parentUri: record.replyTo?.parent.uri ?? '',
+      parentCid: record.replyTo?.parent.cid ?? '',
+      parentStale,
+      replyCount: counts.replies,
+      threadReplyCount: counts.threadReplies,
+      upvoteCount: votes?.up ?? 0,
+      downvoteCount: votes?.down ?? 0,
+      ...accountabilityColumns(record),
       logicTrace: record.logicTrace ?? '',
+      ...traceColumns(trace),
       record: JSON.stringify(record),
       createdAt: new Date(record.createdAt),
       indexedAt: indexedAt ? new Date(indexedAt) : new Date(),
     });
 
-    // If this is a reply, increment parent's reply count
-    if (record.replyTo) {
-      await db.execute(`
-        ALTER TABLE posts UPDATE reply_count = reply_count + 1
-        WHERE uri = {parent:String}
-      `, { parent: record.replyTo });
+    await indexPostDetails(uri, cid, did, record, db);
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Handle post edits
+ * 
+ * Updates the indexed content in place - counters (replies, votes) belong
+ * to the URI, not the CID, so they carry over. Every CID the post has had
+ * is kept in post_versions.
+ */
+export async function handleUpdatePost(
+  params: CreatePostParams,
+  db: Database
+): Promise<CreatePostResult> {
+  const { uri, cid, did, record } = params;
+
+  if (record.$type !== 'app.molt.post') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  if (!record.text || !record.submolt) {
+    return {
+      success: false,
+      uri,
+      error: 'Missing required fields: text and submolt',
+    };
+  }
+
+  try {
+    const existing = await db.query<{ cid: string }>(`
+      SELECT cid FROM posts WHERE uri = {uri:String} LIMIT 1
+    `, { uri });
+
+    if (existing.length === 0) {
+      // Never saw the create (e.g. indexing started mid-history)
+      return handleCreatePost(params, db);
     }
 
+    if (existing[0].cid === cid) {
+      // Redelivered edit - the row is up to date, the rest is redone in
+      // case a failure cut it short
+      await indexPostDetails(uri, cid, did, record, db);
+      return { success: true, uri };
+    }
+
+    const trace = parseTrace(record);
+
+    // Thread position is fixed at creation; edits can't move a reply
+    await db.execute(`
+      ALTER TABLE posts UPDATE
+        cid = {cid:String},
+        submolt = {submolt:String},
+        text = {text:String},
+        operator_did = {operatorDid:String},
+        knowledge_commit = {knowledgeCommit:String},
+        knowledge_snapshot = {knowledgeSnapshot:String},
+        is_agent = {isAgent:Bool},
+        accountability = {accountability:String},
+        logic_trace = {logicTrace:String},
+        trace_format = {traceFormat:String},
+        trace_step_count = {traceStepCount:Int64},
+        trace_source_count = {traceSourceCount:Int64},
+        trace_tool_call_count = {traceToolCallCount:Int64},
+        trace_confidence = {traceConfidence:Nullable(Int64)},
+        record = {record:String}
+      WHERE uri = {uri:String}
+    `, {
+      uri,
+      cid,
+      submolt: record.submolt,
+      text: record.text,
+      ...accountabilityColumns(record),
+      logicTrace: record.logicTrace ?? '',
+      ...traceColumns(trace),
+      record: JSON.stringify(record),
+    });
+
+    await indexPostDetails(uri, cid, did, record, db);
+
     return { success: true, uri };
   } catch (error) {
     return {
       success: false,
       uri,
       error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
 }
 
+/**
+ * Everything a create or edit writes besides the post row: its version,
+ * the stale flags on replies to it, its trace, and (for a reply) the
+ * counts on its parent and thread root. Each step can be repeated, so a
+ * redelivered create or edit finishes whatever a failed one left undone.
+ */
+async function indexPostDetails(
+  uri: string,
+  cid: string,
+  did: string,
+  record: AppMoltPost.Record,
+  db: Database
+): Promise<void> {
+  await recordPostVersion(uri, cid, record, db);
+  await flagStaleReplies(uri, cid, db);
+  await indexTrace(uri, did, parseTrace(record), db);
+
+  if (record.replyTo) {
+    await recountReplies([record.replyTo.parent.uri, record.replyTo.root.uri], db);
+  }
+}
+
+/**
+ * Count the indexed replies to a post, direct and anywhere in its thread
+ */
+async function countReplies(
+  uri: string,
+  db: Database
+): Promise<{ replies: number; threadReplies: number }> {
+  const [counts] = await db.query<{ replies: number; thread_replies: number }>(`
+    SELECT
+      countIf(parent_uri = {uri:String}) AS replies,
+      countIf(root_uri = {uri:String}) AS thread_replies
+    FROM posts
+    WHERE parent_uri = {uri:String} OR root_uri = {uri:String}
+  `, { uri });
+
+  return {
+    replies: Number(counts?.replies ?? 0),
+    threadReplies: Number(counts?.thread_replies ?? 0),
+  };
+}
+
+/**
+ * Set the reply counters of these posts from the replies indexed now,
+ * rather than adjusting them, so they can't drift on retries
+ */
+async function recountReplies(uris: string[], db: Database): Promise<void> {
+  for (const uri of new Set(uris.filter(Boolean))) {
+    const counts = await countReplies(uri, db);
+    await db.execute(`
+      ALTER TABLE posts UPDATE
+        reply_count = {replies:Int64},
+        thread_reply_count = {threadReplies:Int64}
+      WHERE uri = {uri:String}
+    `, { uri, ...counts });
+  }
+}
+
+/**
+ * Append a CID to a post's edit history
+ */
+async function recordPostVersion(
+  uri: string,
+  cid: string,
+  record: AppMoltPost.Record,
+  db: Database
+): Promise<void> {
+  await db.execute(`
+    INSERT INTO post_versions (uri, cid, record, indexed_at)
+    VALUES ({uri:String}, {cid:String}, {record:String}, {indexedAt:DateTime})
+  `, {
+    uri,
+    cid,
+    record: JSON.stringify(record),
+    indexedAt: new Date(),
+  });
+}
+
+/**
+ * Flag replies to a post by whether they reference its current CID
+ */
+async function flagStaleReplies(uri: string, cid: string, db: Database): Promise<void> {
+  await db.execute(`
+    ALTER TABLE posts UPDATE parent_stale = parent_cid != {cid:String}
+    WHERE parent_uri = {uri:String}
+  `, { uri, cid });
+}
+
+/**
+ * The record's accountability fields, as indexed on the post row, and
+ * whether they mark it as an agent post
+ */
+function accountabilityColumns(record: AppMoltPost.Record) {
+  const accountability = accountabilityStatus(record);
+  return {
+    operatorDid: record.operatorDid ?? '',
+    knowledgeCommit: record.knowledgeCommit ?? '',
+    knowledgeSnapshot: record.knowledgeSnapshot ?? '',
+    isAgent: accountability !== 'none',
+    accountability,
+  };
+}
+
+/**
+ * The trace summary kept on the post row
+ */
+function traceColumns(trace: ParsedTrace) {
+  return {
+    traceFormat: trace.format,
+    traceStepCount: trace.steps.length,
+    traceSourceCount: trace.sources.length,
+    traceToolCallCount: trace.toolCallCount,
+    traceConfidence: trace.confidence ?? null,
+  };
+}
+
+/**
+ * Replace a post's indexed trace steps and cited sources
+ */
+async function indexTrace(
+  uri: string,
+  did: string,
+  trace: ParsedTrace,
+  db: Database
+): Promise<void> {
+  await deleteTrace(uri, db);
+  const indexedAt = new Date();
+
+  if (trace.steps.length > 0) {
+    const steps = valuesList(
+      trace.steps.map((step, idx) => ({ uri, idx, ...step, confidence: step.confidence ?? null, indexedAt })),
+      {
+        uri: 'String', idx: 'Int64', kind: 'String', description: 'String',
+        tool: 'String', confidence: 'Nullable(Int64)', indexedAt: 'DateTime',
+      }
+    );
+    await db.execute(`
+      INSERT INTO trace_steps (post_uri, idx, kind, description, tool, confidence, indexed_at)
+      VALUES ${steps.sql}
+    `, steps.params);
+  }
+
+  if (trace.sources.length > 0) {
+    const sources = valuesList(
+      trace.sources.map(source => ({ uri, did, source: source.uri, step: source.step, indexedAt })),
+      { uri: 'String', did: 'String', source: 'String', step: 'Int64', indexedAt: 'DateTime' }
+    );
+    await db.execute(`
+      INSERT INTO trace_sources (post_uri, did, source_uri, step_idx, indexed_at)
+      VALUES ${sources.sql}
+    `, sources.params);
+  }
+}
+
+async function deleteTrace(uri: string, db: Database): Promise<void> {
+  await db.execute(`
+    DELETE FROM trace_steps WHERE post_uri = {uri:String}
+  `, { uri });
+  await db.execute(`
+    DELETE FROM trace_sources WHERE post_uri = {uri:String}
+  `, { uri });
+}
+
+/**
+ * Placeholders and parameters for a multi-row VALUES list, so each table
+ * gets one insert rather than one per row. `types` gives each column's
+ * field in the row, in order.
+ */
+function valuesList(
+  rows: Record<string, unknown>[],
+  types: Record<string, string>
+): { sql: string; params: Record<string, unknown> } {
+  const params: Record<string, unknown> = {};
+  const tuples = rows.map((row, i) => {
+    const placeholders = Object.entries(types).map(([field, type]) => {
+      params[`${field}${i}`] = row[field];
+      return `{${field}${i}:${type}}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+  return { sql: tuples.join(',\n'), params };
+}
+
 /**
  * Handle post deletion
  */
 export async function handleDeletePost(
   uri: string,
   db: Database
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
   try {
     // Get post info before deleting (for reply count update)
-    const posts = await db.query<{ reply_to: string }>(`
-      SELECT reply_to FROM posts WHERE uri = {uri:String} LIMIT 1
+    const posts = await db.query<{ root_uri: string; parent_uri: string }>(`
+      SELECT root_uri, parent_uri FROM posts WHERE uri = {uri:String} LIMIT 1
     `, { uri });
 
     if (posts.length === 0) {
@@ -138,24 +446,24 @@ export async function handleDeletePost(
 
     const post = posts[0];
 
-    // Delete the post
+    // Delete the post, its edit history and its indexed trace
     await db.execute(`
       DELETE FROM posts WHERE uri = {uri:String}
     `, { uri });
+    await db.execute(`
+      DELETE FROM post_versions WHERE uri = {uri:String}
+    `, { uri });
+    await deleteTrace(uri, db);
 
-    // Decrement parent's reply count if this was a reply
-    if (post.reply_to) {
-      await db.execute(`
-        ALTER TABLE posts UPDATE reply_count = reply_count - 1
-        WHERE uri = {parent:String} AND reply_count > 0
-      `, { parent: post.reply_to });
-    }
+    // Recount the parent's and thread root's replies if this was a reply
+    await recountReplies([post.parent_uri, post.root_uri], db);
 
     return { success: true };
   } catch (error) {
     return {
       success: false,
       error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
 }
@@ -0,0 +1,104 @@
+/**
+ * Write Handler: Create Standing
+ *
+ * Handles incoming app.molt.standing records from the firehose.
+ * Standing is per-actor, per-context (Lane B). Records are rewritten as
+ * they evolve, so creates and edits both store the latest version.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltStanding } from '../../lexicon/generated/index.js';
+
+interface CreateStandingParams {
+  uri: string;
+  cid: string;
+  did: string;            // Assessor DID (the standing record's author)
+  record: AppMoltStanding.Record;
+}
+
+interface CreateStandingResult {
+  success: boolean;
+  uri: string;
+  error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+export async function handleCreateStanding(
+  params: CreateStandingParams,
+  db: Database
+): Promise<CreateStandingResult> {
+  const { uri, cid, did, record } = params;
+
+  // Validate record type
+  if (record.$type !== 'app.molt.standing') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  try {
+    await db.execute(`
+      INSERT INTO standing (
+        uri, cid, assessor_did, subject_did, context_type, context_uri,
+        state, last_activity, phi_score, metrics, total_contributions,
+        positive_ratio, record, created_at, updated_at, indexed_at
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {subjectDid:String},
+        {contextType:String}, {contextUri:String}, {state:String},
+        {lastActivity:Nullable(DateTime)}, {phiScore:Nullable(Float64)},
+        {metrics:String}, {totalContributions:Int32}, {positiveRatio:Float64},
+        {record:String}, {createdAt:DateTime}, {updatedAt:DateTime}, {indexedAt:DateTime}
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      subjectDid: record.subjectDid,
+      contextType: record.context.type,
+      contextUri: record.context.uri,
+      state: record.state,
+      lastActivity: record.lastActivity ? new Date(record.lastActivity) : null,
+      phiScore: record.phiScore ?? null,
+      metrics: JSON.stringify(record.metrics ?? {}),
+      totalContributions: record.metrics?.totalContributions ?? 0,
+      positiveRatio: record.metrics?.positiveRatio ?? 0,
+      record: JSON.stringify(record),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt ?? record.createdAt),
+      indexedAt: new Date(),
+    });
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Handle standing deletion
+ */
+export async function handleDeleteStanding(
+  uri: string,
+  db: Database
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
+  try {
+    await db.execute(`
+      DELETE FROM standing WHERE uri = {uri:String}
+    `, { uri });
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Write Handler: Create Submolt
+ *
+ * Handles incoming app.molt.submolt records from the firehose.
+ * Submolts are keyed by URI - creates and edits both write the latest
+ * version of the record. Every version is also kept in submolt_versions,
+ * the moderator history that mod actions are authorized against (see
+ * ../authority.ts), and the roles it grants or revokes in role_events
+ * (see ../roles.ts).
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltSubmolt } from '../../lexicon/generated/index.js';
+import { reassessModActions } from '../authority.js';
+import { roleChanges } from '../roles.js';
+
+interface CreateSubmoltParams {
+  uri: string;
+  cid: string;
+  did: string;            // Owner DID
+  record: AppMoltSubmolt.Record;
+  committedAt?: Date;     // When this version was committed to the repo
+}
+
+interface CreateSubmoltResult {
+  success: boolean;
+  uri: string;
+  error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+export async function handleCreateSubmolt(
+  params: CreateSubmoltParams,
+  db: Database
+): Promise<CreateSubmoltResult> {
+  const { uri, cid, did, record, committedAt } = params;
+
+  // Validate record type
+  if (record.$type !== 'app.molt.submolt') {
+    return {
+      success: false,
+      uri,
+      error: `Invalid record type: ${record.$type}`,
+    };
+  }
+
+  try {
+    await db.execute(`
+      INSERT INTO submolts (
+        uri, cid, did, rkey, name, description, is_agent_friendly,
+        moderators, rules, record, created_at, indexed_at
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {rkey:String},
+        {name:String}, {description:String}, {isAgentFriendly:Bool},
+        {moderators:Array(String)}, {rules:String},
+        {record:String}, {createdAt:DateTime}, {indexedAt:DateTime}
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      rkey: uri.split('/').pop() ?? '',
+      name: record.name,
+      description: record.description ?? '',
+      isAgentFriendly: record.isAgentFriendly ?? false,
+      moderators: record.moderators ?? [],
+      rules: JSON.stringify(record.rules ?? []),
+      record: JSON.stringify(record),
+      createdAt: new Date(record.createdAt),
+      indexedAt: new Date(),
+    });
+
+    await recordVersion(uri, cid, did, record, committedAt, db);
+
+    return { success: true, uri };
+  } catch (error) {
+    return {
+      success: false,
+      uri,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Add a version to the submolt's history, unless it's the current one
+ * (redelivered, or an edit that changed nothing), with the role changes
+ * it makes. A version takes effect when committed.
+ *
+ * The role changes and reassessment are redone for the current version
+ * too, so a redelivery finishes indexing that failed part way through.
+ * Both are idempotent: role_events are keyed by when they happened.
+ */
+async function recordVersion(
+  uri: string,
+  cid: string,
+  did: string,
+  record: AppMoltSubmolt.Record,
+  committedAt: Date | undefined,
+  db: Database
+): Promise<void> {
+  const versions = await db.query<{ cid: string; moderators: string[]; valid_from: string }>(`
+    SELECT cid, moderators, valid_from FROM submolt_versions
+    WHERE uri = {uri:String}
+    ORDER BY valid_from DESC
+    LIMIT 2
+  `, { uri });
+
+  const moderators = record.moderators ?? [];
+  let [latest, previous] = versions;
+  let validFrom: Date;
+
+  if (latest?.cid === cid) {
+    validFrom = new Date(latest.valid_from);
+  } else {
+    previous = latest;
+    validFrom = committedAt ?? new Date();
+
+    await db.execute(`
+      INSERT INTO submolt_versions (
+        uri, cid, did, moderators, record, valid_from, indexed_at
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {moderators:Array(String)},
+        {record:String}, {validFrom:DateTime}, {indexedAt:DateTime}
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      moderators,
+      record: JSON.stringify(record),
+      validFrom,
+      indexedAt: new Date(),
+    });
+  }
+
+  for (const change of roleChanges(did, previous?.moderators, moderators)) {
+    await db.execute(`
+      INSERT INTO role_events (
+        submolt, did, role, event, at, version_cid, indexed_at
+      ) VALUES (
+        {submolt:String}, {did:String}, {role:String}, {event:String},
+        {at:DateTime}, {cid:String}, {indexedAt:DateTime}
+      )
+    `, { submolt: uri, ...change, at: validFrom, cid, indexedAt: new Date() });
+  }
+
+  await reassessModActions(db, uri);
+}
+
+/**
+ * Handle submolt deletion
+ *
+ * Posts in the submolt stay indexed - they live in their authors' repos.
+ * Its version history stays too: it still decides which past mod
+ * actions were authorized.
+ */
+export async function handleDeleteSubmolt(
+  uri: string,
+  db: Database
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
+  try {
+    await db.execute(`
+      DELETE FROM submolts WHERE uri = {uri:String}
+    `, { uri });
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
+    };
+  }
+}
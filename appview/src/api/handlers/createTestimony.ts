@@ -8,31 +8,38 @@
  * Remember: "Reputation is fungible, testimony is non-fungible"
  */
 
-import { Database } from '../db';
-
-interface MoltTestimonyRecord {
-  $type: 'app.molt.testimony';
-  subject: string;        // DID being testified about
-  category: 'positive' | 'negative' | 'neutral';
-  content: string;        // The testimony itself
-  context?: string;       // Submolt context (AT URI)
-  evidence?: string[];    // AT URIs to evidence
-  createdAt: string;
-}
+import { Database } from '../../db/index.js';
+import type { AppMoltTestimony } from '../../lexicon/generated/index.js';
+import { refreshState, testimonyAction } from '../appeals.js';
 
 interface CreateTestimonyParams {
   uri: string;
   cid: string;
   did: string;            // Witness DID
-  record: MoltTestimonyRecord;
+  record: AppMoltTestimony.Record;
 }
 
 interface CreateTestimonyResult {
   success: boolean;
   uri: string;
   error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+/**
+ * Who and where a testimony bears on, taken from the action it addresses
+ */
+interface TestimonySubject {
+  did: string;            // The user the action concerns
+  context: string;        // Submolt AT URI
+  isAppeal: boolean;
+  actionType: string;
 }
 
+// Actions that count against their subject. Supporting one of these is
+// negative testimony about the subject; opposing it is positive.
+const ADVERSE_ACTIONS = ['remove', 'warn', 'ban'];
+
 export async function handleCreateTestimony(
   params: CreateTestimonyParams,
   db: Database
@@ -48,66 +55,182 @@ export async function handleCreateTestimony(
     };
   }
 
-  // Validate required fields
-  if (!record.subject || !record.category || !record.content) {
-    return {
-      success: false,
-      uri,
-      error: 'Missing required fields: subject, category, content',
-    };
-  }
-
-  // Validate category
-  if (!['positive', 'negative', 'neutral'].includes(record.category)) {
-    return {
-      success: false,
-      uri,
-      error: `Invalid category: ${record.category}`,
-    };
-  }
-
-  // Prevent self-testimony
-  if (record.subject === did) {
-    return {
-      success: false,
-      uri,
-      error: 'Cannot testify about yourself',
-    };
-  }
-
   try {
-    // Insert the testimony
+    const subject = await resolveSubject(record.subject.uri, db);
+    if (!subject) {
+      // Stored anyway - it counts once the action is indexed (see
+      // resolvePendingTestimonies)
+      console.warn(`Testimony references unknown action: ${record.subject.uri}`);
+    }
+
     await db.execute(`
       INSERT INTO testimonies (
-        uri, cid, witness_did, subject_did, category, content,
-        context, evidence, created_at
+        uri, cid, witness_did, subject_uri, subject_cid, subject_did,
+        context, category, position, standing_basis, standing_context,
+        content, anonymous, record, created_at, indexed_at
       ) VALUES (
-        {uri:String}, {cid:String}, {witnessDid:String}, {subjectDid:String},
-        {category:String}, {content:String}, {context:String},
-        {evidence:Array(String)}, {createdAt:DateTime}
+        {uri:String}, {cid:String}, {witnessDid:String}, {subjectUri:String},
+        {subjectCid:String}, {subjectDid:String}, {context:String},
+        {category:String}, {position:String}, {standingBasis:String},
+        {standingContext:String}, {content:String}, {anonymous:Bool},
+        {record:String}, {createdAt:DateTime}, {indexedAt:DateTime}
       )
     `, {
       uri,
       cid,
       witnessDid: did,
-      subjectDid: record.subject,
-      category: record.category,
-      content: record.content,
-      context: record.context ?? '',
-      evidence: record.evidence ?? [],
+      subjectUri: record.subject.uri,
+      subjectCid: record.subject.cid,
+      subjectDid: subject?.did ?? '',
+      context: subject?.context ?? '',
+      category: testimonyCategory(record.position, subject),
+      position: record.position,
+      standingBasis: record.standingBasis,
+      standingContext: record.standingContext ?? '',
+      content: record.content ?? '',
+      anonymous: record.anonymous ?? false,
+      record: JSON.stringify(record),
       createdAt: new Date(record.createdAt),
+      indexedAt: new Date(),
     });
 
+    // Testimony on an open appeal means it's being heard
+    await refreshAppealState(record.subject.uri, db);
+
     return { success: true, uri };
   } catch (error) {
     return {
       success: false,
       uri,
       error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
 }
 
+/**
+ * Look up the action a testimony addresses: a modAction, or an appeal
+ * record (which takes its context from the action it appeals)
+ */
+async function resolveSubject(
+  subjectUri: string,
+  db: Database
+): Promise<TestimonySubject | null> {
+  const actions = await db.query<{ subject_did: string; context: string; action_type: string }>(`
+    SELECT subject_did, context, action_type FROM mod_actions
+    WHERE uri = {uri:String}
+    LIMIT 1
+  `, { uri: subjectUri });
+
+  if (actions.length > 0) {
+    const action = actions[0];
+    return {
+      did: action.subject_did,
+      context: action.context,
+      isAppeal: action.action_type === 'appeal',
+      actionType: action.action_type,
+    };
+  }
+
+  const appeals = await db.query<{ appellant_did: string; context: string | null; action_type: string | null }>(`
+    SELECT a.appellant_did, ma.context, ma.action_type
+    FROM appeals a
+    LEFT JOIN mod_actions ma ON ma.uri = a.subject_uri
+    WHERE a.uri = {uri:String}
+    LIMIT 1
+  `, { uri: subjectUri });
+
+  if (appeals.length > 0) {
+    const appeal = appeals[0];
+    return {
+      did: appeal.appellant_did,
+      context: appeal.context ?? '',
+      isAppeal: true,
+      actionType: appeal.action_type ?? '',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Fill in who and where the testimonies on `subjectUri` bear on, for
+ * those stored before it (or the action it appeals) was indexed
+ */
+export async function resolvePendingTestimonies(subjectUri: string, db: Database): Promise<void> {
+  const subject = await resolveSubject(subjectUri, db);
+  if (!subject) {
+    return;
+  }
+
+  const pending = await db.query<{ uri: string; position: AppMoltTestimony.Record['position'] }>(`
+    SELECT uri, position FROM testimonies
+    WHERE subject_uri = {subjectUri:String}
+      AND (subject_did = '' OR context = '')
+  `, { subjectUri });
+
+  for (const testimony of pending) {
+    await db.execute(`
+      ALTER TABLE testimonies UPDATE
+        subject_did = {subjectDid:String},
+        context = {context:String},
+        category = {category:String}
+      WHERE uri = {uri:String}
+    `, {
+      uri: testimony.uri,
+      subjectDid: subject.did,
+      context: subject.context,
+      category: testimonyCategory(testimony.position, subject),
+    });
+  }
+}
+
+/**
+ * Replay the appeal state of the action a testimony bears on, if any
+ */
+async function refreshAppealState(subjectUri: string, db: Database): Promise<void> {
+  const actionUri = await testimonyAction(db, subjectUri);
+  if (actionUri) {
+    await refreshState(db, actionUri);
+  }
+}
+
+/**
+ * What a testimony means for the standing of the user the action concerns
+ */
+function testimonyCategory(
+  position: AppMoltTestimony.Record['position'],
+  subject: TestimonySubject | null
+): 'positive' | 'negative' | 'neutral' {
+  if (position === 'context-only' || !subject) {
+    return 'neutral';
+  }
+
+  // Supporting an appeal, or opposing an adverse action, backs the user
+  const backsUser = subject.isAppeal || !ADVERSE_ACTIONS.includes(subject.actionType)
+    ? position === 'support'
+    : position === 'oppose';
+
+  return backsUser ? 'positive' : 'negative';
+}
+
+/**
+ * Handle testimony edits
+ * 
+ * Testimonies carry no counters, so an edit simply replaces the indexed row.
+ */
+export async function handleUpdateTestimony(
+  params: CreateTestimonyParams,
+  db: Database
+): Promise<CreateTestimonyResult> {
+  const removed = await handleDeleteTestimony(params.uri, db);
+  if (!removed.success) {
+    return { uri: params.uri, ...removed };
+  }
+
+  return handleCreateTestimony(params, db);
+}
+
 /**
  * Handle testimony deletion
  * 
@@ -118,17 +241,26 @@ export async function handleCreateTestimony(
 export async function handleDeleteTestimony(
   uri: string,
   db: Database
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
   try {
+    const [testimony] = await db.query<{ subject_uri: string }>(`
+      SELECT subject_uri FROM testimonies WHERE uri = {uri:String} LIMIT 1
+    `, { uri });
+
     await db.execute(`
       DELETE FROM testimonies WHERE uri = {uri:String}
     `, { uri });
 
+    if (testimony) {
+      await refreshAppealState(testimony.subject_uri, db);
+    }
+
     return { success: true };
   } catch (error) {
     return {
       success: false,
       error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
 }
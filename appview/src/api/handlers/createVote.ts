@@ -1,30 +1,48 @@
 /**
  * Write Handler: Create Vote
- * 
+ *
  * Handles incoming app.molt.vote records from the firehose.
  * Updates vote counts on the target post.
+ *
+ * An account has at most one effective vote per subject: its latest vote
+ * record for it, by createdAt (URI breaks ties). If that record has been
+ * deleted the account has no vote - an older record doesn't come back.
+ *
+ * So every record is kept, deleted ones as tombstones, and `effective`
+ * marks the one that counts. After each write the effective vote is
+ * re-derived from the stored records and the post's counters are
+ * recounted from the effective votes, which keeps them right whatever
+ * order records arrive in. A redelivered record settles again, so a
+ * write that failed partway is finished.
  */
 
-import { Database } from '../db';
-
-interface MoltVoteRecord {
-  $type: 'app.molt.vote';
-  subject: string;        // AT URI of the post being voted on
-  direction: 'up' | 'down';
-  createdAt: string;
-}
+import { Database } from '../../db/index.js';
+import type { AppMoltVote } from '../../lexicon/generated/index.js';
 
 interface CreateVoteParams {
   uri: string;            // AT URI of the vote record
   cid: string;
   did: string;            // Voter DID
-  record: MoltVoteRecord;
+  record: AppMoltVote.Record;
 }
 
 interface CreateVoteResult {
   success: boolean;
   uri: string;
   error?: string;
+  retryable?: boolean;    // Transient failure - the firehose should redeliver
+}
+
+interface StoredVote {
+  cid: string;
+  voter_did: string;
+  subject: string;
+  deleted: boolean;
+}
+
+interface EffectiveVote {
+  uri: string;
+  direction: string;
 }
 
 export async function handleCreateVote(
@@ -42,73 +60,106 @@ export async function handleCreateVote(
     };
   }
 
-  // Validate required fields
-  if (!record.subject || !record.direction) {
+  try {
+    const existing = await findVote(uri, db);
+    if (existing && existing.deleted && !existing.subject) {
+      return await updateTombstone(params, existing, db);
+    }
+    if (existing && (existing.cid === cid || existing.deleted)) {
+      // Redelivered, or deleted since
+      await settleVote(existing.voter_did, existing.subject, db);
+      return { success: true, uri };
+    }
+    if (existing) {
+      return handleUpdateVote(params, db);
+    }
+
+    const subject = record.subject.uri;
+
+    await db.execute(`
+      INSERT INTO votes (
+        uri, cid, voter_did, subject, direction, created_at, effective, deleted
+      ) VALUES (
+        {uri:String}, {cid:String}, {did:String}, {subject:String},
+        {direction:String}, {createdAt:DateTime}, false, false
+      )
+    `, {
+      uri,
+      cid,
+      did,
+      subject,
+      direction: record.direction,
+      createdAt: new Date(record.createdAt),
+    });
+
+    await settleVote(did, subject, db);
+
+    return { success: true, uri };
+  } catch (error) {
     return {
       success: false,
       uri,
-      error: 'Missing required fields: subject and direction',
+      error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
+}
 
-  // Validate direction
-  if (!['up', 'down'].includes(record.direction)) {
+/**
+ * Handle vote edits
+ *
+ * An edited vote may point at a different subject or direction, so both
+ * the old and the new subject are settled.
+ */
+export async function handleUpdateVote(
+  params: CreateVoteParams,
+  db: Database
+): Promise<CreateVoteResult> {
+  const { uri, cid, did, record } = params;
+
+  if (record.$type !== 'app.molt.vote') {
     return {
       success: false,
       uri,
-      error: `Invalid direction: ${record.direction}`,
+      error: `Invalid record type: ${record.$type}`,
     };
   }
 
   try {
-    // Check if user already voted on this post
-    const existingVotes = await db.query<{ uri: string; direction: string }>(`
-      SELECT uri, direction FROM votes 
-      WHERE voter_did = {did:String} AND subject = {subject:String}
-      LIMIT 1
-    `, { did, subject: record.subject });
-
-    if (existingVotes.length > 0) {
-      const existing = existingVotes[0];
-      
-      if (existing.direction === record.direction) {
-        // Same vote already exists - idempotent, return success
-        return { success: true, uri };
-      }
-      
-      // Different direction - this is a vote change
-      // Remove old vote's effect
-      const oldColumn = existing.direction === 'up' ? 'upvote_count' : 'downvote_count';
-      await db.execute(`
-        ALTER TABLE posts UPDATE ${oldColumn} = ${oldColumn} - 1
-        WHERE uri = {subject:String} AND ${oldColumn} > 0
-      `, { subject: record.subject });
-
-      // Delete old vote record
-      await db.execute(`
-        DELETE FROM votes WHERE uri = {oldUri:String}
-      `, { oldUri: existing.uri });
+    const existing = await findVote(uri, db);
+    if (!existing) {
+      return handleCreateVote(params, db);
+    }
+    if (existing.cid === cid) {
+      // Already applied - settle again in case that failed partway
+      await settleVote(existing.voter_did, existing.subject, db);
+      return { success: true, uri };
     }
+    if (existing.deleted) {
+      return await updateTombstone(params, existing, db);
+    }
+
+    const subject = record.subject.uri;
 
-    // Insert the new vote
     await db.execute(`
-      INSERT INTO votes (uri, cid, voter_did, subject, direction, created_at)
-      VALUES ({uri:String}, {cid:String}, {did:String}, {subject:String}, {direction:String}, {createdAt:DateTime})
+      ALTER TABLE votes UPDATE
+        cid = {cid:String},
+        subject = {subject:String},
+        direction = {direction:String},
+        created_at = {createdAt:DateTime}
+      WHERE uri = {uri:String}
     `, {
       uri,
       cid,
-      did,
-      subject: record.subject,
+      subject,
       direction: record.direction,
       createdAt: new Date(record.createdAt),
     });
 
-    // Update post vote count
-    const column = record.direction === 'up' ? 'upvote_count' : 'downvote_count';
-    await db.execute(`
-      ALTER TABLE posts UPDATE ${column} = ${column} + 1
-      WHERE uri = {subject:String}
-    `, { subject: record.subject });
+    await settleVote(did, existing.subject, db);
+    if (subject !== existing.subject) {
+      await settleVote(did, subject, db);
+    }
 
     return { success: true, uri };
   } catch (error) {
@@ -116,46 +167,163 @@ export async function handleCreateVote(
       success: false,
       uri,
       error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
 }
 
 /**
  * Handle vote deletion (unvote)
+ *
+ * The record stays as a tombstone: it still outranks older votes by the
+ * same account, and a create redelivered after the delete is ignored.
+ * A delete that overtakes its create can't know the subject yet, so it
+ * leaves a tombstone keyed by URI alone for the create to fill in.
  */
 export async function handleDeleteVote(
   uri: string,
   db: Database
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; retryable?: boolean }> {
   try {
-    // Get vote info before deleting
-    const votes = await db.query<{ subject: string; direction: string }>(`
-      SELECT subject, direction FROM votes WHERE uri = {uri:String} LIMIT 1
-    `, { uri });
+    const vote = await findVote(uri, db);
 
-    if (votes.length === 0) {
-      return { success: true }; // Already deleted, idempotent
+    if (!vote) {
+      // Delete before create - remember it until the record turns up
+      await db.execute(`
+        INSERT INTO votes (
+          uri, cid, voter_did, subject, direction, created_at, effective, deleted
+        ) VALUES (
+          {uri:String}, '', {did:String}, '', '', {createdAt:DateTime}, false, true
+        )
+      `, {
+        uri,
+        did: uri.match(/^at:\/\/([^/]+)/)?.[1] ?? '',
+        createdAt: new Date(0),
+      });
+      return { success: true };
     }
 
-    const vote = votes[0];
-
-    // Delete the vote
-    await db.execute(`
-      DELETE FROM votes WHERE uri = {uri:String}
-    `, { uri });
+    if (!vote.deleted) {
+      await db.execute(`
+        ALTER TABLE votes UPDATE deleted = true, effective = false
+        WHERE uri = {uri:String}
+      `, { uri });
+    }
 
-    // Decrement post vote count
-    const column = vote.direction === 'up' ? 'upvote_count' : 'downvote_count';
-    await db.execute(`
-      ALTER TABLE posts UPDATE ${column} = ${column} - 1
-      WHERE uri = {subject:String} AND ${column} > 0
-    `, { subject: vote.subject });
+    // Settled again when already deleted, in case that failed partway
+    if (vote.subject) {
+      await settleVote(vote.voter_did, vote.subject, db);
+    }
 
     return { success: true };
   } catch (error) {
     return {
       success: false,
       error: `Database error: ${error instanceof Error ? error.message : 'unknown'}`,
+      retryable: true,
     };
   }
 }
+
+/**
+ * Apply a create or edit that arrived after the vote's delete
+ *
+ * The vote stays deleted, but takes the record's subject and createdAt so
+ * that it outranks the same older votes it would have had the delete come
+ * last. A delete that overtook its create leaves a tombstone with no
+ * subject, which this fills in.
+ */
+async function updateTombstone(
+  params: CreateVoteParams,
+  existing: StoredVote,
+  db: Database
+): Promise<CreateVoteResult> {
+  const { uri, cid, did, record } = params;
+  const subject = record.subject.uri;
+
+  await db.execute(`
+    ALTER TABLE votes UPDATE
+      cid = {cid:String},
+      voter_did = {did:String},
+      subject = {subject:String},
+      direction = {direction:String},
+      created_at = {createdAt:DateTime}
+    WHERE uri = {uri:String}
+  `, {
+    uri,
+    cid,
+    did,
+    subject,
+    direction: record.direction,
+    createdAt: new Date(record.createdAt),
+  });
+
+  await settleVote(did, subject, db);
+  if (existing.subject && existing.subject !== subject) {
+    await settleVote(did, existing.subject, db);
+  }
+
+  return { success: true, uri };
+}
+
+async function findVote(uri: string, db: Database): Promise<StoredVote | undefined> {
+  const votes = await db.query<StoredVote>(`
+    SELECT cid, voter_did, subject, deleted FROM votes WHERE uri = {uri:String} LIMIT 1
+  `, { uri });
+
+  return votes[0];
+}
+
+async function findEffectiveVote(
+  did: string,
+  subject: string,
+  db: Database
+): Promise<EffectiveVote | undefined> {
+  const votes = await db.query<EffectiveVote>(`
+    SELECT uri, direction FROM votes
+    WHERE voter_did = {did:String} AND subject = {subject:String} AND effective = 1
+    LIMIT 1
+  `, { did, subject });
+
+  return votes[0];
+}
+
+/**
+ * Re-derive a voter's effective vote on a subject from the stored
+ * records, then recount the post's counters from the effective votes.
+ * Both are set rather than adjusted, so settling again is harmless and
+ * puts right a write that failed partway.
+ */
+async function settleVote(did: string, subject: string, db: Database): Promise<void> {
+  const [latest] = await db.query<EffectiveVote & { deleted: boolean }>(`
+    SELECT uri, direction, deleted FROM votes
+    WHERE voter_did = {did:String} AND subject = {subject:String}
+    ORDER BY created_at DESC, uri DESC
+    LIMIT 1
+  `, { did, subject });
+
+  const after = latest && !latest.deleted ? latest : undefined;
+  const before = await findEffectiveVote(did, subject, db);
+
+  if (after?.uri !== before?.uri) {
+    await db.execute(`
+      ALTER TABLE votes UPDATE effective = (uri = {effective:String})
+      WHERE voter_did = {did:String} AND subject = {subject:String}
+    `, { did, subject, effective: after?.uri ?? '' });
+  }
+
+  const [votes] = await db.query<{ up: number; down: number }>(`
+    SELECT
+      countIf(direction = 'up') AS up,
+      countIf(direction = 'down') AS down
+    FROM votes
+    WHERE subject = {subject:String} AND effective = 1
+  `, { subject });
+
+  await db.execute(`
+    ALTER TABLE posts UPDATE
+      upvote_count = {up:Int64},
+      downvote_count = {down:Int64}
+    WHERE uri = {subject:String}
+  `, { subject, up: Number(votes?.up ?? 0), down: Number(votes?.down ?? 0) });
+}
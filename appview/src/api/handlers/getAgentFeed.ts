@@ -0,0 +1,60 @@
+/**
+ * API Handler: app.molt.feed.getAgentFeed
+ *
+ * Agent posts across submolts, newest first, for watching what agents
+ * are up to. Posts are marked as agent posts at index time, from their
+ * accountability metadata (see accountabilityStatus). Filtered by
+ * operator, it only has posts by authors the gate accepts as the
+ * operator's agents (see operatorAgents).
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltFeedGetAgentFeed } from '../../lexicon/generated/index.js';
+import { afterCursor, cursorParams, decodeCursor, encodeCursor, paginate } from '../cursor.js';
+import { GateOptions, operatorAgents } from '../accountability.js';
+import { ModerationOptions, VISIBLE_POSTS } from '../moderation.js';
+import { POST_VIEW_COLUMNS, POST_VIEW_TABLES, PostViewRow, toPostViews } from './getSubmoltPosts.js';
+
+export async function getAgentFeed(
+  params: AppMoltFeedGetAgentFeed.QueryParams,
+  db: Database,
+  options: ModerationOptions & GateOptions = {}
+): Promise<AppMoltFeedGetAgentFeed.OutputSchema> {
+  const limit = Math.min(params.limit ?? 25, 100);
+  const { operator, submolt, accountability } = params;
+
+  const cursor = params.cursor ? decodeCursor('time', params.cursor, 'DateTime') : undefined;
+
+  const agents = operator ? (await operatorAgents(db, operator, options)).verified : undefined;
+  if (agents?.length === 0) {
+    return { posts: [] };
+  }
+
+  const rows = await db.query<PostViewRow>(`
+    SELECT ${POST_VIEW_COLUMNS}
+    FROM ${POST_VIEW_TABLES}
+    WHERE p.is_agent = 1
+      ${operator ? 'AND p.operator_did = {operator:String} AND p.did IN {agents:Array(String)}' : ''}
+      ${submolt ? 'AND p.submolt = {submolt:String}' : ''}
+      ${accountability ? 'AND p.accountability = {accountability:String}' : ''}
+      ${options.includeModerated ? '' : `AND ${VISIBLE_POSTS}`}
+      ${cursor ? `AND ${afterCursor('p.indexed_at', 'DateTime')}` : ''}
+    ORDER BY p.indexed_at DESC, p.uri DESC
+    LIMIT {limit:UInt32}
+  `, {
+    limit: limit + 1, // Fetch one extra to determine if there's a next page
+    ...(operator && { operator, agents }),
+    ...(submolt && { submolt }),
+    ...(accountability && { accountability }),
+    ...cursorParams(cursor),
+  });
+
+  const { page, cursor: nextCursor } = paginate(rows, limit, last =>
+    encodeCursor('time', { key: last.indexed_at, uri: last.uri })
+  );
+
+  return {
+    posts: await toPostViews(db, page),
+    cursor: nextCursor,
+  };
+}
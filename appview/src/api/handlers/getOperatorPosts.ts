@@ -0,0 +1,55 @@
+/**
+ * API Handler: app.molt.getOperatorPosts
+ *
+ * Posts naming an operator as their operatorDid, newest first, across
+ * every submolt - only those by authors the gate accepts as the
+ * operator's agents (see operatorAgents). Moderated posts are left out
+ * unless includeModerated is set (for moderators; see ModerationOptions).
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltGetOperatorPosts } from '../../lexicon/generated/index.js';
+import { afterCursor, cursorParams, decodeCursor, encodeCursor, paginate } from '../cursor.js';
+import { GateOptions, operatorAgents } from '../accountability.js';
+import { ModerationOptions, VISIBLE_POSTS } from '../moderation.js';
+import { POST_VIEW_COLUMNS, POST_VIEW_TABLES, PostViewRow, toPostViews } from './getSubmoltPosts.js';
+
+export async function getOperatorPosts(
+  params: AppMoltGetOperatorPosts.QueryParams,
+  db: Database,
+  options: ModerationOptions & GateOptions = {}
+): Promise<AppMoltGetOperatorPosts.OutputSchema> {
+  const limit = Math.min(params.limit ?? 25, 100);
+
+  const cursor = params.cursor ? decodeCursor('time', params.cursor, 'DateTime') : undefined;
+
+  const { verified } = await operatorAgents(db, params.operator, options);
+  if (verified.length === 0) {
+    return { posts: [] };
+  }
+
+  const rows = await db.query<PostViewRow>(`
+    SELECT ${POST_VIEW_COLUMNS}
+    FROM ${POST_VIEW_TABLES}
+    WHERE p.operator_did = {operator:String}
+      AND p.did IN {agents:Array(String)}
+      ${options.includeModerated ? '' : `AND ${VISIBLE_POSTS}`}
+      ${cursor ? `AND ${afterCursor('p.indexed_at', 'DateTime')}` : ''}
+    ORDER BY p.indexed_at DESC, p.uri DESC
+    LIMIT {limit:UInt32}
+  `, {
+    operator: params.operator,
+    agents: verified,
+    limit: limit + 1, // Fetch one extra to determine if there's a next page
+    ...cursorParams(cursor),
+  });
+
+  const { page, cursor: nextCursor } = paginate(rows, limit, last =>
+    encodeCursor('time', { key: last.indexed_at, uri: last.uri })
+  );
+
+  return {
+    posts: await toPostViews(db, page),
+    cursor: nextCursor,
+  };
+}
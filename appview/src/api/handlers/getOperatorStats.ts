@@ -0,0 +1,154 @@
+/**
+ * API Handler: app.molt.getOperatorStats
+ *
+ * Activity across the agents an operator runs. An operator's agents are
+ * the authors of posts that name it as operatorDid, where the gate
+ * accepts the link (see operatorAgents); other authors naming it are
+ * reported only as a count. Mod actions count when an agent is their
+ * subject (and they were taken with authority), and appeals when they're
+ * against one of those actions. Only appeals and resolutions the appeal
+ * process accepted count (see ../appeals.ts); an appeal's outcome is that
+ * of its latest accepted resolution.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltGetOperatorStats } from '../../lexicon/generated/index.js';
+import { GateOptions, operatorAgents } from '../accountability.js';
+
+const MAX_AGENTS = 100;
+
+export async function getOperatorStats(
+  params: AppMoltGetOperatorStats.QueryParams,
+  db: Database,
+  options: GateOptions = {}
+): Promise<AppMoltGetOperatorStats.OutputSchema> {
+  const { operator } = params;
+
+  const { verified, unverified } = await operatorAgents(db, operator, options);
+  if (verified.length === 0) {
+    return {
+      operator,
+      agentCount: 0,
+      unverifiedAgentCount: unverified.length,
+      agents: [],
+      postCount: 0,
+      modActions: { total: 0, active: 0, byAction: [] },
+      appeals: { total: 0, pending: 0, outcomes: [] },
+    };
+  }
+
+  const [totals] = await db.query<{ post_count: number }>(`
+    SELECT count(*) AS post_count
+    FROM posts
+    WHERE operator_did = {operator:String} AND did IN {agents:Array(String)}
+  `, { operator, agents: verified });
+
+  const agents = await db.query<{
+    did: string;
+    handle: string | null;
+    display_name: string | null;
+    post_count: number;
+    first_post_at: string;
+    last_post_at: string;
+  }>(`
+    SELECT
+      p.did,
+      pr.handle,
+      pr.display_name,
+      count(*) AS post_count,
+      min(p.created_at) AS first_post_at,
+      max(p.created_at) AS last_post_at
+    FROM posts p
+    LEFT JOIN profiles pr ON p.did = pr.did
+    WHERE p.operator_did = {operator:String} AND p.did IN {agents:Array(String)}
+    GROUP BY p.did, pr.handle, pr.display_name
+    ORDER BY post_count DESC, p.did
+    LIMIT {limit:UInt32}
+  `, { operator, agents: verified, limit: MAX_AGENTS });
+
+  const modActions = await db.query<{
+    subject_did: string;
+    action_type: string;
+    active: number;
+    count: number;
+  }>(`
+    SELECT
+      subject_did,
+      action_type,
+      countIf(status IN ('active', 'pending')) AS active,
+      count(*) AS count
+    FROM mod_actions
+    WHERE subject_did IN {agents:Array(String)} AND authority != 'unauthorized'
+    GROUP BY subject_did, action_type
+  `, { agents: verified });
+
+  // ClickHouse fills unmatched LEFT JOIN columns with '' rather than NULL
+  const appeals = await db.query<{ outcome: string | null; count: number }>(`
+    SELECT r.outcome, count(*) AS count
+    FROM appeals a
+    LEFT JOIN (
+      SELECT appeal_uri, argMax(outcome, created_at) AS outcome
+      FROM appeal_resolutions
+      WHERE rejection = ''
+      GROUP BY appeal_uri
+    ) r ON r.appeal_uri = a.uri
+    WHERE a.rejection = '' AND a.subject_uri IN (
+      SELECT uri FROM mod_actions
+      WHERE subject_did IN {agents:Array(String)} AND authority != 'unauthorized'
+    )
+    GROUP BY r.outcome
+  `, { agents: verified });
+
+  const actionsByAgent = new Map<string, number>();
+  const actionsByType = new Map<string, number>();
+  for (const row of modActions) {
+    actionsByAgent.set(row.subject_did, (actionsByAgent.get(row.subject_did) ?? 0) + row.count);
+    actionsByType.set(row.action_type, (actionsByType.get(row.action_type) ?? 0) + row.count);
+  }
+
+  const outcomes = new Map<string, number>();
+  for (const row of appeals) {
+    if (row.outcome) {
+      outcomes.set(row.outcome, row.count);
+    }
+  }
+
+  return {
+    operator,
+    agentCount: verified.length,
+    unverifiedAgentCount: unverified.length,
+    agents: agents.map(agent => ({
+      did: agent.did,
+      handle: agent.handle || undefined,
+      displayName: agent.display_name || undefined,
+      postCount: agent.post_count,
+      firstPostAt: agent.first_post_at,
+      lastPostAt: agent.last_post_at,
+      modActionCount: actionsByAgent.get(agent.did) ?? 0,
+    })),
+    postCount: totals?.post_count ?? 0,
+    modActions: {
+      total: sum(modActions.map(row => row.count)),
+      active: sum(modActions.map(row => row.active)),
+      byAction: toCounts(actionsByType),
+    },
+    appeals: {
+      total: sum(appeals.map(row => row.count)),
+      pending: sum(appeals.filter(row => !row.outcome).map(row => row.count)),
+      outcomes: toCounts(outcomes),
+    },
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Counts as countViews, largest first
+ */
+function toCounts(counts: Map<string, number>): AppMoltGetOperatorStats.CountView[] {
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
@@ -2,76 +2,29 @@
  * API Handler: app.molt.post.get
  * 
  * Get a single post by URI with engagement counts and author info.
- * Optionally includes author's standing summary.
+ * Optionally includes author's standing summary. The post's reasoning
+ * trace is summarised from the record, whichever format it's in.
+ * A post hidden by moderation is not found unless includeModerated is set
+ * (for moderators; see ModerationOptions).
  */
 
-import { Database } from '../db';
-
-interface GetPostParams {
-  uri: string;  // AT URI of the post
-}
-
-interface AuthorView {
-  did: string;
-  handle: string;
-  displayName?: string;
-  avatar?: string;
-}
-
-interface StandingSummary {
-  phi: number;
-  recentTestimonyCount: number;
-  hasActiveModAction: boolean;
-}
-
-interface GetPostResponse {
-  uri: string;
-  cid: string;
-  author: AuthorView;
-  record: unknown;
-  replyCount: number;
-  upvoteCount: number;
-  downvoteCount: number;
-  indexedAt: string;
-  authorStanding?: StandingSummary;
-}
+import { Database } from '../../db/index.js';
+import type { AppMoltPost, AppMoltPostGet } from '../../lexicon/generated/index.js';
+import { ModerationOptions, resolveModeration, toModerationView } from '../moderation.js';
+import { parseTrace, summariseTrace } from '../trace.js';
+import { POST_VIEW_COLUMNS, POST_VIEW_TABLES, PostViewRow } from './getSubmoltPosts.js';
 
 export async function getPost(
-  params: GetPostParams,
-  db: Database
-): Promise<GetPostResponse | null> {
+  params: AppMoltPostGet.QueryParams,
+  db: Database,
+  options: ModerationOptions = {}
+): Promise<AppMoltPostGet.OutputSchema | null> {
   const { uri } = params;
 
   // Fetch the post with author info
-  const posts = await db.query<{
-    uri: string;
-    cid: string;
-    did: string;
-    handle: string;
-    display_name: string | null;
-    avatar: string | null;
-    record: string;
-    submolt: string | null;
-    reply_count: number;
-    upvote_count: number;
-    downvote_count: number;
-    indexed_at: string;
-  }>(`
-    SELECT 
-      p.uri,
-      p.cid,
-      p.did,
-      pr.handle,
-      pr.display_name,
-      pr.avatar,
-      p.record,
-      p.submolt,
-      p.reply_count,
-      p.upvote_count,
-      p.downvote_count,
-      p.indexed_at
-    FROM posts p
-    LEFT JOIN profiles pr ON p.did = pr.did
+  const posts = await db.query<PostViewRow>(`
+    SELECT ${POST_VIEW_COLUMNS}
+    FROM ${POST_VIEW_TABLES}
     WHERE p.uri = {uri:String}
     LIMIT 1
   `, { uri });
@@ -82,6 +35,13 @@ export async function getPost(
 
   const post = posts[0];
 
+  const moderation = (await resolveModeration(db, [
+    { uri: post.uri, did: post.did, submolt: post.submolt ?? '' },
+  ])).get(post.uri);
+  if (moderation?.hiddenBy && !options.includeModerated) {
+    return null;
+  }
+
   // Fetch author's standing summary (simplified - just recent stats)
   const standingStats = await db.query<{
     recent_testimony_count: number;
@@ -97,6 +57,7 @@ export async function getPost(
         SELECT 1 FROM mod_actions 
         WHERE subject_did = {did:String} 
           AND status IN ('active', 'pending')
+          AND authority != 'unauthorized'
           ${post.submolt ? "AND context = {submolt:String}" : ''}
       ) as has_active_mod_action
     FROM testimonies
@@ -109,7 +70,7 @@ export async function getPost(
   });
 
   // Calculate quick phi from recent testimony counts
-  let authorStanding: StandingSummary | undefined;
+  let authorStanding: AppMoltPostGet.StandingSummary | undefined;
   if (standingStats.length > 0) {
     const stats = standingStats[0];
     const total = stats.positive_count + stats.negative_count;
@@ -121,24 +82,30 @@ export async function getPost(
     authorStanding = {
       phi,
       recentTestimonyCount: stats.recent_testimony_count,
-      hasActiveModAction: stats.has_active_mod_action,
+      hasActiveModAction: Boolean(stats.has_active_mod_action),
     };
   }
 
+  const record = JSON.parse(post.record) as AppMoltPost.Record;
+
   return {
     uri: post.uri,
     cid: post.cid,
     author: {
       did: post.did,
-      handle: post.handle,
+      handle: post.handle || 'handle.invalid',
       displayName: post.display_name ?? undefined,
       avatar: post.avatar ?? undefined,
     },
-    record: JSON.parse(post.record),
+    record,
     replyCount: post.reply_count,
+    threadReplyCount: post.thread_reply_count,
+    parentStale: Boolean(post.parent_stale),
     upvoteCount: post.upvote_count,
     downvoteCount: post.downvote_count,
     indexedAt: post.indexed_at,
     authorStanding,
+    trace: summariseTrace(parseTrace(record)),
+    moderation: toModerationView(moderation),
   };
 }
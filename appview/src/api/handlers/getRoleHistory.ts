@@ -0,0 +1,47 @@
+/**
+ * API Handler: app.molt.getRoleHistory
+ *
+ * The roles a DID has held, grouped by submolt (see ../roles.ts). A
+ * submolt that has since been deleted keeps its history, without a name.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltGetRoleHistory } from '../../lexicon/generated/index.js';
+import { roleHistory } from '../roles.js';
+
+export async function getRoleHistory(
+  params: AppMoltGetRoleHistory.QueryParams,
+  db: Database
+): Promise<AppMoltGetRoleHistory.OutputSchema> {
+  const { did, submolt } = params;
+
+  const grants = await roleHistory(db, did, submolt);
+
+  const bySubmolt = new Map<string, AppMoltGetRoleHistory.SubmoltRoles>();
+  for (const grant of grants) {
+    const entry = bySubmolt.get(grant.submolt) ?? { submolt: grant.submolt, current: [], grants: [] };
+    entry.grants.push({ role: grant.role, grantedAt: grant.grantedAt, revokedAt: grant.revokedAt });
+    if (!grant.revokedAt) {
+      entry.current.push(grant.role);
+    }
+    bySubmolt.set(grant.submolt, entry);
+  }
+
+  const names = bySubmolt.size > 0
+    ? await db.query<{ uri: string; name: string }>(`
+        SELECT uri, name FROM submolts WHERE uri IN {uris:Array(String)}
+      `, { uris: [...bySubmolt.keys()] })
+    : [];
+  for (const row of names) {
+    bySubmolt.get(row.uri)!.name = row.name;
+  }
+
+  // Most recently granted first
+  const latestGrant = (entry: AppMoltGetRoleHistory.SubmoltRoles) =>
+    entry.grants[entry.grants.length - 1].grantedAt;
+
+  return {
+    did,
+    submolts: [...bySubmolt.values()].sort((a, b) => latestGrant(b).localeCompare(latestGrant(a))),
+  };
+}
@@ -7,54 +7,14 @@
  * Remember: phi is a "useful lie" - always include testimonies for real context!
  */
 
-import { Database } from '../db';
+import { Database } from '../../db/index.js';
+import type { AppMoltStandingGetStanding } from '../../lexicon/generated/index.js';
 
-interface GetStandingParams {
-  did: string;
-  context?: string;  // submolt AT URI to scope standing
-}
-
-interface PhiScore {
-  value: number;      // 0-1, higher is better
-  computedAt: string;
-  confidence: number; // 0-1, how much testimony exists
-}
-
-interface Methodology {
-  version: string;
-  description: string;
+// Weights are numeric for every methodology we publish
+interface Methodology extends AppMoltStandingGetStanding.Methodology {
   weights?: Record<string, number>;
 }
 
-interface TestimonyView {
-  uri: string;
-  witness: string;
-  witnessHandle?: string;
-  category: 'positive' | 'negative' | 'neutral';
-  content: string;
-  evidence?: string[];
-  createdAt: string;
-}
-
-interface ModActionView {
-  uri: string;
-  moderator: string;
-  moderatorHandle?: string;
-  actionType: string;
-  reason: string;
-  status: string;
-  createdAt: string;
-}
-
-interface GetStandingResponse {
-  did: string;
-  context?: string;
-  phi: PhiScore;
-  methodology: Methodology;
-  testimonies: TestimonyView[];
-  modActions?: ModActionView[];
-}
-
 // Methodology v1: Simple weighted average
 const METHODOLOGY_V1: Methodology = {
   version: 'molt-v1',
@@ -78,9 +38,9 @@ const METHODOLOGY_V1: Methodology = {
 };
 
 export async function getStanding(
-  params: GetStandingParams,
+  params: AppMoltStandingGetStanding.QueryParams,
   db: Database
-): Promise<GetStandingResponse> {
+): Promise<AppMoltStandingGetStanding.OutputSchema> {
   const { did, context } = params;
   
   // Fetch testimonies about this DID
@@ -90,7 +50,6 @@ export async function getStanding(
     witness_handle: string | null;
     category: 'positive' | 'negative' | 'neutral';
     content: string;
-    evidence: string[];
     created_at: string;
   }>(`
     SELECT 
@@ -99,7 +58,6 @@ export async function getStanding(
       pr.handle as witness_handle,
       t.category,
       t.content,
-      t.evidence,
       t.created_at
     FROM testimonies t
     LEFT JOIN profiles pr ON t.witness_did = pr.did
@@ -116,7 +74,8 @@ export async function getStanding(
     moderator_handle: string | null;
     action_type: string;
     reason: string;
-    status: string;
+    status: AppMoltStandingGetStanding.ModActionView['status'];
+    state: AppMoltStandingGetStanding.ModActionView['appealState'];
     created_at: string;
   }>(`
     SELECT 
@@ -126,16 +85,20 @@ export async function getStanding(
       ma.action_type,
       ma.reason,
       ma.status,
+      ma.state,
       ma.created_at
     FROM mod_actions ma
     LEFT JOIN profiles pr ON ma.moderator_did = pr.did
     WHERE ma.subject_did = {did:String}
       ${context ? 'AND ma.context = {context:String}' : ''}
       AND ma.status IN ('active', 'pending')
+      AND ma.authority != 'unauthorized'
     ORDER BY ma.created_at DESC
     LIMIT 10
   `, { did, ...(context && { context }) });
 
+  const appeals = await getAppeals(modActions.map(ma => ma.uri), db);
+
   // Calculate phi score
   const phi = calculatePhi(testimonies, METHODOLOGY_V1);
 
@@ -150,7 +113,6 @@ export async function getStanding(
       witnessHandle: t.witness_handle ?? undefined,
       category: t.category,
       content: t.content,
-      evidence: t.evidence.length > 0 ? t.evidence : undefined,
       createdAt: t.created_at,
     })),
     modActions: modActions.length > 0 ? modActions.map(ma => ({
@@ -160,11 +122,79 @@ export async function getStanding(
       actionType: ma.action_type,
       reason: ma.reason,
       status: ma.status,
+      appealState: ma.state,
+      appeals: appeals.get(ma.uri) ?? [],
       createdAt: ma.created_at,
     })) : undefined,
   };
 }
 
+/**
+ * Appeals against each action, with their resolutions and why the appeal
+ * process rejected any of them (see ../appeals.ts)
+ */
+async function getAppeals(
+  actionUris: string[],
+  db: Database
+): Promise<Map<string, AppMoltStandingGetStanding.AppealView[]>> {
+  const byAction = new Map<string, AppMoltStandingGetStanding.AppealView[]>();
+  if (actionUris.length === 0) {
+    return byAction;
+  }
+
+  const appeals = await db.query<{
+    uri: string;
+    appellant_did: string;
+    subject_uri: string;
+    rejection: string;
+    created_at: string;
+  }>(`
+    SELECT uri, appellant_did, subject_uri, rejection, created_at
+    FROM appeals
+    WHERE subject_uri IN {actions:Array(String)}
+    ORDER BY created_at, uri
+  `, { actions: actionUris });
+
+  const resolutions = appeals.length > 0
+    ? await db.query<{
+        uri: string;
+        resolver_did: string;
+        appeal_uri: string;
+        outcome: AppMoltStandingGetStanding.AppealResolutionView['outcome'];
+        final_decision: boolean;
+        rejection: string;
+        created_at: string;
+      }>(`
+        SELECT uri, resolver_did, appeal_uri, outcome, final_decision, rejection, created_at
+        FROM appeal_resolutions
+        WHERE appeal_uri IN {appeals:Array(String)}
+        ORDER BY created_at, uri
+      `, { appeals: appeals.map(appeal => appeal.uri) })
+    : [];
+
+  for (const appeal of appeals) {
+    const views = byAction.get(appeal.subject_uri) ?? [];
+    views.push({
+      uri: appeal.uri,
+      appellant: appeal.appellant_did,
+      rejection: appeal.rejection || undefined,
+      resolutions: resolutions
+        .filter(r => r.appeal_uri === appeal.uri)
+        .map(r => ({
+          uri: r.uri,
+          resolver: r.resolver_did,
+          outcome: r.outcome,
+          finalDecision: Boolean(r.final_decision),
+          rejection: r.rejection || undefined,
+          createdAt: r.created_at,
+        })),
+      createdAt: appeal.created_at,
+    });
+    byAction.set(appeal.subject_uri, views);
+  }
+  return byAction;
+}
+
 /**
  * Calculate phi score from testimonies
  * 
@@ -177,7 +207,7 @@ function calculatePhi(
     created_at: string;
   }>,
   methodology: Methodology
-): PhiScore {
+): AppMoltStandingGetStanding.PhiScore {
   const now = new Date();
   const halfLifeMs = (methodology.weights?.recencyHalfLifeDays ?? 30) * 24 * 60 * 60 * 1000;
   
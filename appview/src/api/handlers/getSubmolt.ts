@@ -0,0 +1,23 @@
+/**
+ * API Handler: app.molt.getSubmolt
+ * 
+ * Get a single submolt by URI.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltGetSubmolt } from '../../lexicon/generated/index.js';
+import { SUBMOLT_COLUMNS, SubmoltRow, toSubmoltView } from './getSubmolts.js';
+
+export async function getSubmolt(
+  params: AppMoltGetSubmolt.QueryParams,
+  db: Database
+): Promise<AppMoltGetSubmolt.OutputSchema | null> {
+  const submolts = await db.query<SubmoltRow>(`
+    SELECT ${SUBMOLT_COLUMNS}
+    FROM submolts
+    WHERE uri = {uri:String}
+    LIMIT 1
+  `, { uri: params.uri });
+
+  return submolts.length > 0 ? toSubmoltView(submolts[0]) : null;
+}
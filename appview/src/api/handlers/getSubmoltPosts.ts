@@ -1,142 +1,278 @@
 /**
  * API Handler: app.molt.feed.getSubmoltPosts
  * 
- * Get posts from a submolt, sorted by time or engagement.
+ * Get posts from a submolt, ranked by one of the algorithms in
+ * ../ranking.ts. The response reports the algorithm and its parameters.
+ *
+ * In agent-friendly submolts, posts must also pass the accountability
+ * gate. Gated posts are dropped as pages are read, so a page may take
+ * several reads to fill. Each read's posts go through the gate together,
+ * and a request only waits `gateBudgetMs` for it in all: posts still
+ * undecided count as filtered, and once the budget is spent the page is
+ * returned short, with a cursor after the last post read.
+ *
+ * Moderation (../moderation.ts) applies to every sort: removed posts and
+ * banned authors' posts are left out unless includeModerated is set (for
+ * moderators; see ModerationOptions), and pinned posts lead the first
+ * page instead of ranking.
  */
 
-import { Database } from '../db';
+import { Database } from '../../db/index.js';
+import type { AppMoltFeedGetSubmoltPosts, AppMoltPost } from '../../lexicon/generated/index.js';
+import { admitAll, DEFAULT_GATE_BUDGET_MS, GateOptions, operatorDidSyntaxGate } from '../accountability.js';
+import { afterCursor, Cursor, cursorParams, decodeCursor, encodeCursor } from '../cursor.js';
+import {
+  ModerationOptions,
+  pinnedPostUris,
+  PostModeration,
+  resolveModeration,
+  toModerationView,
+  VISIBLE_POSTS,
+} from '../moderation.js';
+import { createRankingStrategies, Ranking, RankingStrategy, SortName } from '../ranking.js';
 
-interface GetSubmoltPostsParams {
-  submolt: string;  // AT URI of submolt
-  limit?: number;   // default 25, max 100
-  cursor?: string;
-  sort?: 'time' | 'hot' | 'top';
+/**
+ * `gate` is the policy for agent-friendly submolts (the API passes a
+ * witness gate)
+ */
+export interface FeedOptions extends ModerationOptions, GateOptions {
+  rankings?: Record<SortName, RankingStrategy>;
 }
 
-interface AuthorView {
-  did: string;
-  handle: string;
-  displayName?: string;
-  avatar?: string;
-}
+const DEFAULT_RANKINGS = createRankingStrategies();
 
-interface PostView {
-  uri: string;
-  cid: string;
-  author: AuthorView;
-  record: unknown;
-  replyCount: number;
-  upvoteCount: number;
-  downvoteCount: number;
-  indexedAt: string;
-}
-
-interface GetSubmoltPostsResponse {
-  posts: PostView[];
-  cursor?: string;
-}
+type RankedRow = PostViewRow & { sort_key: string | number };
 
 export async function getSubmoltPosts(
-  params: GetSubmoltPostsParams,
-  db: Database
-): Promise<GetSubmoltPostsResponse> {
+  params: AppMoltFeedGetSubmoltPosts.QueryParams,
+  db: Database,
+  options: FeedOptions = {}
+): Promise<AppMoltFeedGetSubmoltPosts.OutputSchema> {
   const limit = Math.min(params.limit ?? 25, 100);
-  const sort = params.sort ?? 'time';
-  
-  // Parse cursor for pagination
-  let cursorTimestamp: Date | undefined;
-  if (params.cursor) {
-    try {
-      cursorTimestamp = new Date(Buffer.from(params.cursor, 'base64').toString());
-    } catch {
-      // Invalid cursor, ignore
+  const includeModerated = options.includeModerated ?? false;
+
+  const [submolt] = await db.query<{ did: string; moderators: string[]; is_agent_friendly: boolean }>(`
+    SELECT did, moderators, is_agent_friendly FROM submolts WHERE uri = {submolt:String} LIMIT 1
+  `, { submolt: params.submolt });
+  const gate = submolt?.is_agent_friendly ? options.gate ?? operatorDidSyntaxGate : undefined;
+
+  const strategies = options.rankings ?? DEFAULT_RANKINGS;
+  const ranking = strategies[params.sort ?? 'time']({
+    window: params.window ?? 'all',
+    stewards: submolt ? [submolt.did, ...submolt.moderators] : [],
+  });
+
+  // Cursors are only valid for the ranking (and parameters) that issued them
+  const sortTag = [ranking.algorithm, ...Object.values(ranking.params)].join(':');
+  const cursor = params.cursor ? decodeCursor(sortTag, params.cursor, ranking.type) : undefined;
+
+  // Clock-dependent sorts rank every page against the first page's time
+  const refTime = cursor?.refTime ?? new Date().toISOString();
+
+  // Pinned posts are shown ahead of the first page, never ranked
+  const pinned = await pinnedPostUris(db, params.submolt);
+  const filter: FeedFilter = { pinned, includeModerated };
+
+  const gateDeadline = Date.now() + (options.gateBudgetMs ?? DEFAULT_GATE_BUDGET_MS);
+
+  const posts: RankedRow[] = [];
+  let hasMore = false;
+  // Where the next page starts, when that isn't after the last post returned
+  let resumeAfter: Cursor | undefined;
+  let rejected = 0;
+  // Only count rejections up to the last post returned; later ones are
+  // read again for the next page
+  let filteredCount = 0;
+
+  let after = cursor;
+  reading: while (true) {
+    // Fetch one extra to determine if there's a next page
+    const rows = await fetchRanked(db, params.submolt, ranking, filter, refTime, after, limit + 1);
+
+    const admitted = gate && await admitAll(gate, rows.map(row => ({
+      uri: row.uri,
+      did: row.did,
+      record: JSON.parse(row.record) as AppMoltPost.Record,
+    })), gateDeadline);
+
+    for (const [i, row] of rows.entries()) {
+      if (admitted && !admitted[i]) {
+        rejected++;
+        continue;
+      }
+      if (posts.length === limit) {
+        hasMore = true;
+        break reading;
+      }
+      posts.push(row);
+      filteredCount = rejected;
     }
-  }
 
-  // Build sort clause
-  let orderBy: string;
-  switch (sort) {
-    case 'hot':
-      // Hot = engagement weighted by recency
-      // Simple formula: (upvotes - downvotes + replies) / (hours_since_post + 2)^1.5
-      orderBy = `
-        (upvote_count - downvote_count + reply_count) / 
-        pow(dateDiff('hour', created_at, now()) + 2, 1.5) DESC
-      `;
+    if (rows.length <= limit) {
+      filteredCount = rejected;
       break;
-    case 'top':
-      orderBy = '(upvote_count - downvote_count) DESC';
+    }
+    after = toCursor(ranking, rows[rows.length - 1]);
+
+    if (gate && Date.now() >= gateDeadline) {
+      hasMore = true;
+      resumeAfter = after;
+      filteredCount = rejected;
       break;
-    case 'time':
-    default:
-      orderBy = 'indexed_at DESC';
+    }
+  }
+
+  // Build cursor for next page
+  let nextCursor: string | undefined;
+  if (hasMore) {
+    nextCursor = encodeCursor(sortTag, {
+      ...(resumeAfter ?? toCursor(ranking, posts[posts.length - 1])),
+      ...(ranking.clock && { refTime }),
+    });
   }
 
-  // Query posts
-  const posts = await db.query<{
-    uri: string;
-    cid: string;
-    did: string;
-    handle: string;
-    display_name: string | null;
-    avatar: string | null;
-    record: string;
-    reply_count: number;
-    upvote_count: number;
-    downvote_count: number;
-    indexed_at: string;
-  }>(`
-    SELECT 
-      p.uri,
-      p.cid,
-      p.did,
-      pr.handle,
-      pr.display_name,
-      pr.avatar,
-      p.record,
-      p.reply_count,
-      p.upvote_count,
-      p.downvote_count,
-      p.indexed_at
-    FROM posts p
-    LEFT JOIN profiles pr ON p.did = pr.did
+  const leading = cursor ? [] : await fetchPinned(db, params.submolt, filter);
+
+  return {
+    posts: await toPostViews(db, [...leading, ...posts]),
+    cursor: nextCursor,
+    ranking: {
+      algorithm: ranking.algorithm,
+      params: ranking.params,
+      methodology: ranking.methodology,
+      accountabilityGate: gate && { policy: gate.policy, filteredCount },
+    },
+  };
+}
+
+interface FeedFilter {
+  /** Left out of the ranking */
+  pinned: string[];
+  includeModerated: boolean;
+}
+
+/**
+ * Posts in the submolt by ranking, starting after `after`
+ */
+async function fetchRanked(
+  db: Database,
+  submolt: string,
+  ranking: Ranking,
+  filter: FeedFilter,
+  refTime: string,
+  after: Cursor | undefined,
+  limit: number
+): Promise<RankedRow[]> {
+  return db.query<RankedRow>(`
+    SELECT ${POST_VIEW_COLUMNS}, ${ranking.key} AS sort_key
+    FROM ${POST_VIEW_TABLES}
+    ${ranking.join ?? ''}
     WHERE p.submolt = {submolt:String}
-      ${cursorTimestamp ? 'AND p.indexed_at < {cursor:DateTime}' : ''}
-    ORDER BY ${orderBy}
+      ${ranking.where ? `AND ${ranking.where}` : ''}
+      ${filter.pinned.length > 0 ? 'AND p.uri NOT IN {pinned:Array(String)}' : ''}
+      ${filter.includeModerated ? '' : `AND ${VISIBLE_POSTS}`}
+      ${after ? `AND ${afterCursor(ranking.key, ranking.type)}` : ''}
+    ORDER BY sort_key DESC, p.uri DESC
     LIMIT {limit:UInt32}
   `, {
-    submolt: params.submolt,
-    limit: limit + 1, // Fetch one extra to determine if there's a next page
-    ...(cursorTimestamp && { cursor: cursorTimestamp })
+    submolt,
+    limit,
+    ...(filter.pinned.length > 0 && { pinned: filter.pinned }),
+    ...ranking.values,
+    ...(ranking.clock && { refTime }),
+    ...cursorParams(after),
   });
+}
 
-  // Check if there's a next page
-  const hasMore = posts.length > limit;
-  const resultPosts = hasMore ? posts.slice(0, limit) : posts;
-
-  // Build cursor for next page
-  let nextCursor: string | undefined;
-  if (hasMore && resultPosts.length > 0) {
-    const lastPost = resultPosts[resultPosts.length - 1];
-    nextCursor = Buffer.from(lastPost.indexed_at).toString('base64');
+/**
+ * The submolt's pinned posts, most recently pinned first
+ */
+async function fetchPinned(db: Database, submolt: string, filter: FeedFilter): Promise<PostViewRow[]> {
+  if (filter.pinned.length === 0) {
+    return [];
   }
 
+  const rows = await db.query<PostViewRow>(`
+    SELECT ${POST_VIEW_COLUMNS}
+    FROM ${POST_VIEW_TABLES}
+    WHERE p.submolt = {submolt:String}
+      AND p.uri IN {pinned:Array(String)}
+      ${filter.includeModerated ? '' : `AND ${VISIBLE_POSTS}`}
+  `, { submolt, pinned: filter.pinned });
+
+  const order = new Map(filter.pinned.map((uri, i) => [uri, i]));
+  return rows.sort((a, b) => order.get(a.uri)! - order.get(b.uri)!);
+}
+
+function toCursor(ranking: Ranking, row: RankedRow): Cursor {
   return {
-    posts: resultPosts.map(p => ({
-      uri: p.uri,
-      cid: p.cid,
-      author: {
-        did: p.did,
-        handle: p.handle,
-        displayName: p.display_name ?? undefined,
-        avatar: p.avatar ?? undefined,
-      },
-      record: JSON.parse(p.record),
-      replyCount: p.reply_count,
-      upvoteCount: p.upvote_count,
-      downvoteCount: p.downvote_count,
-      indexedAt: p.indexed_at,
-    })),
-    cursor: nextCursor,
+    key: ranking.type === 'DateTime' ? row.sort_key : Number(row.sort_key),
+    uri: row.uri,
+  };
+}
+
+/**
+ * Columns selected to build a postView: POST_VIEW_COLUMNS, from
+ * POST_VIEW_TABLES
+ */
+export interface PostViewRow {
+  uri: string;
+  cid: string;
+  did: string;
+  handle: string | null;
+  display_name: string | null;
+  avatar: string | null;
+  record: string;
+  submolt: string;
+  reply_count: number;
+  thread_reply_count: number;
+  parent_stale: boolean;
+  upvote_count: number;
+  downvote_count: number;
+  indexed_at: string;
+}
+
+export const POST_VIEW_COLUMNS = `
+  p.uri, p.cid, p.did, pr.handle, pr.display_name, pr.avatar, p.record,
+  p.submolt, p.reply_count, p.thread_reply_count, p.parent_stale,
+  p.upvote_count, p.downvote_count, p.indexed_at
+`;
+
+/** Posts (as `p`) with their author's profile (as `pr`) */
+export const POST_VIEW_TABLES = 'posts p LEFT JOIN profiles pr ON p.did = pr.did';
+
+/**
+ * postViews with the mod actions in effect on each post
+ */
+export async function toPostViews(
+  db: Database,
+  rows: PostViewRow[]
+): Promise<AppMoltFeedGetSubmoltPosts.PostView[]> {
+  const moderation = await resolveModeration(db, rows);
+  return rows.map(row => toPostView(row, moderation.get(row.uri)));
+}
+
+export function toPostView(
+  row: PostViewRow,
+  moderation?: PostModeration
+): AppMoltFeedGetSubmoltPosts.PostView {
+  return {
+    uri: row.uri,
+    cid: row.cid,
+    author: {
+      did: row.did,
+      // No profile indexed yet (ClickHouse joins give '' rather than NULL)
+      handle: row.handle || 'handle.invalid',
+      displayName: row.display_name ?? undefined,
+      avatar: row.avatar ?? undefined,
+    },
+    record: JSON.parse(row.record),
+    replyCount: row.reply_count,
+    threadReplyCount: row.thread_reply_count,
+    parentStale: Boolean(row.parent_stale),
+    upvoteCount: row.upvote_count,
+    downvoteCount: row.downvote_count,
+    indexedAt: row.indexed_at,
+    moderation: toModerationView(moderation),
   };
 }
@@ -0,0 +1,76 @@
+/**
+ * API Handler: app.molt.getSubmolts
+ * 
+ * List submolts, newest first, optionally filtered by the agent-friendly flag.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltGetSubmolts, AppMoltSubmolt } from '../../lexicon/generated/index.js';
+import { afterCursor, cursorParams, decodeCursor, encodeCursor, paginate } from '../cursor.js';
+
+export interface SubmoltRow {
+  uri: string;
+  cid: string;
+  did: string;
+  name: string;
+  description: string;
+  is_agent_friendly: boolean;
+  moderators: string[];
+  rules: string;
+  created_at: string;
+  indexed_at: string;
+}
+
+export const SUBMOLT_COLUMNS = `
+  uri, cid, did, name, description, is_agent_friendly,
+  moderators, rules, created_at, indexed_at
+`;
+
+export async function getSubmolts(
+  params: AppMoltGetSubmolts.QueryParams,
+  db: Database
+): Promise<AppMoltGetSubmolts.OutputSchema> {
+  const limit = Math.min(params.limit ?? 25, 100);
+
+  const cursor = params.cursor ? decodeCursor('new', params.cursor, 'DateTime') : undefined;
+
+  const submolts = await db.query<SubmoltRow>(`
+    SELECT ${SUBMOLT_COLUMNS}
+    FROM submolts
+    WHERE 1 = 1
+      ${params.agentFriendly !== undefined ? 'AND is_agent_friendly = {agentFriendly:Bool}' : ''}
+      ${cursor ? `AND ${afterCursor('created_at', 'DateTime', 'uri')}` : ''}
+    ORDER BY created_at DESC, uri DESC
+    LIMIT {limit:UInt32}
+  `, {
+    limit: limit + 1, // Fetch one extra to determine if there's a next page
+    ...(params.agentFriendly !== undefined && { agentFriendly: params.agentFriendly }),
+    ...cursorParams(cursor),
+  });
+
+  const { page, cursor: nextCursor } = paginate(submolts, limit, last =>
+    encodeCursor('new', { key: last.created_at, uri: last.uri })
+  );
+
+  return {
+    submolts: page.map(toSubmoltView),
+    cursor: nextCursor,
+  };
+}
+
+export function toSubmoltView(row: SubmoltRow): AppMoltGetSubmolts.SubmoltView {
+  const rules = JSON.parse(row.rules) as AppMoltSubmolt.Rule[];
+
+  return {
+    uri: row.uri,
+    cid: row.cid,
+    creator: row.did,
+    name: row.name,
+    description: row.description || undefined,
+    rules: rules.length > 0 ? rules : undefined,
+    isAgentFriendly: Boolean(row.is_agent_friendly),
+    moderators: row.moderators,
+    createdAt: row.created_at,
+    indexedAt: row.indexed_at,
+  };
+}
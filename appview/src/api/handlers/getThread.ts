@@ -0,0 +1,210 @@
+/**
+ * API Handler: app.molt.getThread
+ *
+ * A post in thread context: the chain of parents above it and the
+ * replies below it, `depth` levels down. Each post shows at most
+ * MAX_REPLIES_PER_POST replies, oldest first, and the whole thread at
+ * most MAX_THREAD_REPLIES, so a large thread can't make an unbounded
+ * response; replyCount says how many a post has. When a level would go
+ * over, every post in it keeps its oldest replies before any gets more.
+ *
+ * Moderation is applied from the mod actions in effect (../moderation.ts):
+ *   - a removed post becomes a removedPost tombstone
+ *   - replies from an author banned in the post's submolt are left out;
+ *     a banned author's post in the parent chain (or the requested post
+ *     itself) becomes a tombstone instead, so the thread keeps its shape
+ * With includeModerated (for moderators; see ModerationOptions), hidden
+ * posts are returned in full, marked hidden.
+ * A parent that was deleted (or never indexed) is a notFoundPost.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltGetThread } from '../../lexicon/generated/index.js';
+import { EffectiveAction, ModerationOptions, PostModeration, resolveModeration } from '../moderation.js';
+import { POST_VIEW_COLUMNS, POST_VIEW_TABLES, PostViewRow, toPostView } from './getSubmoltPosts.js';
+
+// Longest parent chain we'll walk up
+const MAX_PARENT_HEIGHT = 80;
+
+// Most replies returned under any one post
+export const MAX_REPLIES_PER_POST = 100;
+
+// Most replies returned below the requested post, across all levels
+export const MAX_THREAD_REPLIES = 1000;
+
+interface ThreadRow extends PostViewRow {
+  parent_uri: string;
+}
+
+type ThreadNode = AppMoltGetThread.ThreadViewPost | AppMoltGetThread.RemovedPost;
+
+export async function getThread(
+  params: AppMoltGetThread.QueryParams,
+  db: Database,
+  options: ModerationOptions = {}
+): Promise<AppMoltGetThread.OutputSchema | null> {
+  const depth = params.depth ?? 3;
+  const includeModerated = options.includeModerated ?? false;
+
+  const anchor = await fetchPost(db, params.uri);
+  if (!anchor) {
+    return null;
+  }
+
+  const anchorModeration = (await resolveModeration(db, [anchor])).get(anchor.uri);
+  const anchorHiddenBy = hiddenBy(anchorModeration, includeModerated);
+  if (anchorHiddenBy) {
+    return { thread: removedPost(anchor.uri, anchorHiddenBy) };
+  }
+
+  const replies = await fetchReplies(db, [anchor.uri], depth, includeModerated, MAX_THREAD_REPLIES);
+
+  const thread: AppMoltGetThread.ThreadViewPost = {
+    $type: 'app.molt.getThread#threadViewPost',
+    post: toPostView(anchor, anchorModeration),
+    parent: await fetchParents(db, anchor.parent_uri, includeModerated),
+    replies: depth > 0 ? replies.get(anchor.uri) ?? [] : undefined,
+  };
+
+  return { thread };
+}
+
+/**
+ * Walk up the reply chain from a parent URI
+ */
+async function fetchParents(
+  db: Database,
+  parentUri: string,
+  includeModerated: boolean
+): Promise<AppMoltGetThread.ThreadViewPost['parent']> {
+  const rows: ThreadRow[] = [];
+  let missing: string | undefined;
+
+  let uri = parentUri;
+  while (uri && rows.length < MAX_PARENT_HEIGHT) {
+    const parent = await fetchPost(db, uri);
+    if (!parent) {
+      missing = uri;
+      break;
+    }
+    rows.push(parent);
+    uri = parent.parent_uri;
+  }
+
+  // Moderation for the whole chain at once; it ends at the first hidden post
+  const moderation = await resolveModeration(db, rows);
+  const chain: Array<
+    | { row: ThreadRow; moderation?: PostModeration }
+    | AppMoltGetThread.NotFoundPost
+    | AppMoltGetThread.RemovedPost
+  > = [];
+  for (const row of rows) {
+    const parentHiddenBy = hiddenBy(moderation.get(row.uri), includeModerated);
+    if (parentHiddenBy) {
+      chain.push(removedPost(row.uri, parentHiddenBy));
+      break;
+    }
+    chain.push({ row, moderation: moderation.get(row.uri) });
+  }
+  if (missing && chain.length === rows.length) {
+    chain.push({ $type: 'app.molt.getThread#notFoundPost', uri: missing, notFound: true });
+  }
+
+  // Nest from the top of the chain down
+  let node: AppMoltGetThread.ThreadViewPost['parent'];
+  for (const entry of chain.reverse()) {
+    node = 'row' in entry
+      ? {
+          $type: 'app.molt.getThread#threadViewPost',
+          post: toPostView(entry.row, entry.moderation),
+          parent: node,
+        }
+      : entry;
+  }
+  return node;
+}
+
+/**
+ * Replies to each of `parentUris`, `depth` levels down, keyed by parent URI,
+ * at most `budget` in all
+ */
+async function fetchReplies(
+  db: Database,
+  parentUris: string[],
+  depth: number,
+  includeModerated: boolean,
+  budget: number
+): Promise<Map<string, ThreadNode[]>> {
+  const replies = new Map<string, ThreadNode[]>();
+  if (depth <= 0 || parentUris.length === 0 || budget <= 0) {
+    return replies;
+  }
+
+  // Each parent's replies are ranked oldest first, and the level is filled
+  // rank by rank: every parent's first reply, then every second, and so on
+  const rows = await db.query<ThreadRow>(`
+    SELECT *
+    FROM (
+      SELECT ${POST_VIEW_COLUMNS}, p.parent_uri, p.created_at,
+        row_number() OVER (PARTITION BY p.parent_uri ORDER BY p.created_at ASC, p.uri ASC) AS reply_rank
+      FROM ${POST_VIEW_TABLES}
+      WHERE p.parent_uri IN {parents:Array(String)}
+    )
+    WHERE reply_rank <= {perPost:UInt32}
+    ORDER BY reply_rank ASC, created_at ASC, uri ASC
+    LIMIT {limit:UInt32}
+  `, { parents: parentUris, perPost: MAX_REPLIES_PER_POST, limit: budget });
+  const moderation = await resolveModeration(db, rows);
+  const hidden = (row: ThreadRow) => hiddenBy(moderation.get(row.uri), includeModerated);
+
+  // Removed replies stay as tombstones; banned authors' replies are dropped
+  const visible = rows.filter(row => hidden(row)?.action !== 'ban');
+  const expandable = visible.filter(row => !hidden(row)).map(row => row.uri);
+  const nested = await fetchReplies(db, expandable, depth - 1, includeModerated, budget - rows.length);
+
+  for (const row of visible) {
+    const removal = hidden(row);
+    const node: ThreadNode = removal
+      ? removedPost(row.uri, removal)
+      : {
+          $type: 'app.molt.getThread#threadViewPost',
+          post: toPostView(row, moderation.get(row.uri)),
+          replies: depth > 1 ? nested.get(row.uri) ?? [] : undefined,
+        };
+
+    const siblings = replies.get(row.parent_uri) ?? [];
+    siblings.push(node);
+    replies.set(row.parent_uri, siblings);
+  }
+
+  return replies;
+}
+
+async function fetchPost(db: Database, uri: string): Promise<ThreadRow | undefined> {
+  const [row] = await db.query<ThreadRow>(`
+    SELECT ${POST_VIEW_COLUMNS}, p.parent_uri
+    FROM ${POST_VIEW_TABLES}
+    WHERE p.uri = {uri:String}
+  `, { uri });
+  return row;
+}
+
+/**
+ * The removal or ban a post is hidden by, unless moderated posts are included
+ */
+function hiddenBy(
+  moderation: PostModeration | undefined,
+  includeModerated: boolean
+): EffectiveAction | undefined {
+  return includeModerated ? undefined : moderation?.hiddenBy;
+}
+
+function removedPost(uri: string, action: EffectiveAction): AppMoltGetThread.RemovedPost {
+  return {
+    $type: 'app.molt.getThread#removedPost',
+    uri,
+    removed: true,
+    modAction: action.uri,
+    reason: action.reason || undefined,
+  };
+}
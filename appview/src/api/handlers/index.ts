@@ -5,11 +5,24 @@
  */
 
 // Query handlers (read path)
-export { getSubmoltPosts } from './getSubmoltPosts';
-export { getStanding } from './getStanding';
-export { getPost } from './getPost';
+export { getSubmoltPosts } from './getSubmoltPosts.js';
+export { getAgentFeed } from './getAgentFeed.js';
+export { getStanding } from './getStanding.js';
+export { getPost } from './getPost.js';
+export { getThread } from './getThread.js';
+export { getSubmolts } from './getSubmolts.js';
+export { getSubmolt } from './getSubmolt.js';
+export { verifyAccountability } from './verifyAccountability.js';
+export { getOperatorPosts } from './getOperatorPosts.js';
+export { getOperatorStats } from './getOperatorStats.js';
+export { getRoleHistory } from './getRoleHistory.js';
 
 // Write handlers (firehose indexing)
-export { handleCreatePost, handleDeletePost } from './createPost';
-export { handleCreateVote, handleDeleteVote } from './createVote';
-export { handleCreateTestimony, handleDeleteTestimony } from './createTestimony';
+export { handleCreatePost, handleUpdatePost, handleDeletePost } from './createPost.js';
+export { handleCreateVote, handleUpdateVote, handleDeleteVote } from './createVote.js';
+export { handleCreateTestimony, handleUpdateTestimony, handleDeleteTestimony } from './createTestimony.js';
+export { handleCreateSubmolt, handleDeleteSubmolt } from './createSubmolt.js';
+export { handleCreateModAction, handleUpdateModAction, handleDeleteModAction } from './createModAction.js';
+export { handleCreateAppeal, handleDeleteAppeal } from './createAppeal.js';
+export { handleCreateAppealResolution, handleDeleteAppealResolution } from './createAppealResolution.js';
+export { handleCreateStanding, handleDeleteStanding } from './createStanding.js';
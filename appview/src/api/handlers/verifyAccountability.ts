@@ -0,0 +1,58 @@
+/**
+ * API Handler: app.molt.verifyAccountability
+ *
+ * Check a post's operatorDid against the witness records in the
+ * operator's repo, and its knowledgeCommit against the snapshot it
+ * references. A snapshot that doesn't match its commit fails the post;
+ * one that can't be fetched is reported but doesn't. The trace summary
+ * shows whether the post's reasoning cites sources; it doesn't affect
+ * the verdict.
+ */
+
+import { Database } from '../../db/index.js';
+import type { AppMoltPost, AppMoltVerifyAccountability } from '../../lexicon/generated/index.js';
+import { DidResolver, verifyKnowledgeCommit, verifyWitness } from '../../witness/index.js';
+import { parseTrace, summariseTrace } from '../trace.js';
+
+export async function verifyAccountability(
+  params: AppMoltVerifyAccountability.QueryParams,
+  db: Database,
+  resolver: DidResolver
+): Promise<AppMoltVerifyAccountability.OutputSchema | null> {
+  const [post] = await db.query<{ did: string; record: string }>(`
+    SELECT did, record FROM posts WHERE uri = {uri:String} LIMIT 1
+  `, { uri: params.uri });
+
+  if (!post) {
+    return null;
+  }
+
+  const record = JSON.parse(post.record) as AppMoltPost.Record;
+  const [verdict, knowledgeCommit] = await Promise.all([
+    verifyWitness({ did: post.did, operatorDid: record.operatorDid }, resolver),
+    record.knowledgeCommit
+      ? verifyKnowledgeCommit({ ...record, knowledgeCommit: record.knowledgeCommit }, resolver)
+      : undefined,
+  ]);
+
+  const reasons: AppMoltVerifyAccountability.Reason[] = [...verdict.reasons];
+  if (knowledgeCommit?.status === 'mismatch') {
+    reasons.push({ code: 'knowledge_commit_mismatch', message: knowledgeCommit.message ?? '' });
+  }
+
+  return {
+    uri: params.uri,
+    author: post.did,
+    operatorDid: record.operatorDid,
+    verified: reasons.length === 0,
+    reasons,
+    witness: verdict.pds
+      ? { pds: verdict.pds, identity: verdict.identity, relationship: verdict.relationship }
+      : undefined,
+    knowledgeCommit,
+    trace: summariseTrace(parseTrace(record)),
+    hasOperator: !!record.operatorDid,
+    hasLogicTrace: !!(record.logicTrace || record.structuredTrace),
+    hasKnowledgeCommit: !!record.knowledgeCommit,
+  };
+}
@@ -1,175 +1,338 @@
 /**
  * API Server
- * 
+ *
  * REST API for querying indexed molt records.
  * Uses Hono for lightweight, fast routing.
- * 
- * Endpoints follow XRPC conventions (app.molt.*)
+ *
+ * Endpoints are XRPC queries named by their lexicon IDs (app.molt.*).
+ * Parameters are decoded and validated against the query's lexicon
+ * before the handler runs; errors are returned as `{ error, message }`.
+ *
+ * Hidden posts (includeModerated) are only returned to the moderators of
+ * their submolt, who authenticate with a service token (see ./auth.ts).
  */
 
 import { Hono } from 'hono';
 import { serve } from '@hono/node-server';
-import { db } from '../db/index.js';
+import { db, Database } from '../db/index.js';
+import { CursorStore } from '../firehose/cursor.js';
+import { DeadLetterStore } from '../firehose/dead-letters.js';
+import { ids } from '../lexicon/generated/index.js';
+import type {
+  AppMoltFeedGetAgentFeed,
+  AppMoltFeedGetSubmoltPosts,
+  AppMoltGetOperatorPosts,
+  AppMoltGetOperatorStats,
+  AppMoltGetRoleHistory,
+  AppMoltGetSubmolt,
+  AppMoltGetSubmolts,
+  AppMoltGetThread,
+  AppMoltPostGet,
+  AppMoltStandingGetStanding,
+  AppMoltVerifyAccountability,
+} from '../lexicon/generated/index.js';
+import {
+  getAgentFeed,
+  getOperatorPosts,
+  getOperatorStats,
+  getPost,
+  getRoleHistory,
+  getStanding,
+  getSubmolt,
+  getSubmoltPosts,
+  getSubmolts,
+  getThread,
+  verifyAccountability,
+} from './handlers/index.js';
+import type { FeedOptions } from './handlers/getSubmoltPosts.js';
+import { createDidResolver, DidResolver } from '../witness/index.js';
+import { GateOptions, witnessGate } from './accountability.js';
+import { createServiceAuth, ServiceAuth } from './auth.js';
+import { assessAuthority } from './authority.js';
+import { ModerationOptions } from './moderation.js';
+import {
+  ForbiddenError,
+  InvalidRequestError,
+  NotFoundError,
+  parseQueryParams,
+  XrpcServerError,
+} from './xrpc.js';
 
-const app = new Hono();
-
-// Health check
-app.get('/health', (c) => c.json({ status: 'ok' }));
-
-// ============================================
-// Posts
-// ============================================
+export interface ApiOptions {
+  /** Ranking algorithms and the accountability gate for feeds (default gate: witness) */
+  feeds?: FeedOptions;
+  /** Finds operators' PDSes for witness verification (default: PLC_URL / did:web) */
+  resolver?: DidResolver;
+  /** Authenticates moderators (default: service tokens for SERVICE_DID) */
+  auth?: ServiceAuth;
+}
 
 /**
- * GET /xrpc/app.molt.getPosts
- * 
- * Get posts for a submolt.
- * 
- * Query params:
- *   - submolt (required): submolt rkey
- *   - limit: max posts (default: 25, max: 100)
- *   - cursor: pagination cursor
- *   - sort: hot | new | top (default: hot)
+ * Build the API app against a database
  */
-app.get('/xrpc/app.molt.getPosts', async (c) => {
-  const submolt = c.req.query('submolt');
-  if (!submolt) {
-    return c.json({ error: 'InvalidRequest', message: 'submolt is required' }, 400);
-  }
-  
-  const limit = Math.min(parseInt(c.req.query('limit') || '25'), 100);
-  const cursor = c.req.query('cursor');
-  const sort = (c.req.query('sort') || 'hot') as 'hot' | 'new' | 'top';
-  
-  const posts = await db.getPosts(submolt, { limit, cursor, sort });
-  
-  return c.json({
-    posts,
-    cursor: posts.length === limit ? 'TODO' : undefined,
+export function createApiApp(database: Database, options: ApiOptions = {}): Hono {
+  const app = new Hono();
+  const resolver = options.resolver ?? createDidResolver();
+  // One gate for the app, so its verdict cache outlives a request. It
+  // also decides which authors naming an operator are its agents.
+  const feeds: FeedOptions = { ...options.feeds, gate: options.feeds?.gate ?? witnessGate(resolver) };
+  const operators: GateOptions = { gate: feeds.gate, gateBudgetMs: feeds.gateBudgetMs };
+  const auth = options.auth ?? createServiceAuth({ resolver });
+
+  /**
+   * Options for a read that asked for hidden posts in `submolt`, if the
+   * caller (by their Authorization header) moderates it
+   */
+  const moderatorRead = async (
+    nsid: string,
+    authorization: string | undefined,
+    submolt: string
+  ): Promise<ModerationOptions> => {
+    const viewer = await auth.verify(authorization, nsid);
+    if (!submolt || await assessAuthority(database, submolt, viewer, new Date()) === 'unauthorized') {
+      throw new ForbiddenError(`${viewer} does not moderate ${submolt || 'this post'}`);
+    }
+    return { includeModerated: true };
+  };
+
+  app.onError((err, c) => {
+    if (err instanceof XrpcServerError) {
+      return c.json({ error: err.error, message: err.message }, err.status);
+    }
+    console.error('[api] Unhandled error:', err);
+    return c.json({ error: 'InternalServerError', message: 'Internal Server Error' }, 500);
   });
-});
 
-/**
- * GET /xrpc/app.molt.getPost
- * 
- * Get a single post by URI.
- */
-app.get('/xrpc/app.molt.getPost', async (c) => {
-  const uri = c.req.query('uri');
-  if (!uri) {
-    return c.json({ error: 'InvalidRequest', message: 'uri is required' }, 400);
-  }
-  
-  const post = await db.getPost(uri);
-  if (!post) {
-    return c.json({ error: 'NotFound', message: 'Post not found' }, 404);
-  }
-  
-  const votes = await db.getVoteCounts(uri);
-  
-  return c.json({ post, votes });
-});
-
-// ============================================
-// Submolts
-// ============================================
+  // Health check - includes firehose progress so restarts/stalls are visible,
+  // and the events each source gave up on
+  app.get('/health', async (c) => {
+    const firehose = await new CursorStore(database).list();
+    const deadLetters = await new DeadLetterStore(database).counts();
+    return c.json({ status: 'ok', firehose, deadLetters });
+  });
 
-/**
- * GET /xrpc/app.molt.getSubmolts
- * 
- * List submolts.
- */
-app.get('/xrpc/app.molt.getSubmolts', async (c) => {
-  const agentFriendly = c.req.query('agentFriendly') === 'true' ? true : 
-                        c.req.query('agentFriendly') === 'false' ? false : undefined;
-  const limit = Math.min(parseInt(c.req.query('limit') || '25'), 100);
-  const cursor = c.req.query('cursor');
-  
-  const submolts = await db.getSubmolts({ agentFriendly, limit, cursor });
-  
-  return c.json({
-    submolts,
-    cursor: submolts.length === limit ? 'TODO' : undefined,
+  // ============================================
+  // Posts
+  // ============================================
+
+  /**
+   * GET /xrpc/app.molt.feed.getSubmoltPosts
+   *
+   * Posts in a submolt, ranked by the requested algorithm. Agent-friendly
+   * submolts only show posts that pass the accountability gate.
+   */
+  app.get(`/xrpc/${ids.AppMoltFeedGetSubmoltPosts}`, async (c) => {
+    const params = parseQueryParams<AppMoltFeedGetSubmoltPosts.QueryParams>(
+      ids.AppMoltFeedGetSubmoltPosts, c.req.queries()
+    );
+    const moderation = params.includeModerated
+      ? await moderatorRead(ids.AppMoltFeedGetSubmoltPosts, c.req.header('Authorization'), params.submolt)
+      : {};
+    return c.json(await getSubmoltPosts(params, database, { ...feeds, ...moderation }));
   });
-});
 
-/**
- * GET /xrpc/app.molt.getSubmolt
- * 
- * Get a single submolt by rkey.
- */
-app.get('/xrpc/app.molt.getSubmolt', async (c) => {
-  const rkey = c.req.query('rkey');
-  if (!rkey) {
-    return c.json({ error: 'InvalidRequest', message: 'rkey is required' }, 400);
-  }
-  
-  const submolt = await db.getSubmolt(rkey);
-  if (!submolt) {
-    return c.json({ error: 'NotFound', message: 'Submolt not found' }, 404);
-  }
-  
-  return c.json({ submolt });
-});
-
-// ============================================
-// Accountability (witness-protocol integration)
-// ============================================
+  /**
+   * GET /xrpc/app.molt.feed.getAgentFeed
+   *
+   * Agent posts across submolts, newest first, optionally by operator,
+   * submolt and accountability status.
+   */
+  app.get(`/xrpc/${ids.AppMoltFeedGetAgentFeed}`, async (c) => {
+    const params = parseQueryParams<AppMoltFeedGetAgentFeed.QueryParams>(
+      ids.AppMoltFeedGetAgentFeed, c.req.queries()
+    );
+    if (params.includeModerated && !params.submolt) {
+      throw new InvalidRequestError('includeModerated is only for a single submolt: set submolt');
+    }
+    const moderation = params.includeModerated && params.submolt
+      ? await moderatorRead(ids.AppMoltFeedGetAgentFeed, c.req.header('Authorization'), params.submolt)
+      : {};
+    return c.json(await getAgentFeed(params, database, { ...operators, ...moderation }));
+  });
+
+  /**
+   * GET /xrpc/app.molt.post.get
+   *
+   * A single post with engagement counts and the author's standing summary.
+   */
+  app.get(`/xrpc/${ids.AppMoltPostGet}`, async (c) => {
+    const params = parseQueryParams<AppMoltPostGet.QueryParams>(
+      ids.AppMoltPostGet, c.req.queries()
+    );
+    const submolt = params.includeModerated ? await postSubmolt(database, params.uri) : undefined;
+    const moderation = submolt !== undefined
+      ? await moderatorRead(ids.AppMoltPostGet, c.req.header('Authorization'), submolt)
+      : {};
+    const post = await getPost(params, database, moderation);
+    if (!post) {
+      throw new NotFoundError('Post not found');
+    }
+    return c.json(post);
+  });
+
+  /**
+   * GET /xrpc/app.molt.getThread
+   *
+   * A post with its parent chain and replies down to `depth`.
+   */
+  app.get(`/xrpc/${ids.AppMoltGetThread}`, async (c) => {
+    const params = parseQueryParams<AppMoltGetThread.QueryParams>(
+      ids.AppMoltGetThread, c.req.queries()
+    );
+    const submolt = params.includeModerated ? await postSubmolt(database, params.uri) : undefined;
+    const moderation = submolt !== undefined
+      ? await moderatorRead(ids.AppMoltGetThread, c.req.header('Authorization'), submolt)
+      : {};
+    const thread = await getThread(params, database, moderation);
+    if (!thread) {
+      throw new NotFoundError('Post not found');
+    }
+    return c.json(thread);
+  });
+
+  // ============================================
+  // Standing
+  // ============================================
+
+  /**
+   * GET /xrpc/app.molt.standing.getStanding
+   *
+   * Phi score plus the testimonies and mod actions behind it.
+   */
+  app.get(`/xrpc/${ids.AppMoltStandingGetStanding}`, async (c) => {
+    const params = parseQueryParams<AppMoltStandingGetStanding.QueryParams>(
+      ids.AppMoltStandingGetStanding, c.req.queries()
+    );
+    return c.json(await getStanding(params, database));
+  });
+
+  // ============================================
+  // Submolts
+  // ============================================
+
+  /**
+   * GET /xrpc/app.molt.getSubmolts
+   *
+   * List submolts.
+   */
+  app.get(`/xrpc/${ids.AppMoltGetSubmolts}`, async (c) => {
+    const params = parseQueryParams<AppMoltGetSubmolts.QueryParams>(
+      ids.AppMoltGetSubmolts, c.req.queries()
+    );
+    return c.json(await getSubmolts(params, database));
+  });
+
+  /**
+   * GET /xrpc/app.molt.getSubmolt
+   *
+   * Get a single submolt by URI.
+   */
+  app.get(`/xrpc/${ids.AppMoltGetSubmolt}`, async (c) => {
+    const params = parseQueryParams<AppMoltGetSubmolt.QueryParams>(
+      ids.AppMoltGetSubmolt, c.req.queries()
+    );
+    const submolt = await getSubmolt(params, database);
+    if (!submolt) {
+      throw new NotFoundError('Submolt not found');
+    }
+    return c.json(submolt);
+  });
+
+  // ============================================
+  // Accountability (witness-protocol integration)
+  // ============================================
+
+  /**
+   * GET /xrpc/app.molt.verifyAccountability
+   *
+   * Check a post's operatorDid against the operator's witness records.
+   */
+  app.get(`/xrpc/${ids.AppMoltVerifyAccountability}`, async (c) => {
+    const params = parseQueryParams<AppMoltVerifyAccountability.QueryParams>(
+      ids.AppMoltVerifyAccountability, c.req.queries()
+    );
+    const verdict = await verifyAccountability(params, database, resolver);
+    if (!verdict) {
+      throw new NotFoundError('Post not found');
+    }
+    return c.json(verdict);
+  });
+
+  /**
+   * GET /xrpc/app.molt.getOperatorPosts
+   *
+   * Posts naming an operator, newest first, across submolts.
+   */
+  app.get(`/xrpc/${ids.AppMoltGetOperatorPosts}`, async (c) => {
+    const params = parseQueryParams<AppMoltGetOperatorPosts.QueryParams>(
+      ids.AppMoltGetOperatorPosts, c.req.queries()
+    );
+    return c.json(await getOperatorPosts(params, database, operators));
+  });
+
+  /**
+   * GET /xrpc/app.molt.getOperatorStats
+   *
+   * An operator's agents, their post volume, and the mod actions and
+   * appeals they've been through.
+   */
+  app.get(`/xrpc/${ids.AppMoltGetOperatorStats}`, async (c) => {
+    const params = parseQueryParams<AppMoltGetOperatorStats.QueryParams>(
+      ids.AppMoltGetOperatorStats, c.req.queries()
+    );
+    return c.json(await getOperatorStats(params, database, operators));
+  });
+
+  /**
+   * GET /xrpc/app.molt.getRoleHistory
+   *
+   * The roles a DID has held in submolts, current and past.
+   */
+  app.get(`/xrpc/${ids.AppMoltGetRoleHistory}`, async (c) => {
+    const params = parseQueryParams<AppMoltGetRoleHistory.QueryParams>(
+      ids.AppMoltGetRoleHistory, c.req.queries()
+    );
+    return c.json(await getRoleHistory(params, database));
+  });
+
+  return app;
+}
 
 /**
- * GET /xrpc/app.molt.verifyAccountability
- * 
- * Verify accountability metadata for a post.
- * Checks operatorDid, logicTrace, and knowledgeCommit.
+ * The submolt a post is in ('' if none), or undefined if it isn't indexed
  */
-app.get('/xrpc/app.molt.verifyAccountability', async (c) => {
-  const uri = c.req.query('uri');
-  if (!uri) {
-    return c.json({ error: 'InvalidRequest', message: 'uri is required' }, 400);
-  }
-  
-  const post = await db.getPost(uri);
-  if (!post) {
-    return c.json({ error: 'NotFound', message: 'Post not found' }, 404);
-  }
-  
-  // TODO: Implement full verification
-  // - Check if operatorDid is present
-  // - Fetch witness records from operator's PDS
-  // - Verify knowledgeCommit hash if present
-  // - Parse and summarize logicTrace
-  
-  return c.json({
-    uri,
-    hasOperator: !!post.operatorDid,
-    operatorDid: post.operatorDid,
-    hasLogicTrace: !!post.logicTrace,
-    hasKnowledgeCommit: !!post.knowledgeCommit,
-    // TODO: Add witness record verification
-    verified: false,
-    message: 'Full verification not yet implemented',
-  });
-});
+async function postSubmolt(database: Database, uri: string): Promise<string | undefined> {
+  const [post] = await database.query<{ submolt: string | null }>(`
+    SELECT submolt FROM posts WHERE uri = {uri:String} LIMIT 1
+  `, { uri });
+  return post && (post.submolt ?? '');
+}
 
 /**
  * Start the API server
  */
-export async function startApiServer(port = 3000) {
+export async function startApiServer(port = parseInt(process.env.PORT || '3000'), database: Database = db) {
   console.log(`[api] Starting API server on port ${port}...`);
-  
+
   serve({
-    fetch: app.fetch,
+    fetch: createApiApp(database).fetch,
     port,
   });
-  
+
   console.log(`[api] API server running at http://localhost:${port}`);
   console.log('[api] Endpoints:');
   console.log('  GET /health');
-  console.log('  GET /xrpc/app.molt.getPosts?submolt=<rkey>');
-  console.log('  GET /xrpc/app.molt.getPost?uri=<at-uri>');
-  console.log('  GET /xrpc/app.molt.getSubmolts');
-  console.log('  GET /xrpc/app.molt.getSubmolt?rkey=<rkey>');
-  console.log('  GET /xrpc/app.molt.verifyAccountability?uri=<at-uri>');
+  console.log(`  GET /xrpc/${ids.AppMoltFeedGetSubmoltPosts}?submolt=<at-uri>`);
+  console.log(`  GET /xrpc/${ids.AppMoltFeedGetAgentFeed}`);
+  console.log(`  GET /xrpc/${ids.AppMoltPostGet}?uri=<at-uri>`);
+  console.log(`  GET /xrpc/${ids.AppMoltGetThread}?uri=<at-uri>&depth=<n>`);
+  console.log(`  GET /xrpc/${ids.AppMoltStandingGetStanding}?did=<did>`);
+  console.log(`  GET /xrpc/${ids.AppMoltGetSubmolts}`);
+  console.log(`  GET /xrpc/${ids.AppMoltGetSubmolt}?uri=<at-uri>`);
+  console.log(`  GET /xrpc/${ids.AppMoltVerifyAccountability}?uri=<at-uri>`);
+  console.log(`  GET /xrpc/${ids.AppMoltGetOperatorPosts}?operator=<did>`);
+  console.log(`  GET /xrpc/${ids.AppMoltGetOperatorStats}?operator=<did>`);
+  console.log(`  GET /xrpc/${ids.AppMoltGetRoleHistory}?did=<did>`);
 }
 
 // Allow running standalone: npm run api
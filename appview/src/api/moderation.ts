@@ -0,0 +1,188 @@
+/**
+ * Moderation Enforcement
+ *
+ * Which mod actions are in effect, shared by every read endpoint. An
+ * action is in effect while it is active (not reversed on appeal),
+ * unexpired, and was taken with authority over its submolt - anyone can
+ * publish a modAction, but only the owner's and the moderators' count
+ * (see ./authority.ts).
+ *
+ * For a post in a submolt:
+ *   remove   hides the post, unless a later approve overrides it
+ *   ban      hides every post of the banned author in that submolt
+ *   pin      leads the submolt's feed
+ *   approve  overrides an earlier removal
+ *   warn     is shown, on the post or on its author in the submolt
+ *
+ * Feeds leave hidden posts out in SQL (VISIBLE_POSTS) so pages stay
+ * full; resolveModeration gives the actions behind each returned post.
+ */
+
+import { Database } from '../db/index.js';
+import type { AppMoltFeedGetSubmoltPosts } from '../lexicon/generated/index.js';
+
+/**
+ * For reads on behalf of a moderator. Over XRPC, only a submolt's
+ * moderators get them, authenticated with a service token (see ./auth.ts).
+ */
+export interface ModerationOptions {
+  /** Return hidden posts in full, marked hidden, instead of leaving them out */
+  includeModerated?: boolean;
+}
+
+export interface ModerationSubject {
+  uri: string;
+  /** Author DID */
+  did: string;
+  submolt: string;
+}
+
+export interface EffectiveAction {
+  uri: string;
+  action: string;
+  reason: string;
+  createdAt: string;
+}
+
+export interface PostModeration {
+  /** The removal or ban hiding the post, if any (removal first) */
+  hiddenBy?: EffectiveAction;
+  remove?: EffectiveAction;
+  ban?: EffectiveAction;
+  pin?: EffectiveAction;
+  approve?: EffectiveAction;
+  warnings: EffectiveAction[];
+}
+
+// Mod actions in effect, as a subquery
+const EFFECTIVE_ACTIONS = `
+  SELECT
+    ma.uri,
+    ma.action_type,
+    ma.reason,
+    ma.subject_did,
+    ma.subject_post_uri,
+    ma.context,
+    ma.created_at
+  FROM mod_actions ma
+  WHERE ma.status = 'active'
+    AND ma.authority != 'unauthorized'
+    AND (ma.expires_at IS NULL OR ma.expires_at > now())
+`;
+
+/**
+ * SQL condition true for posts (aliased `p`) that aren't hidden: not
+ * removed, and not by an author banned in the post's submolt
+ */
+export const VISIBLE_POSTS = `
+  (p.uri, p.submolt) NOT IN (
+    SELECT subject_post_uri, context FROM (${EFFECTIVE_ACTIONS}) AS removals
+    WHERE action_type IN ('remove', 'approve') AND subject_post_uri != ''
+    GROUP BY subject_post_uri, context
+    HAVING argMax(action_type, created_at) = 'remove'
+  )
+  AND (p.did, p.submolt) NOT IN (
+    SELECT subject_did, context FROM (${EFFECTIVE_ACTIONS}) AS bans
+    WHERE action_type = 'ban'
+  )
+`;
+
+/**
+ * Mod actions in effect on each post, keyed by post URI. Posts without
+ * any are left out.
+ */
+export async function resolveModeration(
+  db: Database,
+  posts: ModerationSubject[]
+): Promise<Map<string, PostModeration>> {
+  const moderation = new Map<string, PostModeration>();
+  if (posts.length === 0) {
+    return moderation;
+  }
+
+  const actions = await db.query<{
+    uri: string;
+    action_type: string;
+    reason: string;
+    subject_did: string;
+    subject_post_uri: string;
+    context: string;
+    created_at: string;
+  }>(`
+    SELECT uri, action_type, reason, subject_did, subject_post_uri, context, created_at
+    FROM (${EFFECTIVE_ACTIONS}) AS effective
+    WHERE subject_post_uri IN {uris:Array(String)}
+      OR (subject_did IN {dids:Array(String)} AND action_type IN ('ban', 'warn'))
+    ORDER BY created_at DESC, uri DESC
+  `, {
+    uris: posts.map(post => post.uri),
+    dids: [...new Set(posts.map(post => post.did))],
+  });
+
+  for (const post of posts) {
+    // Newest first
+    const inSubmolt = actions.filter(a => a.context === post.submolt);
+    const onPost = inSubmolt.filter(a => a.subject_post_uri === post.uri);
+    const onAuthor = inSubmolt.filter(a => a.subject_did === post.did && !a.subject_post_uri);
+
+    const latest = (type: string, among = onPost) => {
+      const row = among.find(a => a.action_type === type);
+      return row && toEffectiveAction(row);
+    };
+
+    let remove = latest('remove');
+    let approve = latest('approve');
+    if (remove && approve) {
+      if (approve.createdAt > remove.createdAt) {
+        remove = undefined;
+      } else {
+        approve = undefined;
+      }
+    }
+    const ban = latest('ban', inSubmolt.filter(a => a.subject_did === post.did));
+    const pin = latest('pin');
+    const warnings = [...onPost, ...onAuthor]
+      .filter(a => a.action_type === 'warn')
+      .map(toEffectiveAction);
+
+    if (remove || ban || pin || approve || warnings.length > 0) {
+      moderation.set(post.uri, { hiddenBy: remove ?? ban, remove, ban, pin, approve, warnings });
+    }
+  }
+
+  return moderation;
+}
+
+/**
+ * Posts pinned in a submolt, most recently pinned first
+ */
+export async function pinnedPostUris(db: Database, submolt: string): Promise<string[]> {
+  const rows = await db.query<{ subject_post_uri: string }>(`
+    SELECT subject_post_uri
+    FROM (${EFFECTIVE_ACTIONS}) AS pins
+    WHERE action_type = 'pin' AND context = {submolt:String} AND subject_post_uri != ''
+    GROUP BY subject_post_uri
+    ORDER BY max(created_at) DESC
+  `, { submolt });
+  return rows.map(row => row.subject_post_uri);
+}
+
+export function toModerationView(
+  moderation: PostModeration | undefined
+): AppMoltFeedGetSubmoltPosts.ModerationView | undefined {
+  if (!moderation) {
+    return undefined;
+  }
+  return {
+    hidden: moderation.hiddenBy ? true : undefined,
+    removed: moderation.remove?.uri,
+    banned: moderation.ban?.uri,
+    pinned: moderation.pin?.uri,
+    approved: moderation.approve?.uri,
+    warnings: moderation.warnings.length > 0 ? moderation.warnings.map(w => w.uri) : undefined,
+  };
+}
+
+function toEffectiveAction(row: { uri: string; action_type: string; reason: string; created_at: string }): EffectiveAction {
+  return { uri: row.uri, action: row.action_type, reason: row.reason, createdAt: row.created_at };
+}
@@ -0,0 +1,221 @@
+/**
+ * Ranking Algorithms
+ *
+ * Feeds rank posts by a sort key computed in SQL over the posts table
+ * (aliased `p`). Each algorithm is a strategy that turns the request into
+ * that key, plus the parameters it ran with so responses can say how a
+ * feed was ranked.
+ *
+ *   time          newest first (by indexedAt)
+ *   hot           (upvotes - downvotes) / (age_hours + 2)^gravity
+ *   top           upvotes - downvotes, within a time window
+ *   controversial (upvotes + downvotes)^balance, within a time window,
+ *                 where balance = min(up, down) / max(up, down)
+ *   rising        (upvotes - downvotes + replies) / (age_hours + 2),
+ *                 for posts younger than maxAgeHours
+ *   standing      votes weighted by the voter's standing in the submolt,
+ *                 within a time window (see STANDING_WEIGHTS_V1)
+ *
+ * Keys that depend on the clock (age, windows) read {refTime:DateTime},
+ * which stays fixed for every page of a walk.
+ */
+
+import type {
+  AppMoltFeedGetSubmoltPosts,
+  AppMoltStandingGetStanding,
+} from '../lexicon/generated/index.js';
+import type { CursorKeyType } from './cursor.js';
+
+export type SortName = NonNullable<AppMoltFeedGetSubmoltPosts.QueryParams['sort']>;
+export type TimeWindow = NonNullable<AppMoltFeedGetSubmoltPosts.QueryParams['window']>;
+
+export interface RankingRequest {
+  window: TimeWindow;
+  /** Creator and moderators of the submolt, whose standing assessments count */
+  stewards: string[];
+}
+
+export interface Ranking {
+  algorithm: string;
+  /** Disclosed in responses, and part of the cursor's sort tag */
+  params: Record<string, string | number>;
+  /** How the score was derived, when there's more to it than params */
+  methodology?: AppMoltStandingGetStanding.Methodology;
+  /** Sort key expression; rows are ordered by it, then by URI (both DESC) */
+  key: string;
+  /** ClickHouse type the key is bound as when resuming from a cursor */
+  type: CursorKeyType;
+  /** Joined onto posts for the key to read */
+  join?: string;
+  /** Extra condition posts must meet to be ranked at all */
+  where?: string;
+  /** Query parameters the key or condition read, besides refTime */
+  values?: Record<string, unknown>;
+  /** Whether the key or condition reads {refTime:DateTime} */
+  clock?: boolean;
+}
+
+export type RankingStrategy = (request: RankingRequest) => Ranking;
+
+export interface RankingConfig {
+  hot: { gravity: number };
+  rising: { maxAgeHours: number };
+  standing: { methodology: StandingWeights };
+}
+
+// Weights are numeric for every methodology we publish
+export interface StandingWeights extends AppMoltStandingGetStanding.Methodology {
+  weights: Record<string, number>;
+}
+
+// Standing weights v1: a vote counts by the voter's standing state
+export const STANDING_WEIGHTS_V1: StandingWeights = {
+  version: 'molt-vote-weight-v1',
+  description: `
+    Each effective vote counts +1 (up) or -1 (down), times a weight for the
+    voter's standing state in the post's submolt.
+    - The state comes from the voter's most recently updated standing record
+      for the submolt, assessed by the submolt's creator or a moderator
+    - Voters without one count as "unknown"
+    - States outside the known ladder count as "unknown"
+
+    Raw vote counts are unchanged; only the ordering uses the weights.
+  `.trim(),
+  weights: {
+    unknown: 0.25,
+    nascent: 0.5,
+    emerging: 1.0,
+    established: 1.5,
+    authority_eligible: 2.0,
+  },
+};
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  hot: { gravity: 1.8 },
+  rising: { maxAgeHours: 24 },
+  standing: { methodology: STANDING_WEIGHTS_V1 },
+};
+
+const WINDOW_DAYS: Record<TimeWindow, number | undefined> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+  all: undefined,
+};
+
+const SCORE = '(p.upvote_count - p.downvote_count)';
+
+// Fractional hours since the post was created, never negative (clock skew)
+const AGE_HOURS = `greatest(dateDiff('second', p.created_at, {refTime:DateTime}), 0) / 3600.0`;
+
+/**
+ * Build the strategy for each sort, with parameters from `config`
+ */
+export function createRankingStrategies(
+  config: Partial<RankingConfig> = {}
+): Record<SortName, RankingStrategy> {
+  const { hot, rising, standing } = { ...DEFAULT_RANKING_CONFIG, ...config };
+
+  return {
+    time: () => ({
+      algorithm: 'time',
+      params: {},
+      key: 'p.indexed_at',
+      type: 'DateTime',
+    }),
+
+    hot: () => ({
+      algorithm: 'hot',
+      params: { gravity: hot.gravity },
+      key: `${SCORE} / pow(${AGE_HOURS} + 2, {gravity:Float64})`,
+      type: 'Float64',
+      values: { gravity: hot.gravity },
+      clock: true,
+    }),
+
+    top: ({ window }) => ({
+      algorithm: 'top',
+      params: { window },
+      key: SCORE,
+      type: 'Int64',
+      ...windowed(window),
+    }),
+
+    controversial: ({ window }) => ({
+      algorithm: 'controversial',
+      params: { window },
+      key: `CASE WHEN p.upvote_count > 0 AND p.downvote_count > 0
+        THEN pow(
+          p.upvote_count + p.downvote_count,
+          least(p.upvote_count, p.downvote_count) * 1.0
+            / greatest(p.upvote_count, p.downvote_count)
+        )
+        ELSE 0 END`,
+      type: 'Float64',
+      ...windowed(window),
+    }),
+
+    rising: () => ({
+      algorithm: 'rising',
+      params: { maxAgeHours: rising.maxAgeHours },
+      key: `(${SCORE} + p.reply_count) / (${AGE_HOURS} + 2)`,
+      type: 'Float64',
+      where: `p.created_at > {refTime:DateTime} - INTERVAL ${Math.floor(rising.maxAgeHours)} HOUR`,
+      clock: true,
+    }),
+
+    standing: ({ window, stewards }) => ({
+      algorithm: 'standing',
+      params: { window, methodology: standing.methodology.version },
+      methodology: standing.methodology,
+      key: 'coalesce(w.score, 0)',
+      type: 'Float64',
+      join: standingScores(standing.methodology),
+      values: { stewards },
+      ...windowed(window),
+    }),
+  };
+}
+
+/**
+ * Standing-weighted vote totals for the posts of {submolt:String}, as
+ * `w.subject` and `w.score`
+ */
+function standingScores(methodology: StandingWeights): string {
+  const { unknown = 0, ...states } = methodology.weights;
+  const weight = `CASE st.state
+    ${Object.entries(states).map(([state, w]) => `WHEN '${state}' THEN ${Number(w)}`).join('\n    ')}
+    ELSE ${Number(unknown)} END`;
+
+  return `LEFT JOIN (
+    SELECT
+      v.subject AS subject,
+      sum(CASE WHEN v.direction = 'up' THEN 1.0 ELSE -1.0 END * ${weight}) AS score
+    FROM votes v
+    LEFT JOIN (
+      SELECT subject_did, argMax(state, updated_at) AS state
+      FROM standing
+      WHERE context_uri = {submolt:String}
+        AND assessor_did IN {stewards:Array(String)}
+      GROUP BY subject_did
+    ) st ON st.subject_did = v.voter_did
+    WHERE v.effective = 1
+      AND v.subject IN (SELECT uri FROM posts WHERE submolt = {submolt:String})
+    GROUP BY v.subject
+  ) w ON w.subject = p.uri`;
+}
+
+/**
+ * Restrict a ranking to posts created within a window before refTime
+ */
+function windowed(window: TimeWindow): Pick<Ranking, 'where' | 'clock'> {
+  const days = WINDOW_DAYS[window];
+  if (days === undefined) {
+    return {};
+  }
+  return {
+    where: `p.created_at > {refTime:DateTime} - INTERVAL ${days} DAY`,
+    clock: true,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Role History
+ *
+ * Who held which role in a submolt, and when. role_events records each
+ * grant and revocation as submolt versions are indexed: the owner is
+ * granted `owner` with the first version, and a moderator `moderator`
+ * by the version that adds them to the list, until one drops them.
+ *
+ * Authority over mod actions is checked against the versions themselves
+ * (./authority.ts). This is the per-DID view, for standing checks and
+ * for testimony from former moderators, whose standing outlives their
+ * role (permission ghosts).
+ */
+
+import { Database } from '../db/index.js';
+
+export type Role = 'owner' | 'moderator';
+
+export interface RoleEvent {
+  did: string;
+  role: Role;
+  event: 'added' | 'removed';
+}
+
+export interface RoleGrant {
+  submolt: string;
+  role: Role;
+  grantedAt: string;
+  /** Unset while the role is held */
+  revokedAt?: string;
+}
+
+/**
+ * Role changes made by a submolt version, given the moderators of the
+ * version before it (undefined for the first)
+ */
+export function roleChanges(
+  owner: string,
+  previous: string[] | undefined,
+  moderators: string[]
+): RoleEvent[] {
+  const before = new Set(previous ?? []);
+  const after = new Set(moderators);
+
+  const events: RoleEvent[] = previous ? [] : [{ did: owner, role: 'owner', event: 'added' }];
+  for (const did of after) {
+    if (!before.has(did)) {
+      events.push({ did, role: 'moderator', event: 'added' });
+    }
+  }
+  for (const did of before) {
+    if (!after.has(did)) {
+      events.push({ did, role: 'moderator', event: 'removed' });
+    }
+  }
+  return events;
+}
+
+/**
+ * Every role `did` has been granted, in one submolt or all of them,
+ * oldest first
+ */
+export async function roleHistory(
+  db: Database,
+  did: string,
+  submolt?: string
+): Promise<RoleGrant[]> {
+  const events = await db.query<{
+    submolt: string;
+    role: Role;
+    event: RoleEvent['event'];
+    at: string;
+  }>(`
+    SELECT submolt, role, event, at
+    FROM role_events
+    WHERE did = {did:String}
+      ${submolt ? 'AND submolt = {submolt:String}' : ''}
+    ORDER BY at ASC
+  `, { did, ...(submolt && { submolt }) });
+
+  const grants: RoleGrant[] = [];
+  const held = new Map<string, RoleGrant>();
+  for (const row of events) {
+    const key = `${row.submolt} ${row.role}`;
+    const open = held.get(key);
+
+    if (row.event === 'added' && !open) {
+      const grant = { submolt: row.submolt, role: row.role, grantedAt: row.at };
+      grants.push(grant);
+      held.set(key, grant);
+    } else if (row.event === 'removed' && open) {
+      open.revokedAt = row.at;
+      held.delete(key);
+    }
+  }
+  return grants;
+}
@@ -0,0 +1,151 @@
+/**
+ * Logic Traces
+ *
+ * A post explains itself with a structuredTrace (steps, each with its
+ * sources, tool call and confidence) or a free-text logicTrace. Both are
+ * parsed into the same shape, so posts can be compared on whether their
+ * reasoning cites anything or only asserts.
+ *
+ * Free text has no declared structure. Its numbered or bulleted lines are
+ * taken as steps (the whole text is one step if there are none), and the
+ * URLs and AT URIs in it as sources, cited by the step they appear in.
+ */
+
+import type { AppMoltPost, AppMoltPostGet } from '../lexicon/generated/index.js';
+
+export type TraceFormat = AppMoltPostGet.TraceSummary['format'];
+
+export interface ParsedStep {
+  kind: string;
+  description: string;
+  /** Name of the tool called, or '' */
+  tool: string;
+  confidence?: number;
+}
+
+export interface TraceSource {
+  uri: string;
+  /** Index of the first step citing it; -1 for the trace as a whole */
+  step: number;
+}
+
+export interface ParsedTrace {
+  format: TraceFormat;
+  steps: ParsedStep[];
+  /** Distinct sources, in order of first citation */
+  sources: TraceSource[];
+  toolCallCount: number;
+  confidence?: number;
+}
+
+// Sources listed in a summary; counts cover all of them
+const MAX_SUMMARY_SOURCES = 50;
+
+const LIST_ITEM = /^\s*(?:\d+[.)]|[-*•]|step\s+\d+:)\s+(.+)$/i;
+const SOURCE = /\b(?:https?|at):\/\/[^\s<>"'`()[\]{}]+/g;
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+
+/**
+ * Parse the trace a post record carries, preferring structuredTrace
+ */
+export function parseTrace(
+  record: Pick<AppMoltPost.Record, 'logicTrace' | 'structuredTrace'>
+): ParsedTrace {
+  if (record.structuredTrace) {
+    return parseStructuredTrace(record.structuredTrace);
+  }
+  if (record.logicTrace?.trim()) {
+    return parseTextTrace(record.logicTrace);
+  }
+  return { format: 'none', steps: [], sources: [], toolCallCount: 0 };
+}
+
+/**
+ * The summary returned alongside a post
+ */
+export function summariseTrace(trace: ParsedTrace): AppMoltPostGet.TraceSummary {
+  return {
+    format: trace.format,
+    stepCount: trace.steps.length,
+    sourceCount: trace.sources.length,
+    toolCallCount: trace.toolCallCount,
+    confidence: trace.confidence,
+    citesSources: trace.sources.length > 0,
+    sources: trace.format === 'none'
+      ? undefined
+      : trace.sources.slice(0, MAX_SUMMARY_SOURCES).map(s => s.uri),
+  };
+}
+
+function parseStructuredTrace(trace: AppMoltPost.StructuredTrace): ParsedTrace {
+  const sources = new Map<string, number>();
+
+  const steps = trace.steps.map((step, idx): ParsedStep => {
+    step.sources?.forEach(uri => cite(sources, uri, idx));
+    return {
+      kind: step.kind ?? (step.toolCall ? 'tool_call' : 'reasoning'),
+      description: step.description,
+      tool: step.toolCall?.name ?? '',
+      confidence: step.confidence,
+    };
+  });
+  trace.sources?.forEach(uri => cite(sources, uri, -1));
+
+  const stepConfidences = steps.flatMap(s => s.confidence ?? []);
+  const confidence = trace.confidence ?? (stepConfidences.length > 0
+    ? Math.round(stepConfidences.reduce((a, b) => a + b, 0) / stepConfidences.length)
+    : undefined);
+
+  return {
+    format: 'structured',
+    steps,
+    sources: toSourceList(sources),
+    toolCallCount: steps.filter(s => s.tool).length,
+    confidence,
+  };
+}
+
+function parseTextTrace(text: string): ParsedTrace {
+  const sources = new Map<string, number>();
+  const lines = text.split('\n');
+  let descriptions: string[] = [];
+
+  if (lines.some(line => LIST_ITEM.test(line))) {
+    // Continuation lines belong to the item above; lines before the
+    // first item cite for the trace as a whole
+    for (const line of lines) {
+      const item = line.match(LIST_ITEM)?.[1];
+      if (item) {
+        descriptions.push(item.trim());
+      }
+      extractSources(line).forEach(uri => cite(sources, uri, descriptions.length - 1));
+    }
+  } else {
+    descriptions = [text.trim()];
+    extractSources(text).forEach(uri => cite(sources, uri, 0));
+  }
+
+  return {
+    format: 'text',
+    steps: descriptions.map(description => ({ kind: 'reasoning', description, tool: '' })),
+    sources: toSourceList(sources),
+    toolCallCount: 0,
+  };
+}
+
+function extractSources(text: string): string[] {
+  return (text.match(SOURCE) ?? []).map(uri => uri.replace(TRAILING_PUNCTUATION, ''));
+}
+
+/**
+ * Record a citation, keeping the first step that cites each source
+ */
+function cite(sources: Map<string, number>, uri: string, step: number): void {
+  if (!sources.has(uri)) {
+    sources.set(uri, step);
+  }
+}
+
+function toSourceList(sources: Map<string, number>): TraceSource[] {
+  return [...sources].map(([uri, step]) => ({ uri, step }));
+}
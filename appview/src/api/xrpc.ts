@@ -0,0 +1,107 @@
+/**
+ * XRPC Server Helpers
+ *
+ * Query parameter decoding and the XRPC error format for the API routes.
+ * Parameters arrive as strings; they're coerced using the method's
+ * lexicon, defaults applied, then validated against it.
+ */
+
+import {
+  formatValidationErrors,
+  lexicons,
+  validateParams,
+} from '../lexicon/index.js';
+import type { LexSchema } from '../lexicon/index.js';
+
+/**
+ * An error with an XRPC error name, sent as `{ error, message }`
+ */
+export class XrpcServerError extends Error {
+  constructor(
+    readonly status: 400 | 401 | 403 | 404 | 500 | 501 | 502,
+    readonly error: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'XrpcServerError';
+  }
+}
+
+export class InvalidRequestError extends XrpcServerError {
+  constructor(message: string) {
+    super(400, 'InvalidRequest', message);
+  }
+}
+
+export class AuthRequiredError extends XrpcServerError {
+  constructor(message: string) {
+    super(401, 'AuthRequired', message);
+  }
+}
+
+export class ForbiddenError extends XrpcServerError {
+  constructor(message: string) {
+    super(403, 'Forbidden', message);
+  }
+}
+
+export class NotFoundError extends XrpcServerError {
+  constructor(message: string) {
+    super(404, 'NotFound', message);
+  }
+}
+
+/**
+ * Decode query string values (`c.req.queries()`) into the parameters
+ * declared by a query lexicon. Throws InvalidRequestError on anything the
+ * lexicon rejects.
+ */
+export function parseQueryParams<P>(nsid: string, query: Record<string, string[]>): P {
+  const properties = lexicons.get(nsid)?.defs.main?.parameters?.properties ?? {};
+  const params: Record<string, unknown> = {};
+
+  for (const [name, schema] of Object.entries(properties)) {
+    const values = query[name];
+    if (values === undefined || values.length === 0) {
+      if (schema.default !== undefined) {
+        params[name] = schema.default;
+      }
+      continue;
+    }
+
+    params[name] = schema.type === 'array'
+      ? values.map(value => decode(name, value, schema.items ?? { type: 'string' }))
+      : decode(name, values[0], schema);
+  }
+
+  const validation = validateParams(nsid, params);
+  if (!validation.valid) {
+    throw new InvalidRequestError(formatValidationErrors(validation.errors));
+  }
+
+  return params as P;
+}
+
+function decode(name: string, value: string, schema: LexSchema): unknown {
+  switch (schema.type) {
+    case 'integer':
+      if (!/^-?\d+$/.test(value)) {
+        throw new InvalidRequestError(`params.${name}: Expected an integer`);
+      }
+      return parseInt(value, 10);
+    case 'number': {
+      const n = Number(value);
+      if (value.trim() === '' || Number.isNaN(n)) {
+        throw new InvalidRequestError(`params.${name}: Expected a number`);
+      }
+      return n;
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        throw new InvalidRequestError(`params.${name}: Expected true or false`);
+      }
+      return value === 'true';
+    default:
+      return value;
+  }
+}
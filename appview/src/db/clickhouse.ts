@@ -0,0 +1,97 @@
+/**
+ * ClickHouse Database
+ *
+ * Production implementation of the Database interface on
+ * @clickhouse/client.
+ *
+ * Table engines follow how the handlers mutate each table:
+ *   - Records that get edited or re-delivered (posts, submolts, mod
+ *     actions, ...) use ReplacingMergeTree keyed by URI, so re-inserting a
+ *     row replaces it. Queries run with `final = 1` so reads never see
+ *     a superseded version.
+ *   - Counters (reply_count, upvote_count, ...) and AppView-owned state
+ *     (mod_actions.status) are changed with ALTER TABLE ... UPDATE,
+ *     which runs with `mutations_sync = 2` so the change is visible as
+ *     soon as execute() resolves.
+ *   - Deletes are lightweight DELETEs.
+ */
+
+import { ClickHouseClient, createClient } from '@clickhouse/client';
+import type { Database, DatabaseConfig } from './index.js';
+
+export class ClickHouseDatabase implements Database {
+  readonly dialect = 'clickhouse';
+  private readonly client: ClickHouseClient;
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly config: DatabaseConfig) {
+    this.client = createClient({
+      ...connectionOptions(config),
+      database: config.database ?? 'molt',
+      clickhouse_settings: {
+        final: 1,
+        mutations_sync: '2',
+        date_time_input_format: 'best_effort',
+        date_time_output_format: 'iso',
+        output_format_json_quote_64bit_integers: 0,
+      },
+    });
+
+    this.ready = this.ensureDatabase();
+  }
+
+  async query<T>(sql: string, params?: Record<string, unknown>): Promise<T[]> {
+    await this.ready;
+    const result = await this.client.query({
+      query: withMillisecondPrecision(sql),
+      query_params: params,
+      format: 'JSONEachRow',
+    });
+    return result.json<T>();
+  }
+
+  async execute(sql: string, params?: Record<string, unknown>): Promise<void> {
+    await this.ready;
+    await this.client.command({
+      query: withMillisecondPrecision(sql),
+      query_params: params,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => undefined);
+    await this.client.close();
+  }
+
+  /**
+   * Create the database if needed. Tables are created by migrations
+   * (see ./migrate.ts).
+   */
+  private async ensureDatabase(): Promise<void> {
+    const database = this.config.database ?? 'molt';
+
+    // The main client is bound to the (possibly missing) molt database
+    const admin = createClient(connectionOptions(this.config));
+    try {
+      await admin.command({ query: `CREATE DATABASE IF NOT EXISTS ${database}` });
+    } finally {
+      await admin.close();
+    }
+  }
+}
+
+function connectionOptions(config: DatabaseConfig) {
+  return {
+    url: `http://${config.host ?? 'localhost'}:${config.port ?? 8123}`,
+    username: config.username ?? 'default',
+    password: config.password ?? '',
+  };
+}
+
+/**
+ * Handlers bind timestamps as {name:DateTime}; every timestamp column is
+ * DateTime64(3), so widen the parameter type to keep milliseconds.
+ */
+function withMillisecondPrecision(sql: string): string {
+  return sql.replace(/(\{\w+:(?:Nullable\()?)DateTime(?=[)}])/g, '$1DateTime64(3)');
+}
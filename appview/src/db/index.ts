@@ -5,7 +5,15 @@
  * Implementations can use ClickHouse, SQLite, or other backends.
  */
 
+import { ClickHouseDatabase } from './clickhouse.js';
+import { SqliteDatabase } from './sqlite.js';
+
 export interface Database {
+  /**
+   * Which SQL backend this is (migrations ship DDL per dialect).
+   */
+  readonly dialect: DatabaseConfig['type'];
+
   /**
    * Execute a parameterized query and return results.
    * Parameters use ClickHouse-style placeholders: {name:Type}
@@ -35,3 +43,48 @@ export interface DatabaseConfig {
   password?: string;
   path?: string;  // For SQLite
 }
+
+/**
+ * Read database configuration from the environment
+ * 
+ * Uses ClickHouse when CLICKHOUSE_URL is set, otherwise a local SQLite
+ * file (SQLITE_PATH, default ./molt.db). DB_TYPE overrides the choice.
+ */
+export function loadDatabaseConfig(env: NodeJS.ProcessEnv = process.env): DatabaseConfig {
+  const type = env.DB_TYPE ?? (env.CLICKHOUSE_URL ? 'clickhouse' : 'sqlite');
+
+  if (type === 'sqlite') {
+    return { type, path: env.SQLITE_PATH ?? 'molt.db' };
+  }
+
+  if (type === 'clickhouse') {
+    const url = new URL(env.CLICKHOUSE_URL ?? 'http://localhost:8123');
+    return {
+      type,
+      host: url.hostname,
+      port: url.port ? parseInt(url.port) : 8123,
+      database: env.CLICKHOUSE_DB ?? 'molt',
+      username: env.CLICKHOUSE_USER ?? (url.username || undefined),
+      password: env.CLICKHOUSE_PASSWORD ?? (url.password || undefined),
+    };
+  }
+
+  throw new Error(`Unsupported DB_TYPE: ${type}`);
+}
+
+/**
+ * Create a Database for the given configuration
+ */
+export function createDatabase(config: DatabaseConfig): Database {
+  switch (config.type) {
+    case 'sqlite':
+      return new SqliteDatabase(config.path);
+    case 'clickhouse':
+      return new ClickHouseDatabase(config);
+  }
+}
+
+/**
+ * Shared database instance for the firehose consumer and API server
+ */
+export const db: Database = createDatabase(loadDatabaseConfig());
@@ -0,0 +1,170 @@
+/**
+ * Migration Runner
+ *
+ * Applies pending migrations from ./migrations in version order and
+ * records each one in schema_migrations once all of its statements have
+ * run. Safe to run repeatedly - applied versions are skipped.
+ *
+ * On SQLite each migration runs in a transaction, so one that fails is
+ * rolled back whole. ClickHouse has no transactions: its statements are
+ * written to be re-run (IF [NOT] EXISTS, helper tables dropped first, and
+ * an `unless` check where there's no such form), so a migration that
+ * failed partway is simply applied again.
+ *
+ *   npm run migrate:up      - apply pending migrations
+ *   npm run migrate:status  - list applied and pending migrations
+ */
+
+import type { Database } from './index.js';
+import { Dialect, Migration, MIGRATIONS, Statement } from './migrations/index.js';
+
+const MIGRATIONS_TABLE: Record<Dialect, string> = {
+  clickhouse: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version UInt32,
+      name String,
+      applied_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree
+    ORDER BY version
+  `,
+  sqlite: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `,
+};
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: string;   // Absent if pending
+}
+
+/**
+ * Apply every pending migration. Returns the versions applied.
+ */
+export async function migrate(
+  db: Database,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number[]> {
+  const applied = await appliedMigrations(db);
+  const pending = sortByVersion(migrations).filter(m => !applied.has(m.version));
+
+  for (const migration of pending) {
+    console.log(`[migrate] Applying ${formatName(migration)}...`);
+
+    const transactional = db.dialect === 'sqlite';
+    if (transactional) {
+      await db.execute('BEGIN');
+    }
+
+    try {
+      for (const statement of migration[db.dialect]) {
+        await runStatement(db, statement);
+      }
+
+      await db.execute(`
+        INSERT INTO schema_migrations (version, name, applied_at)
+        VALUES ({version:UInt32}, {name:String}, {appliedAt:DateTime})
+      `, {
+        version: migration.version,
+        name: migration.name,
+        appliedAt: new Date(),
+      });
+    } catch (error) {
+      if (transactional) {
+        await db.execute('ROLLBACK');
+      }
+      throw error;
+    }
+
+    if (transactional) {
+      await db.execute('COMMIT');
+    }
+  }
+
+  return pending.map(m => m.version);
+}
+
+/**
+ * Applied/pending state of every known migration
+ */
+export async function migrationStatus(
+  db: Database,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationStatus[]> {
+  const appliedAt = await appliedMigrations(db);
+
+  return sortByVersion(migrations).map(m => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: appliedAt.get(m.version),
+  }));
+}
+
+async function runStatement(db: Database, statement: Statement): Promise<void> {
+  if (typeof statement === 'string') {
+    await db.execute(statement);
+    return;
+  }
+  if ((await db.query(statement.unless)).length === 0) {
+    await db.execute(statement.sql);
+  }
+}
+
+/**
+ * Applied versions and when they were applied
+ */
+async function appliedMigrations(db: Database): Promise<Map<number, string>> {
+  await db.execute(MIGRATIONS_TABLE[db.dialect]);
+  const rows = await db.query<{ version: number; applied_at: string }>(`
+    SELECT version, applied_at FROM schema_migrations
+  `);
+  return new Map(rows.map(r => [Number(r.version), r.applied_at]));
+}
+
+function sortByVersion(migrations: Migration[]): Migration[] {
+  return [...migrations].sort((a, b) => a.version - b.version);
+}
+
+function formatName(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
+
+async function main(command: string | undefined) {
+  const { db } = await import('./index.js');
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrate(db);
+        console.log(applied.length > 0
+          ? `[migrate] Applied ${applied.length} migration(s)`
+          : '[migrate] Already up to date');
+        break;
+      }
+      case 'status': {
+        for (const m of await migrationStatus(db)) {
+          const state = m.appliedAt ? `applied  ${formatName(m)}  (${m.appliedAt})` : `pending  ${formatName(m)}`;
+          console.log(state);
+        }
+        break;
+      }
+      default:
+        console.error('Usage: migrate <up|status>');
+        process.exitCode = 1;
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+// Allow running standalone: npm run migrate:up / migrate:status
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main(process.argv[2]).catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  });
+}
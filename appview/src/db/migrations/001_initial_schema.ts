@@ -0,0 +1,339 @@
+/**
+ * Migration 001: Initial schema
+ *
+ * Every table the firehose handlers write and the API handlers read.
+ * See ../clickhouse.ts for why each ClickHouse table uses the engine it
+ * does, and ../sqlite.ts for SQLite storage conventions.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration001: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  clickhouse: [
+    `CREATE TABLE IF NOT EXISTS posts (
+      uri String,
+      cid String,
+      did String,
+      submolt String,
+      text String,
+      reply_to String DEFAULT '',
+      logic_trace String DEFAULT '',
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC'),
+      reply_count Int64 DEFAULT 0,
+      upvote_count Int64 DEFAULT 0,
+      downvote_count Int64 DEFAULT 0,
+      INDEX posts_submolt_idx submolt TYPE bloom_filter GRANULARITY 4,
+      INDEX posts_reply_to_idx reply_to TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS post_versions (
+      uri String,
+      cid String,
+      record String,
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY (uri, cid)`,
+
+    `CREATE TABLE IF NOT EXISTS submolts (
+      uri String,
+      cid String,
+      did String,
+      rkey String,
+      name String,
+      description String DEFAULT '',
+      is_agent_friendly Bool DEFAULT false,
+      moderators Array(String),
+      rules String DEFAULT '[]',
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS votes (
+      uri String,
+      cid String,
+      voter_did String,
+      subject String,
+      direction LowCardinality(String),
+      created_at DateTime64(3, 'UTC'),
+      INDEX votes_voter_idx voter_did TYPE bloom_filter GRANULARITY 4,
+      INDEX votes_subject_idx subject TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS testimonies (
+      uri String,
+      cid String,
+      witness_did String,
+      subject_did String,
+      category LowCardinality(String),
+      content String,
+      context String DEFAULT '',
+      evidence Array(String),
+      created_at DateTime64(3, 'UTC'),
+      INDEX testimonies_subject_idx subject_did TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS mod_actions (
+      uri String,
+      cid String,
+      moderator_did String,
+      context String,
+      action_type LowCardinality(String),
+      severity LowCardinality(String) DEFAULT '',
+      reason String DEFAULT '',
+      subject_did String,
+      subject_post_uri String DEFAULT '',
+      subject_post_cid String DEFAULT '',
+      appeals_to String DEFAULT '',
+      labels Array(String),
+      expires_at Nullable(DateTime64(3, 'UTC')),
+      operator_did String DEFAULT '',
+      status LowCardinality(String) DEFAULT 'active',
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC'),
+      INDEX mod_actions_subject_idx subject_did TYPE bloom_filter GRANULARITY 4,
+      INDEX mod_actions_post_idx subject_post_uri TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS profiles (
+      did String,
+      handle String,
+      display_name Nullable(String),
+      avatar Nullable(String),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY did`,
+
+    `CREATE TABLE IF NOT EXISTS appeals (
+      uri String,
+      cid String,
+      appellant_did String,
+      subject_uri String,
+      grounds String,
+      category LowCardinality(String) DEFAULT '',
+      representative_did String DEFAULT '',
+      evidence String DEFAULT '[]',
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS appeal_resolutions (
+      uri String,
+      cid String,
+      resolver_did String,
+      appeal_uri String,
+      mod_action_uri String DEFAULT '',
+      outcome LowCardinality(String),
+      reasoning String,
+      resolver_authority String DEFAULT '',
+      modifications String DEFAULT '',
+      remand_instructions String DEFAULT '',
+      final_decision Bool DEFAULT false,
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS standing (
+      uri String,
+      cid String,
+      assessor_did String,
+      subject_did String,
+      context_type LowCardinality(String),
+      context_uri String,
+      state LowCardinality(String),
+      last_activity Nullable(DateTime64(3, 'UTC')),
+      phi_score Nullable(Float64),
+      metrics String DEFAULT '{}',
+      total_contributions Int32 DEFAULT 0,
+      positive_ratio Float64 DEFAULT 0,
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      updated_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(updated_at)
+    ORDER BY uri`,
+
+    `CREATE TABLE IF NOT EXISTS firehose_cursors (
+      source String,
+      seq UInt64,
+      event_time Nullable(DateTime64(3, 'UTC')),
+      live Bool DEFAULT true,
+      updated_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(updated_at)
+    ORDER BY source`,
+  ],
+
+  sqlite: [
+    `CREATE TABLE IF NOT EXISTS posts (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      did TEXT NOT NULL,
+      submolt TEXT NOT NULL,
+      text TEXT NOT NULL,
+      reply_to TEXT NOT NULL DEFAULT '',
+      logic_trace TEXT NOT NULL DEFAULT '',
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL,
+      reply_count INTEGER NOT NULL DEFAULT 0,
+      upvote_count INTEGER NOT NULL DEFAULT 0,
+      downvote_count INTEGER NOT NULL DEFAULT 0
+    )`,
+    `CREATE INDEX IF NOT EXISTS posts_submolt_idx ON posts (submolt, indexed_at)`,
+    `CREATE INDEX IF NOT EXISTS posts_reply_to_idx ON posts (reply_to)`,
+
+    `CREATE TABLE IF NOT EXISTS post_versions (
+      uri TEXT NOT NULL,
+      cid TEXT NOT NULL,
+      record TEXT NOT NULL,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (uri, cid)
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS submolts (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      did TEXT NOT NULL,
+      rkey TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      is_agent_friendly BOOLEAN NOT NULL DEFAULT 0,
+      moderators TEXT_ARRAY NOT NULL DEFAULT '[]',
+      rules TEXT NOT NULL DEFAULT '[]',
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS votes (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      voter_did TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS votes_voter_subject_idx ON votes (voter_did, subject)`,
+    `CREATE INDEX IF NOT EXISTS votes_subject_idx ON votes (subject)`,
+
+    `CREATE TABLE IF NOT EXISTS testimonies (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      witness_did TEXT NOT NULL,
+      subject_did TEXT NOT NULL,
+      category TEXT NOT NULL,
+      content TEXT NOT NULL,
+      context TEXT NOT NULL DEFAULT '',
+      evidence TEXT_ARRAY NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS testimonies_subject_idx ON testimonies (subject_did, context)`,
+
+    `CREATE TABLE IF NOT EXISTS mod_actions (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      moderator_did TEXT NOT NULL,
+      context TEXT NOT NULL,
+      action_type TEXT NOT NULL,
+      severity TEXT NOT NULL DEFAULT '',
+      reason TEXT NOT NULL DEFAULT '',
+      subject_did TEXT NOT NULL,
+      subject_post_uri TEXT NOT NULL DEFAULT '',
+      subject_post_cid TEXT NOT NULL DEFAULT '',
+      appeals_to TEXT NOT NULL DEFAULT '',
+      labels TEXT_ARRAY NOT NULL DEFAULT '[]',
+      expires_at TEXT,
+      operator_did TEXT NOT NULL DEFAULT '',
+      status TEXT NOT NULL DEFAULT 'active',
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS mod_actions_subject_idx ON mod_actions (subject_did, context)`,
+    `CREATE INDEX IF NOT EXISTS mod_actions_post_idx ON mod_actions (subject_post_uri)`,
+
+    `CREATE TABLE IF NOT EXISTS profiles (
+      did TEXT PRIMARY KEY,
+      handle TEXT NOT NULL,
+      display_name TEXT,
+      avatar TEXT,
+      indexed_at TEXT NOT NULL
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS appeals (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      appellant_did TEXT NOT NULL,
+      subject_uri TEXT NOT NULL,
+      grounds TEXT NOT NULL,
+      category TEXT NOT NULL DEFAULT '',
+      representative_did TEXT NOT NULL DEFAULT '',
+      evidence TEXT NOT NULL DEFAULT '[]',
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS appeals_subject_idx ON appeals (subject_uri)`,
+
+    `CREATE TABLE IF NOT EXISTS appeal_resolutions (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      resolver_did TEXT NOT NULL,
+      appeal_uri TEXT NOT NULL,
+      mod_action_uri TEXT NOT NULL DEFAULT '',
+      outcome TEXT NOT NULL,
+      reasoning TEXT NOT NULL,
+      resolver_authority TEXT NOT NULL DEFAULT '',
+      modifications TEXT NOT NULL DEFAULT '',
+      remand_instructions TEXT NOT NULL DEFAULT '',
+      final_decision BOOLEAN NOT NULL DEFAULT 0,
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS appeal_resolutions_appeal_idx ON appeal_resolutions (appeal_uri)`,
+
+    `CREATE TABLE IF NOT EXISTS standing (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      assessor_did TEXT NOT NULL,
+      subject_did TEXT NOT NULL,
+      context_type TEXT NOT NULL,
+      context_uri TEXT NOT NULL,
+      state TEXT NOT NULL,
+      last_activity TEXT,
+      phi_score REAL,
+      metrics TEXT NOT NULL DEFAULT '{}',
+      total_contributions INTEGER NOT NULL DEFAULT 0,
+      positive_ratio REAL NOT NULL DEFAULT 0,
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS standing_subject_idx ON standing (subject_did, context_uri)`,
+
+    `CREATE TABLE IF NOT EXISTS firehose_cursors (
+      source TEXT PRIMARY KEY,
+      seq INTEGER NOT NULL,
+      event_time TEXT,
+      live BOOLEAN NOT NULL DEFAULT 1,
+      updated_at TEXT NOT NULL
+    )`,
+  ],
+};
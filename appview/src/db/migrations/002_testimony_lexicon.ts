@@ -0,0 +1,79 @@
+/**
+ * Migration 002: Testimonies follow the app.molt.testimony lexicon
+ *
+ * A testimony addresses a modAction (strongRef subject) and carries a
+ * position and standingBasis, not a category about a DID. The DID and
+ * submolt it bears on are derived from the referenced modAction at index
+ * time, along with the category standing calculations read.
+ *
+ * The table is rebuilt rather than altered, since rows in the old shape
+ * can't be mapped onto the lexicon. They are kept in testimonies_v1, not
+ * dropped. Lexicon-shaped testimonies were rejected by the old handler,
+ * so a database upgraded from version 1 needs a full backfill to index
+ * them.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration002: Migration = {
+  version: 2,
+  name: 'testimony_lexicon',
+
+  clickhouse: [
+    {
+      sql: `RENAME TABLE testimonies TO testimonies_v1`,
+      // Renamed already, by a run that failed later on
+      unless: `SELECT 1 FROM system.tables
+        WHERE database = currentDatabase() AND name = 'testimonies_v1'`,
+    },
+
+    `CREATE TABLE IF NOT EXISTS testimonies (
+      uri String,
+      cid String,
+      witness_did String,
+      subject_uri String,
+      subject_cid String,
+      subject_did String DEFAULT '',
+      context String DEFAULT '',
+      category LowCardinality(String) DEFAULT 'neutral',
+      position LowCardinality(String),
+      standing_basis LowCardinality(String),
+      standing_context String DEFAULT '',
+      content String DEFAULT '',
+      anonymous Bool DEFAULT false,
+      record String,
+      created_at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC'),
+      INDEX testimonies_subject_idx subject_did TYPE bloom_filter GRANULARITY 4,
+      INDEX testimonies_subject_uri_idx subject_uri TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY uri`,
+  ],
+
+  sqlite: [
+    // Index names are per database; the old table's would clash
+    `DROP INDEX IF EXISTS testimonies_subject_idx`,
+    `ALTER TABLE testimonies RENAME TO testimonies_v1`,
+
+    `CREATE TABLE IF NOT EXISTS testimonies (
+      uri TEXT PRIMARY KEY,
+      cid TEXT NOT NULL,
+      witness_did TEXT NOT NULL,
+      subject_uri TEXT NOT NULL,
+      subject_cid TEXT NOT NULL,
+      subject_did TEXT NOT NULL DEFAULT '',
+      context TEXT NOT NULL DEFAULT '',
+      category TEXT NOT NULL DEFAULT 'neutral',
+      position TEXT NOT NULL,
+      standing_basis TEXT NOT NULL,
+      standing_context TEXT NOT NULL DEFAULT '',
+      content TEXT NOT NULL DEFAULT '',
+      anonymous BOOLEAN NOT NULL DEFAULT 0,
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX testimonies_subject_idx ON testimonies (subject_did, context)`,
+    `CREATE INDEX testimonies_subject_uri_idx ON testimonies (subject_uri)`,
+  ],
+};
@@ -0,0 +1,91 @@
+/**
+ * Migration 003: Posts index the full replyRef
+ *
+ * A reply's replyTo is a pair of strongRefs (root and parent). reply_to
+ * becomes parent_uri, next to the root URI and the parent CID the reply
+ * was written against. Posts also count replies across their whole
+ * thread (thread_reply_count) besides direct replies (reply_count), and
+ * replies are flagged (parent_stale) once their parent has been edited
+ * away from the CID they reference.
+ *
+ * Existing rows are backfilled from the stored record. Both counts are
+ * recomputed, since replies indexed before their parent were never
+ * counted. ClickHouse mutations can't read other rows of the table
+ * directly, so the per-post aggregates go through a temporary Join table.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration003: Migration = {
+  version: 3,
+  name: 'reply_refs',
+
+  clickhouse: [
+    `ALTER TABLE posts DROP INDEX IF EXISTS posts_reply_to_idx`,
+    `ALTER TABLE posts RENAME COLUMN IF EXISTS reply_to TO parent_uri`,
+
+    `ALTER TABLE posts
+      ADD COLUMN IF NOT EXISTS root_uri String DEFAULT '',
+      ADD COLUMN IF NOT EXISTS parent_cid String DEFAULT '',
+      ADD COLUMN IF NOT EXISTS parent_stale Bool DEFAULT false,
+      ADD COLUMN IF NOT EXISTS thread_reply_count Int64 DEFAULT 0`,
+
+    `ALTER TABLE posts
+      ADD INDEX IF NOT EXISTS posts_parent_idx parent_uri TYPE bloom_filter GRANULARITY 4,
+      ADD INDEX IF NOT EXISTS posts_root_idx root_uri TYPE bloom_filter GRANULARITY 4`,
+    `ALTER TABLE posts MATERIALIZE INDEX posts_parent_idx`,
+    `ALTER TABLE posts MATERIALIZE INDEX posts_root_idx`,
+
+    `ALTER TABLE posts UPDATE
+      root_uri = JSONExtractString(record, 'replyTo', 'root', 'uri'),
+      parent_cid = JSONExtractString(record, 'replyTo', 'parent', 'cid')
+    WHERE parent_uri != ''`,
+
+    `DROP TABLE IF EXISTS migration_003_posts`,
+    `CREATE TABLE IF NOT EXISTS migration_003_posts
+    ENGINE = Join(ANY, LEFT, uri) AS
+    SELECT
+      p.uri AS uri,
+      p.cid AS cid,
+      toInt64(countIf(r.parent_uri = p.uri)) AS replies,
+      toInt64(countIf(r.root_uri = p.uri)) AS thread_replies
+    FROM posts p
+    LEFT JOIN posts r ON r.parent_uri = p.uri OR r.root_uri = p.uri
+    GROUP BY p.uri, p.cid`,
+
+    `ALTER TABLE posts UPDATE
+      reply_count = joinGet('migration_003_posts', 'replies', uri),
+      thread_reply_count = joinGet('migration_003_posts', 'thread_replies', uri),
+      parent_stale = parent_uri != ''
+        AND joinGet('migration_003_posts', 'cid', parent_uri) NOT IN ('', parent_cid)
+    WHERE 1`,
+
+    `DROP TABLE IF EXISTS migration_003_posts`,
+  ],
+
+  sqlite: [
+    `DROP INDEX IF EXISTS posts_reply_to_idx`,
+    `ALTER TABLE posts RENAME COLUMN reply_to TO parent_uri`,
+
+    `ALTER TABLE posts ADD COLUMN root_uri TEXT NOT NULL DEFAULT ''`,
+    `ALTER TABLE posts ADD COLUMN parent_cid TEXT NOT NULL DEFAULT ''`,
+    `ALTER TABLE posts ADD COLUMN parent_stale BOOLEAN NOT NULL DEFAULT 0`,
+    `ALTER TABLE posts ADD COLUMN thread_reply_count INTEGER NOT NULL DEFAULT 0`,
+
+    `CREATE INDEX IF NOT EXISTS posts_parent_idx ON posts (parent_uri)`,
+    `CREATE INDEX IF NOT EXISTS posts_root_idx ON posts (root_uri)`,
+
+    `UPDATE posts SET
+      root_uri = coalesce(json_extract(record, '$.replyTo.root.uri'), ''),
+      parent_cid = coalesce(json_extract(record, '$.replyTo.parent.cid'), '')
+    WHERE parent_uri != ''`,
+
+    `UPDATE posts SET
+      reply_count = (SELECT count(*) FROM posts r WHERE r.parent_uri = posts.uri),
+      thread_reply_count = (SELECT count(*) FROM posts r WHERE r.root_uri = posts.uri),
+      parent_stale = coalesce(
+        (SELECT p.cid != posts.parent_cid FROM posts p WHERE p.uri = posts.parent_uri),
+        0
+      )`,
+  ],
+};
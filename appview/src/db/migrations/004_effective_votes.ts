@@ -0,0 +1,79 @@
+/**
+ * Migration 004: One effective vote per voter and subject
+ *
+ * Every app.molt.vote record is kept, and `effective` marks the one that
+ * counts for its (voter_did, subject) pair: the latest by created_at,
+ * URI breaking ties, unless that record is `deleted` (a tombstone). Post
+ * vote counters only count effective votes.
+ *
+ * Existing rows get the flag by the same rule, and the counters are
+ * recomputed from it (they drifted when votes arrived out of order). As
+ * in migration 003, ClickHouse reads the aggregates back through a
+ * temporary Join table.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration004: Migration = {
+  version: 4,
+  name: 'effective_votes',
+
+  clickhouse: [
+    `ALTER TABLE votes
+      ADD COLUMN IF NOT EXISTS effective Bool DEFAULT false,
+      ADD COLUMN IF NOT EXISTS deleted Bool DEFAULT false`,
+
+    `DROP TABLE IF EXISTS migration_004_votes`,
+    `CREATE TABLE IF NOT EXISTS migration_004_votes
+    ENGINE = Join(ANY, LEFT, uri) AS
+    SELECT argMax(uri, (created_at, uri)) AS uri, true AS effective
+    FROM votes
+    GROUP BY voter_did, subject`,
+
+    `ALTER TABLE votes UPDATE
+      effective = joinGet('migration_004_votes', 'effective', uri)
+    WHERE 1`,
+
+    `DROP TABLE IF EXISTS migration_004_votes`,
+
+    `DROP TABLE IF EXISTS migration_004_counts`,
+    `CREATE TABLE IF NOT EXISTS migration_004_counts
+    ENGINE = Join(ANY, LEFT, subject) AS
+    SELECT
+      subject,
+      toInt64(countIf(direction = 'up')) AS up,
+      toInt64(countIf(direction = 'down')) AS down
+    FROM votes
+    WHERE effective
+    GROUP BY subject`,
+
+    `ALTER TABLE posts UPDATE
+      upvote_count = joinGet('migration_004_counts', 'up', uri),
+      downvote_count = joinGet('migration_004_counts', 'down', uri)
+    WHERE 1`,
+
+    `DROP TABLE IF EXISTS migration_004_counts`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE votes ADD COLUMN effective BOOLEAN NOT NULL DEFAULT 0`,
+    `ALTER TABLE votes ADD COLUMN deleted BOOLEAN NOT NULL DEFAULT 0`,
+
+    `UPDATE votes SET effective = uri = (
+      SELECT v.uri FROM votes v
+      WHERE v.voter_did = votes.voter_did AND v.subject = votes.subject
+      ORDER BY v.created_at DESC, v.uri DESC
+      LIMIT 1
+    )`,
+
+    `UPDATE posts SET
+      upvote_count = (
+        SELECT count(*) FROM votes v
+        WHERE v.subject = posts.uri AND v.effective = 1 AND v.direction = 'up'
+      ),
+      downvote_count = (
+        SELECT count(*) FROM votes v
+        WHERE v.subject = posts.uri AND v.effective = 1 AND v.direction = 'down'
+      )`,
+  ],
+};
@@ -0,0 +1,86 @@
+/**
+ * Migration 005: Index logic traces
+ *
+ * Posts keep a summary of their reasoning trace (format, step, source and
+ * tool call counts, confidence), and the steps and cited sources get
+ * tables of their own, so posts and agents can be audited by what their
+ * traces cite. See ../../api/trace.ts for how traces are parsed.
+ *
+ * Existing posts with a logicTrace are marked as free text. Their counts,
+ * steps and sources fill in when the post is next edited: free text is
+ * parsed by the appview, not in SQL. getPost and verifyAccountability
+ * summarise the stored record, so they don't depend on the backfill.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration005: Migration = {
+  version: 5,
+  name: 'logic_traces',
+
+  clickhouse: [
+    `ALTER TABLE posts
+      ADD COLUMN IF NOT EXISTS trace_format String DEFAULT 'none',
+      ADD COLUMN IF NOT EXISTS trace_step_count Int64 DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS trace_source_count Int64 DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS trace_tool_call_count Int64 DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS trace_confidence Nullable(Int64)`,
+
+    `CREATE TABLE IF NOT EXISTS trace_steps (
+      post_uri String,
+      idx Int64,
+      kind String,
+      description String,
+      tool String DEFAULT '',
+      confidence Nullable(Int64),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY (post_uri, idx)`,
+
+    `CREATE TABLE IF NOT EXISTS trace_sources (
+      post_uri String,
+      did String,
+      source_uri String,
+      step_idx Int64,
+      indexed_at DateTime64(3, 'UTC'),
+      INDEX trace_sources_source_idx source_uri TYPE bloom_filter GRANULARITY 4,
+      INDEX trace_sources_did_idx did TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY (post_uri, source_uri)`,
+
+    `ALTER TABLE posts UPDATE trace_format = 'text'
+    WHERE logic_trace != ''`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE posts ADD COLUMN trace_format TEXT NOT NULL DEFAULT 'none'`,
+    `ALTER TABLE posts ADD COLUMN trace_step_count INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE posts ADD COLUMN trace_source_count INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE posts ADD COLUMN trace_tool_call_count INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE posts ADD COLUMN trace_confidence INTEGER`,
+
+    `CREATE TABLE IF NOT EXISTS trace_steps (
+      post_uri TEXT NOT NULL,
+      idx INTEGER NOT NULL,
+      kind TEXT NOT NULL,
+      description TEXT NOT NULL,
+      tool TEXT NOT NULL DEFAULT '',
+      confidence INTEGER,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (post_uri, idx)
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS trace_sources (
+      post_uri TEXT NOT NULL,
+      did TEXT NOT NULL,
+      source_uri TEXT NOT NULL,
+      step_idx INTEGER NOT NULL,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (post_uri, source_uri)
+    )`,
+    `CREATE INDEX IF NOT EXISTS trace_sources_source_idx ON trace_sources (source_uri)`,
+    `CREATE INDEX IF NOT EXISTS trace_sources_did_idx ON trace_sources (did)`,
+
+    `UPDATE posts SET trace_format = 'text' WHERE logic_trace != ''`,
+  ],
+};
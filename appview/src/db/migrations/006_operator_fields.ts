@@ -0,0 +1,45 @@
+/**
+ * Migration 006: Posts index their accountability fields
+ *
+ * operatorDid, knowledgeCommit and knowledgeSnapshot were only kept in
+ * the stored record. They get columns of their own, so posts can be
+ * listed and aggregated by operator. Existing rows are backfilled from
+ * the record.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration006: Migration = {
+  version: 6,
+  name: 'operator_fields',
+
+  clickhouse: [
+    `ALTER TABLE posts
+      ADD COLUMN IF NOT EXISTS operator_did String DEFAULT '',
+      ADD COLUMN IF NOT EXISTS knowledge_commit String DEFAULT '',
+      ADD COLUMN IF NOT EXISTS knowledge_snapshot String DEFAULT ''`,
+
+    `ALTER TABLE posts
+      ADD INDEX IF NOT EXISTS posts_operator_idx operator_did TYPE bloom_filter GRANULARITY 4`,
+    `ALTER TABLE posts MATERIALIZE INDEX posts_operator_idx`,
+
+    `ALTER TABLE posts UPDATE
+      operator_did = JSONExtractString(record, 'operatorDid'),
+      knowledge_commit = JSONExtractString(record, 'knowledgeCommit'),
+      knowledge_snapshot = JSONExtractString(record, 'knowledgeSnapshot')
+    WHERE 1`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE posts ADD COLUMN operator_did TEXT NOT NULL DEFAULT ''`,
+    `ALTER TABLE posts ADD COLUMN knowledge_commit TEXT NOT NULL DEFAULT ''`,
+    `ALTER TABLE posts ADD COLUMN knowledge_snapshot TEXT NOT NULL DEFAULT ''`,
+
+    `CREATE INDEX IF NOT EXISTS posts_operator_idx ON posts (operator_did, indexed_at)`,
+
+    `UPDATE posts SET
+      operator_did = coalesce(json_extract(record, '$.operatorDid'), ''),
+      knowledge_commit = coalesce(json_extract(record, '$.knowledgeCommit'), ''),
+      knowledge_snapshot = coalesce(json_extract(record, '$.knowledgeSnapshot'), '')`,
+  ],
+};
@@ -0,0 +1,48 @@
+/**
+ * Migration 007: Mark agent posts
+ *
+ * A post is an agent post when it carries any accountability metadata
+ * (operatorDid, a logic trace, a knowledgeCommit), and its accountability
+ * status says whether it carries all of them (full) or only some
+ * (partial). See accountabilityStatus in ../../api/accountability.ts.
+ *
+ * Existing rows are classified from the columns migrations 005 and 006
+ * added.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration007: Migration = {
+  version: 7,
+  name: 'agent_posts',
+
+  clickhouse: [
+    `ALTER TABLE posts
+      ADD COLUMN IF NOT EXISTS is_agent Bool DEFAULT false,
+      ADD COLUMN IF NOT EXISTS accountability LowCardinality(String) DEFAULT 'none'`,
+
+    `ALTER TABLE posts UPDATE
+      is_agent = operator_did != '' OR trace_format != 'none' OR knowledge_commit != '',
+      accountability = multiIf(
+        operator_did != '' AND trace_format != 'none' AND knowledge_commit != '', 'full',
+        operator_did != '' OR trace_format != 'none' OR knowledge_commit != '', 'partial',
+        'none'
+      )
+    WHERE 1`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE posts ADD COLUMN is_agent BOOLEAN NOT NULL DEFAULT 0`,
+    `ALTER TABLE posts ADD COLUMN accountability TEXT NOT NULL DEFAULT 'none'`,
+
+    `CREATE INDEX IF NOT EXISTS posts_agent_idx ON posts (is_agent, indexed_at)`,
+
+    `UPDATE posts SET
+      is_agent = operator_did != '' OR trace_format != 'none' OR knowledge_commit != '',
+      accountability = CASE
+        WHEN operator_did != '' AND trace_format != 'none' AND knowledge_commit != '' THEN 'full'
+        WHEN operator_did != '' OR trace_format != 'none' OR knowledge_commit != '' THEN 'partial'
+        ELSE 'none'
+      END`,
+  ],
+};
@@ -0,0 +1,86 @@
+/**
+ * Migration 008: Moderator authority
+ *
+ * Submolt records were only kept as their latest version. submolt_versions
+ * keeps every version from when it took effect, so a mod action can be
+ * checked against the moderators listed when it was taken, and
+ * mod_actions.authority records the outcome: `owner`, `moderator` or
+ * `unauthorized`. See ../../api/authority.ts.
+ *
+ * History starts here: each existing submolt gets one version, effective
+ * from its createdAt, and existing actions are judged against it.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration008: Migration = {
+  version: 8,
+  name: 'moderator_authority',
+
+  clickhouse: [
+    `CREATE TABLE IF NOT EXISTS submolt_versions (
+      uri String,
+      cid String,
+      did String,
+      moderators Array(String),
+      record String,
+      valid_from DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY (uri, valid_from)`,
+
+    `INSERT INTO submolt_versions (uri, cid, did, moderators, record, valid_from, indexed_at)
+    SELECT uri, cid, did, moderators, record, created_at, indexed_at FROM submolts`,
+
+    `ALTER TABLE mod_actions
+      ADD COLUMN IF NOT EXISTS authority LowCardinality(String) DEFAULT 'unauthorized'`,
+
+    `ALTER TABLE mod_actions
+      ADD INDEX IF NOT EXISTS mod_actions_context_idx context TYPE bloom_filter GRANULARITY 4`,
+    `ALTER TABLE mod_actions MATERIALIZE INDEX mod_actions_context_idx`,
+
+    `DROP TABLE IF EXISTS migration_008_moderators`,
+    `CREATE TABLE IF NOT EXISTS migration_008_moderators
+    ENGINE = Join(ANY, LEFT, uri) AS
+    SELECT uri, moderators FROM submolts`,
+
+    `ALTER TABLE mod_actions UPDATE
+      authority = multiIf(
+        startsWith(context, concat('at://', moderator_did, '/')), 'owner',
+        has(joinGet('migration_008_moderators', 'moderators', context), moderator_did), 'moderator',
+        'unauthorized'
+      )
+    WHERE 1`,
+
+    `DROP TABLE IF EXISTS migration_008_moderators`,
+  ],
+
+  sqlite: [
+    `CREATE TABLE IF NOT EXISTS submolt_versions (
+      uri TEXT NOT NULL,
+      cid TEXT NOT NULL,
+      did TEXT NOT NULL,
+      moderators TEXT_ARRAY NOT NULL DEFAULT '[]',
+      record TEXT NOT NULL,
+      valid_from TEXT NOT NULL,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (uri, valid_from)
+    )`,
+
+    `INSERT INTO submolt_versions (uri, cid, did, moderators, record, valid_from, indexed_at)
+    SELECT uri, cid, did, moderators, record, created_at, indexed_at FROM submolts`,
+
+    `ALTER TABLE mod_actions ADD COLUMN authority TEXT NOT NULL DEFAULT 'unauthorized'`,
+
+    `CREATE INDEX IF NOT EXISTS mod_actions_context_idx ON mod_actions (context, created_at)`,
+
+    `UPDATE mod_actions SET authority = CASE
+      WHEN context LIKE 'at://' || moderator_did || '/%' THEN 'owner'
+      WHEN EXISTS (
+        SELECT 1 FROM submolts s, json_each(s.moderators) m
+        WHERE s.uri = mod_actions.context AND m.value = mod_actions.moderator_did
+      ) THEN 'moderator'
+      ELSE 'unauthorized'
+    END`,
+  ],
+};
@@ -0,0 +1,93 @@
+/**
+ * Migration 009: Role history
+ *
+ * role_events derives, from submolt versions, when each DID was granted
+ * and lost a role in a submolt: `owner` with a submolt's first version,
+ * `moderator` with the versions that add and drop them. See
+ * ../../api/roles.ts.
+ *
+ * Existing versions are diffed against the version before them.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration009: Migration = {
+  version: 9,
+  name: 'role_history',
+
+  clickhouse: [
+    `CREATE TABLE IF NOT EXISTS role_events (
+      submolt String,
+      did String,
+      role LowCardinality(String),
+      event LowCardinality(String),
+      at DateTime64(3, 'UTC'),
+      version_cid String,
+      indexed_at DateTime64(3, 'UTC'),
+      INDEX role_events_did_idx did TYPE bloom_filter GRANULARITY 4
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY (submolt, did, role, at)`,
+
+    `INSERT INTO role_events (submolt, did, role, event, at, version_cid, indexed_at)
+    SELECT uri, did, 'owner', 'added', min(valid_from), argMin(cid, valid_from), now64(3)
+    FROM submolt_versions
+    GROUP BY uri, did`,
+
+    `INSERT INTO role_events (submolt, did, role, event, at, version_cid, indexed_at)
+    SELECT uri, change.2, 'moderator', change.1, valid_from, cid, now64(3)
+    FROM (
+      SELECT
+        uri,
+        cid,
+        valid_from,
+        moderators,
+        lagInFrame(moderators) OVER (
+          PARTITION BY uri ORDER BY valid_from
+          ROWS BETWEEN 1 PRECEDING AND CURRENT ROW
+        ) AS previous
+      FROM submolt_versions
+    )
+    ARRAY JOIN arrayConcat(
+      arrayMap(m -> ('added', m), arrayFilter(m -> NOT has(previous, m), arrayDistinct(moderators))),
+      arrayMap(m -> ('removed', m), arrayFilter(m -> NOT has(moderators, m), arrayDistinct(previous)))
+    ) AS change`,
+  ],
+
+  sqlite: [
+    `CREATE TABLE IF NOT EXISTS role_events (
+      submolt TEXT NOT NULL,
+      did TEXT NOT NULL,
+      role TEXT NOT NULL,
+      event TEXT NOT NULL,
+      at TEXT NOT NULL,
+      version_cid TEXT NOT NULL,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (submolt, did, role, at)
+    )`,
+    `CREATE INDEX IF NOT EXISTS role_events_did_idx ON role_events (did, submolt)`,
+
+    // min() makes SQLite take cid from the first version
+    `INSERT INTO role_events (submolt, did, role, event, at, version_cid, indexed_at)
+    SELECT uri, did, 'owner', 'added', min(valid_from), cid, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    FROM submolt_versions
+    GROUP BY uri, did`,
+
+    `INSERT INTO role_events (submolt, did, role, event, at, version_cid, indexed_at)
+    SELECT DISTINCT v.uri, m.value, 'moderator', 'added', v.valid_from, v.cid, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    FROM (
+      SELECT uri, cid, valid_from, moderators,
+        coalesce(lag(moderators) OVER (PARTITION BY uri ORDER BY valid_from), '[]') AS previous
+      FROM submolt_versions
+    ) v, json_each(v.moderators) m
+    WHERE NOT EXISTS (SELECT 1 FROM json_each(v.previous) p WHERE p.value = m.value)`,
+
+    `INSERT INTO role_events (submolt, did, role, event, at, version_cid, indexed_at)
+    SELECT DISTINCT v.uri, p.value, 'moderator', 'removed', v.valid_from, v.cid, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    FROM (
+      SELECT uri, cid, valid_from, moderators,
+        coalesce(lag(moderators) OVER (PARTITION BY uri ORDER BY valid_from), '[]') AS previous
+      FROM submolt_versions
+    ) v, json_each(v.previous) p
+    WHERE NOT EXISTS (SELECT 1 FROM json_each(v.moderators) m WHERE m.value = p.value)`,
+  ],
+};
@@ -0,0 +1,46 @@
+/**
+ * Migration 010: Mod action transitions
+ *
+ * mod_actions.status only holds an action's current status.
+ * mod_action_transitions records each change to it, with what caused it
+ * and when - starting with the expiry scheduler moving lapsed temporary
+ * actions to `expired` (see ../../scheduler/expiry.ts). The scheduler
+ * looks actions up by status and expiry, so they get an index.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration010: Migration = {
+  version: 10,
+  name: 'mod_action_transitions',
+
+  clickhouse: [
+    `CREATE TABLE IF NOT EXISTS mod_action_transitions (
+      action_uri String,
+      from_status LowCardinality(String),
+      to_status LowCardinality(String),
+      cause LowCardinality(String),
+      at DateTime64(3, 'UTC'),
+      indexed_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(indexed_at)
+    ORDER BY (action_uri, at, to_status)`,
+
+    `ALTER TABLE mod_actions
+      ADD INDEX IF NOT EXISTS mod_actions_expires_idx expires_at TYPE minmax GRANULARITY 4`,
+    `ALTER TABLE mod_actions MATERIALIZE INDEX mod_actions_expires_idx`,
+  ],
+
+  sqlite: [
+    `CREATE TABLE IF NOT EXISTS mod_action_transitions (
+      action_uri TEXT NOT NULL,
+      from_status TEXT NOT NULL,
+      to_status TEXT NOT NULL,
+      cause TEXT NOT NULL,
+      at TEXT NOT NULL,
+      indexed_at TEXT NOT NULL,
+      PRIMARY KEY (action_uri, at, to_status)
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS mod_actions_expires_idx ON mod_actions (status, expires_at)`,
+  ],
+};
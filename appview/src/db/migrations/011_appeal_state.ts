@@ -0,0 +1,82 @@
+/**
+ * Migration 011: Appeal state
+ *
+ * mod_actions.state holds where an action stands in the appeal process
+ * (Lane C): actioned, appealed, under_appeal, upheld, reversed, modified
+ * or remanded. It is kept by the appeal, resolution and testimony
+ * handlers (see ../../api/appeals.ts), and is separate from status, which
+ * says whether the action is enforced. A reversal sets both.
+ *
+ * Existing actions take the outcome of their latest resolution, or
+ * `appealed` if they have an appeal without one. Hearings already under
+ * way aren't told apart from appeals awaiting one; the next record on the
+ * action settles that.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration011: Migration = {
+  version: 11,
+  name: 'appeal_state',
+
+  clickhouse: [
+    `ALTER TABLE mod_actions
+      ADD COLUMN IF NOT EXISTS state LowCardinality(String) DEFAULT 'actioned'`,
+
+    `ALTER TABLE mod_actions UPDATE state = 'appealed'
+    WHERE uri IN (SELECT subject_uri FROM appeals)`,
+
+    `DROP TABLE IF EXISTS migration_011_states`,
+    `CREATE TABLE IF NOT EXISTS migration_011_states
+    ENGINE = Join(ANY, LEFT, uri) AS
+    SELECT
+      a.subject_uri AS uri,
+      transform(
+        argMax(r.outcome, (r.created_at, r.uri)),
+        ['upheld', 'overturned', 'modified', 'remanded'],
+        ['upheld', 'reversed', 'modified', 'remanded'],
+        'appealed'
+      ) AS state
+    FROM appeal_resolutions r
+    INNER JOIN appeals a ON a.uri = r.appeal_uri
+    GROUP BY a.subject_uri`,
+
+    `ALTER TABLE mod_actions UPDATE
+      state = joinGet('migration_011_states', 'state', uri)
+    WHERE joinGet('migration_011_states', 'state', uri) != ''`,
+
+    `DROP TABLE IF EXISTS migration_011_states`,
+
+    `ALTER TABLE mod_actions UPDATE status = 'reversed'
+    WHERE state = 'reversed' AND status = 'active'`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE mod_actions ADD COLUMN state TEXT NOT NULL DEFAULT 'actioned'`,
+
+    `UPDATE mod_actions SET state = 'appealed'
+    WHERE uri IN (SELECT subject_uri FROM appeals)`,
+
+    `UPDATE mod_actions SET state = (
+      SELECT CASE r.outcome
+        WHEN 'upheld' THEN 'upheld'
+        WHEN 'overturned' THEN 'reversed'
+        WHEN 'modified' THEN 'modified'
+        WHEN 'remanded' THEN 'remanded'
+        ELSE 'appealed'
+      END
+      FROM appeal_resolutions r
+      JOIN appeals a ON a.uri = r.appeal_uri
+      WHERE a.subject_uri = mod_actions.uri
+      ORDER BY r.created_at DESC, r.uri DESC
+      LIMIT 1
+    )
+    WHERE uri IN (
+      SELECT a.subject_uri FROM appeal_resolutions r
+      JOIN appeals a ON a.uri = r.appeal_uri
+    )`,
+
+    `UPDATE mod_actions SET status = 'reversed'
+    WHERE state = 'reversed' AND status = 'active'`,
+  ],
+};
@@ -0,0 +1,40 @@
+/**
+ * Migration 012: Firehose cursors versioned by seq
+ *
+ * ClickHouse kept the newest cursor row per source by updated_at, so two
+ * writes in the same millisecond (or a clock step backwards) could leave
+ * an older seq as the cursor. The table is rebuilt to keep the highest
+ * seq instead, carrying over each source's furthest cursor. SQLite
+ * already has one row per source; the cursor store now only moves it
+ * forward.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration012: Migration = {
+  version: 12,
+  name: 'cursor_by_seq',
+
+  clickhouse: [
+    `DROP TABLE IF EXISTS migration_012_cursors`,
+    `CREATE TABLE IF NOT EXISTS migration_012_cursors (
+      source String,
+      seq UInt64,
+      event_time Nullable(DateTime64(3, 'UTC')),
+      live Bool DEFAULT true,
+      updated_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(seq)
+    ORDER BY source`,
+
+    `INSERT INTO migration_012_cursors (source, seq, event_time, live, updated_at)
+    SELECT source, max(seq), argMax(event_time, seq), argMax(live, seq), argMax(updated_at, seq)
+    FROM firehose_cursors
+    GROUP BY source`,
+
+    `EXCHANGE TABLES firehose_cursors AND migration_012_cursors`,
+
+    `DROP TABLE IF EXISTS migration_012_cursors`,
+  ],
+
+  sqlite: [],
+};
@@ -0,0 +1,28 @@
+/**
+ * Migration 013: Appeal rejections
+ *
+ * Every appeal and resolution is stored, and the replay (see
+ * ../../api/appeals.ts) leaves out the ones that aren't valid at their
+ * place in an action's history. `rejection` records why, or is '' for one
+ * that counts, so views and stats can tell them apart.
+ *
+ * Existing rows start out counted; the next record on their action
+ * replays it and fills in any rejections.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration013: Migration = {
+  version: 13,
+  name: 'appeal_rejections',
+
+  clickhouse: [
+    `ALTER TABLE appeals ADD COLUMN IF NOT EXISTS rejection String DEFAULT ''`,
+    `ALTER TABLE appeal_resolutions ADD COLUMN IF NOT EXISTS rejection String DEFAULT ''`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE appeals ADD COLUMN rejection TEXT NOT NULL DEFAULT ''`,
+    `ALTER TABLE appeal_resolutions ADD COLUMN rejection TEXT NOT NULL DEFAULT ''`,
+  ],
+};
@@ -0,0 +1,27 @@
+/**
+ * Migration 014: Mod action commit time
+ *
+ * A mod action's authority was judged at its createdAt, which its author
+ * writes, so a moderator who had been removed could backdate an action to
+ * when they still held the role. mod_actions.committed_at keeps when the
+ * action was committed to its author's repo (from the commit rev), and
+ * authority is judged then instead. See ../../api/authority.ts.
+ *
+ * Existing actions have no commit time and are still judged at createdAt.
+ */
+
+import type { Migration } from './index.js';
+
+export const migration014: Migration = {
+  version: 14,
+  name: 'mod_action_commit_time',
+
+  clickhouse: [
+    `ALTER TABLE mod_actions
+      ADD COLUMN IF NOT EXISTS committed_at Nullable(DateTime64(3, 'UTC'))`,
+  ],
+
+  sqlite: [
+    `ALTER TABLE mod_actions ADD COLUMN committed_at TEXT`,
+  ],
+};
@@ -0,0 +1,43 @@
+/**
+ * Migration 015: Dead letters
+ *
+ * A firehose event whose indexing keeps failing is set aside in
+ * dead_letters, with the error, once its retries are used up, so it no
+ * longer holds back the events behind it (see
+ * ../../firehose/dead-letters.ts).
+ */
+
+import type { Migration } from './index.js';
+
+export const migration015: Migration = {
+  version: 15,
+  name: 'dead_letters',
+
+  clickhouse: [
+    `CREATE TABLE IF NOT EXISTS dead_letters (
+      source String,
+      event_id UInt64,
+      uri String,
+      event String,
+      error String,
+      attempts UInt32,
+      first_failed_at DateTime64(3, 'UTC'),
+      dead_at DateTime64(3, 'UTC')
+    ) ENGINE = ReplacingMergeTree(dead_at)
+    ORDER BY (source, event_id, first_failed_at)`,
+  ],
+
+  sqlite: [
+    `CREATE TABLE IF NOT EXISTS dead_letters (
+      source TEXT NOT NULL,
+      event_id INTEGER NOT NULL,
+      uri TEXT NOT NULL,
+      event TEXT NOT NULL,
+      error TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      first_failed_at TEXT NOT NULL,
+      dead_at TEXT NOT NULL,
+      PRIMARY KEY (source, event_id, first_failed_at)
+    )`,
+  ],
+};
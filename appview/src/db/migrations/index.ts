@@ -0,0 +1,62 @@
+/**
+ * Schema Migrations
+ * 
+ * Numbered, append-only list of schema changes. Each migration carries
+ * DDL for every backend in DatabaseConfig, since ClickHouse and SQLite
+ * disagree on types, engines and ALTER syntax.
+ * 
+ * To change the schema, add NNN_description.ts exporting the next version
+ * and register it below. Never edit a migration that has shipped.
+ */
+
+import type { DatabaseConfig } from '../index.js';
+import { migration001 } from './001_initial_schema.js';
+import { migration002 } from './002_testimony_lexicon.js';
+import { migration003 } from './003_reply_refs.js';
+import { migration004 } from './004_effective_votes.js';
+import { migration005 } from './005_logic_traces.js';
+import { migration006 } from './006_operator_fields.js';
+import { migration007 } from './007_agent_posts.js';
+import { migration008 } from './008_moderator_authority.js';
+import { migration009 } from './009_role_history.js';
+import { migration010 } from './010_mod_action_transitions.js';
+import { migration011 } from './011_appeal_state.js';
+import { migration012 } from './012_cursor_by_seq.js';
+import { migration013 } from './013_appeal_rejections.js';
+import { migration014 } from './014_mod_action_commit_time.js';
+import { migration015 } from './015_dead_letters.js';
+
+/**
+ * One statement, or one that is skipped when `unless` (a query) returns a
+ * row - for ClickHouse DDL with no IF [NOT] EXISTS form, so a migration
+ * that failed partway can be re-run
+ */
+export type Statement = string | { sql: string; unless: string };
+
+export interface Migration {
+  version: number;
+  name: string;
+  /** Statements run in order */
+  clickhouse: Statement[];
+  sqlite: Statement[];
+}
+
+export type Dialect = DatabaseConfig['type'];
+
+export const MIGRATIONS: Migration[] = [
+  migration001,
+  migration002,
+  migration003,
+  migration004,
+  migration005,
+  migration006,
+  migration007,
+  migration008,
+  migration009,
+  migration010,
+  migration011,
+  migration012,
+  migration013,
+  migration014,
+  migration015,
+];
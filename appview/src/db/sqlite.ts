@@ -0,0 +1,202 @@
+/**
+ * SQLite Database
+ *
+ * Implementation of the Database interface on better-sqlite3, so the
+ * whole appview runs locally (and in-memory) without an external service.
+ *
+ * Handlers are written in ClickHouse SQL. Every statement is passed
+ * through translateQuery() first, which rewrites the subset of ClickHouse
+ * syntax we use into SQLite; the ClickHouse functions we use are
+ * registered as SQLite user functions.
+ *
+ * Storage conventions:
+ *   - DateTime values are ISO 8601 strings (so they sort and compare)
+ *   - Array(String) values are JSON text in TEXT_ARRAY columns
+ *   - Bool values are 0/1 in BOOLEAN columns
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+import type { Database } from './index.js';
+
+interface TranslatedQuery {
+  sql: string;
+  values: Record<string, unknown>;
+}
+
+const INTERVAL_SECONDS: Record<string, number> = {
+  SECOND: 1,
+  MINUTE: 60,
+  HOUR: 60 * 60,
+  DAY: 24 * 60 * 60,
+  WEEK: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Rewrite a ClickHouse-dialect statement for SQLite
+ *
+ *   {name:Type}                       -> @name (value coerced by Type)
+ *   IN {name:Array(T)}                -> IN (SELECT value FROM json_each(@name))
+ *   ALTER TABLE t UPDATE ... WHERE    -> UPDATE t SET ... WHERE
+ *   ALTER TABLE t DELETE WHERE        -> DELETE FROM t WHERE
+ *   INSERT INTO                       -> INSERT OR REPLACE INTO
+ *   <expr> - INTERVAL 30 DAY          -> datetime_add(<expr>, -2592000)
+ *
+ * INSERT becomes an upsert to mirror the ReplacingMergeTree tables on the
+ * ClickHouse side: writing a row with an existing key replaces it.
+ */
+export function translateQuery(
+  sql: string,
+  params: Record<string, unknown> = {}
+): TranslatedQuery {
+  const values: Record<string, unknown> = {};
+
+  let text = sql
+    .replace(/\bIN\s+(\{\w+:Array\([^}]+\)\})/gi, 'IN (SELECT value FROM json_each($1))')
+    .replace(/\{(\w+):([^}]+)\}/g, (_match, name: string, type: string) => {
+      if (!(name in params)) {
+        throw new Error(`Missing query parameter: ${name}`);
+      }
+      values[name] = toSqliteValue(params[name], type);
+      return `@${name}`;
+    });
+
+  text = text
+    .replace(/ALTER\s+TABLE\s+(\w+)\s+UPDATE\s+/gi, 'UPDATE $1 SET ')
+    .replace(/ALTER\s+TABLE\s+(\w+)\s+DELETE\s+WHERE/gi, 'DELETE FROM $1 WHERE')
+    .replace(/^(\s*)INSERT\s+INTO/i, '$1INSERT OR REPLACE INTO')
+    .replace(
+      /(now\(\)|@\w+|[\w.]+)\s*([+-])\s*INTERVAL\s+(\d+)\s+(SECOND|MINUTE|HOUR|DAY|WEEK)/gi,
+      (_match, left: string, sign: string, amount: string, unit: string) => {
+        const seconds = parseInt(amount) * INTERVAL_SECONDS[unit.toUpperCase()];
+        return `datetime_add(${left}, ${sign === '-' ? -seconds : seconds})`;
+      }
+    );
+
+  return { sql: text, values };
+}
+
+/**
+ * Coerce a parameter into something SQLite can bind, guided by its
+ * ClickHouse type
+ */
+function toSqliteValue(value: unknown, type: string): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (type.includes('DateTime') && (typeof value === 'string' || typeof value === 'number')) {
+    return new Date(value).toISOString();
+  }
+  if (Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+export class SqliteDatabase implements Database {
+  readonly dialect = 'sqlite';
+  private readonly db: BetterSqlite3.Database;
+
+  constructor(path = ':memory:') {
+    this.db = new BetterSqlite3(path);
+    this.db.pragma('journal_mode = WAL');
+    registerClickHouseFunctions(this.db);
+  }
+
+  async query<T>(sql: string, params?: Record<string, unknown>): Promise<T[]> {
+    const { sql: text, values } = translateQuery(sql, params);
+    const stmt = this.db.prepare(text);
+    const columns = stmt.columns();
+    const rows = stmt.all(values) as Record<string, unknown>[];
+
+    return rows.map((row) => {
+      for (const column of columns) {
+        row[column.name] = fromSqliteValue(row[column.name], column.type);
+      }
+      return row as T;
+    });
+  }
+
+  async execute(sql: string, params?: Record<string, unknown>): Promise<void> {
+    const { sql: text, values } = translateQuery(sql, params);
+    this.db.prepare(text).run(values);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+/**
+ * Decode stored values using the column's declared type
+ */
+function fromSqliteValue(value: unknown, declaredType: string | null): unknown {
+  if (value === null || !declaredType) {
+    return value;
+  }
+  switch (declaredType.toUpperCase()) {
+    case 'TEXT_ARRAY':
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    case 'BOOLEAN':
+      return Boolean(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Register the ClickHouse functions our SQL relies on
+ */
+function registerClickHouseFunctions(db: BetterSqlite3.Database): void {
+  db.function('now', { deterministic: false }, () => new Date().toISOString());
+
+  db.function('datetime_add', (value: unknown, seconds: unknown) => {
+    if (value === null) return null;
+    const time = new Date(value as string).getTime() + Number(seconds) * 1000;
+    return new Date(time).toISOString();
+  });
+
+  db.function('dateDiff', (unit: unknown, start: unknown, end: unknown) => {
+    if (start === null || end === null) return null;
+    const seconds = INTERVAL_SECONDS[String(unit).toUpperCase()] ?? 1;
+    const diffMs = new Date(end as string).getTime() - new Date(start as string).getTime();
+    return Math.floor(diffMs / 1000 / seconds);
+  });
+
+  db.function('pow', (base: unknown, exponent: unknown) => Math.pow(Number(base), Number(exponent)));
+
+  db.function('greatest', { varargs: true }, (...values: unknown[]) => Math.max(...values.map(Number)));
+  db.function('least', { varargs: true }, (...values: unknown[]) => Math.min(...values.map(Number)));
+
+  // has(array, element) over a TEXT_ARRAY column
+  db.function('has', (array: unknown, element: unknown) =>
+    typeof array === 'string' && (JSON.parse(array) as unknown[]).includes(element) ? 1 : 0
+  );
+
+  db.aggregate('countIf', {
+    start: 0,
+    step: (count: number, condition: unknown) => count + (condition ? 1 : 0),
+  });
+
+  // argMax(value, key): value from the row with the greatest key
+  type ArgMax = [value: unknown, key: number | string] | null;
+  db.aggregate('argMax', {
+    start: () => null as ArgMax,
+    step: (best: ArgMax, value: unknown, key?: unknown): ArgMax =>
+      best === null || (key as number | string) > best[1] ? [value, key as number | string] : best,
+    result: (best: ArgMax) => (best === null ? null : best[0]),
+  });
+
+  db.aggregate('sumIf', {
+    start: 0,
+    step: (sum: number, value: unknown, condition?: unknown) => sum + (condition ? Number(value) : 0),
+  });
+}
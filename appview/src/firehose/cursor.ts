@@ -0,0 +1,127 @@
+/**
+ * Firehose Cursor Store
+ *
+ * Records the last fully-indexed event sequence number per source, so
+ * /health can show how far each source has got and how far behind it is.
+ *
+ * Stored in the firehose_cursors table, one row per source: SQLite
+ * replaces it, ClickHouse merges down to the highest seq. A write only
+ * lands if it moves the cursor forward, and reads take the highest seq,
+ * so late or concurrent writes can't move a source back. Only reset()
+ * takes a source back to the start.
+ */
+
+import { Database } from '../db/index.js';
+
+export interface FirehoseCursor {
+  source: string;         // e.g. the Tap channel URL
+  seq: number;            // Last event id that was fully indexed
+  eventTime?: string;     // Commit time of that event (from its rev), if known
+  live: boolean;          // false while Tap is still backfilling
+  updatedAt: string;
+  lagMs?: number;         // How far behind the network we are
+}
+
+interface CursorRow {
+  source: string;
+  seq: number;
+  event_time: string | null;
+  live: number | boolean;
+  updated_at: string;
+}
+
+export class CursorStore {
+  constructor(private readonly db: Database) {}
+
+  async get(source: string): Promise<FirehoseCursor | null> {
+    const rows = await this.db.query<CursorRow>(`
+      SELECT source, seq, event_time, live, updated_at
+      FROM firehose_cursors
+      WHERE source = {source:String}
+      ORDER BY seq DESC
+      LIMIT 1
+    `, { source });
+
+    return rows.length > 0 ? toCursor(rows[0]) : null;
+  }
+
+  async set(
+    source: string,
+    seq: number,
+    options: { eventTime?: Date; live?: boolean } = {}
+  ): Promise<void> {
+    await this.db.execute(`
+      INSERT INTO firehose_cursors (source, seq, event_time, live, updated_at)
+      SELECT {source:String}, {seq:UInt64}, {eventTime:Nullable(DateTime)}, {live:Bool}, {updatedAt:DateTime}
+      WHERE {seq:UInt64} > (
+        SELECT coalesce(max(seq), 0) FROM firehose_cursors WHERE source = {source:String}
+      )
+    `, {
+      source,
+      seq,
+      eventTime: options.eventTime ?? null,
+      live: options.live ?? true,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Forget a source's cursor, e.g. when its event ids have restarted
+   */
+  async reset(source: string): Promise<void> {
+    await this.db.execute(`
+      DELETE FROM firehose_cursors WHERE source = {source:String}
+    `, { source });
+  }
+
+  /**
+   * Current cursor for every known source (for /health)
+   */
+  async list(): Promise<FirehoseCursor[]> {
+    const rows = await this.db.query<CursorRow>(`
+      SELECT c.source, c.seq, c.event_time, c.live, c.updated_at
+      FROM firehose_cursors c
+      INNER JOIN (
+        SELECT source, max(seq) AS latest
+        FROM firehose_cursors
+        GROUP BY source
+      ) l ON c.source = l.source AND c.seq = l.latest
+      ORDER BY c.source
+    `);
+
+    return rows.map(toCursor);
+  }
+}
+
+function toCursor(row: CursorRow): FirehoseCursor {
+  return {
+    source: row.source,
+    seq: Number(row.seq),
+    eventTime: row.event_time ?? undefined,
+    live: Boolean(row.live),
+    updatedAt: row.updated_at,
+    lagMs: row.event_time
+      ? Math.max(0, Date.now() - new Date(row.event_time).getTime())
+      : undefined,
+  };
+}
+
+const TID_ALPHABET = '234567abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Decode the timestamp embedded in a TID (e.g. a commit rev).
+ *
+ * A TID is 13 base32-sortable chars encoding 53 bits of microseconds
+ * since the epoch followed by a 10-bit clock id.
+ */
+export function tidToDate(tid: string): Date | undefined {
+  if (!/^[2-7a-z]{13}$/.test(tid)) return undefined;
+
+  let value = 0n;
+  for (const char of tid) {
+    value = (value << 5n) | BigInt(TID_ALPHABET.indexOf(char));
+  }
+
+  const micros = value >> 10n;
+  return new Date(Number(micros / 1000n));
+}
@@ -0,0 +1,98 @@
+/**
+ * Dead Letter Store
+ *
+ * Events are indexed in order, and one that fails holds back everything
+ * behind it until it is indexed: Tap redelivers it, and nothing later is
+ * acked. That is right while the failure is transient (the database is
+ * unreachable), but an event that fails the same way every time would
+ * stall its source for good. So an event gets a bounded number of
+ * retries (see withDeadLetters in ./index.ts); after those it is stored
+ * in dead_letters with the last error, and acked so the stream moves on.
+ *
+ * Dead letters are kept for an operator to inspect, and counted in
+ * /health. Nothing replays them - once the cause is fixed, the records
+ * can be re-indexed by resyncing their repos.
+ */
+
+import { Database } from '../db/index.js';
+import type { TapEvent } from './tap.js';
+
+export interface DeadLetter {
+  source: string;
+  eventId: number;
+  /** AT URI of the record, for record events */
+  uri?: string;
+  event: TapEvent;
+  error: string;
+  attempts: number;
+  firstFailedAt: Date;
+  deadAt: Date;
+}
+
+interface DeadLetterRow {
+  source: string;
+  event_id: number;
+  uri: string;
+  event: string;
+  error: string;
+  attempts: number;
+  first_failed_at: string;
+  dead_at: string;
+}
+
+export class DeadLetterStore {
+  constructor(private readonly db: Database) {}
+
+  async add(letter: DeadLetter): Promise<void> {
+    await this.db.execute(`
+      INSERT INTO dead_letters (
+        source, event_id, uri, event, error, attempts, first_failed_at, dead_at
+      ) VALUES (
+        {source:String}, {eventId:UInt64}, {uri:String}, {event:String}, {error:String},
+        {attempts:UInt32}, {firstFailedAt:DateTime}, {deadAt:DateTime}
+      )
+    `, {
+      source: letter.source,
+      eventId: letter.eventId,
+      uri: letter.uri ?? '',
+      event: JSON.stringify(letter.event),
+      error: letter.error,
+      attempts: letter.attempts,
+      firstFailedAt: letter.firstFailedAt,
+      deadAt: letter.deadAt,
+    });
+  }
+
+  /**
+   * Every dead letter of `source`, oldest first
+   */
+  async list(source: string): Promise<DeadLetter[]> {
+    const rows = await this.db.query<DeadLetterRow>(`
+      SELECT source, event_id, uri, event, error, attempts, first_failed_at, dead_at
+      FROM dead_letters
+      WHERE source = {source:String}
+      ORDER BY dead_at, event_id
+    `, { source });
+
+    return rows.map(row => ({
+      source: row.source,
+      eventId: Number(row.event_id),
+      uri: row.uri || undefined,
+      event: JSON.parse(row.event) as TapEvent,
+      error: row.error,
+      attempts: Number(row.attempts),
+      firstFailedAt: new Date(row.first_failed_at),
+      deadAt: new Date(row.dead_at),
+    }));
+  }
+
+  /**
+   * How many dead letters each source has (for /health)
+   */
+  async counts(): Promise<Record<string, number>> {
+    const rows = await this.db.query<{ source: string; count: number }>(`
+      SELECT source, count(*) AS count FROM dead_letters GROUP BY source ORDER BY source
+    `);
+    return Object.fromEntries(rows.map(row => [row.source, Number(row.count)]));
+  }
+}
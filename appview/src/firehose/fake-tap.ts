@@ -0,0 +1,97 @@
+/**
+ * Fake Tap Server
+ *
+ * Replays recorded Tap events from JSON fixtures so the firehose consumer
+ * can be exercised locally without a relay or a real Tap instance.
+ *
+ *   npm run fake-tap -- fixtures/tap/basic.json
+ *   TAP_URL=ws://localhost:2480/channel npm run firehose
+ *
+ * Like Tap, every unacknowledged event is redelivered when the consumer
+ * reconnects, so ack-after-index behaviour can be observed end to end.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { WebSocketServer } from 'ws';
+import { TapEvent, parseTapEvent } from './tap.js';
+
+/**
+ * Load events from a fixture file - either a JSON array or one event per line
+ */
+export async function loadTapFixtures(path: string): Promise<TapEvent[]> {
+  const content = (await readFile(path, 'utf8')).trim();
+  const raw: unknown[] = content.startsWith('[')
+    ? JSON.parse(content)
+    : content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+  return raw.map(event => parseTapEvent(event)).sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Serve fixture events on ws://localhost:<port>/channel
+ */
+export function startFakeTap(events: TapEvent[], port = 2480) {
+  const acked = new Set<number>();
+  const server = new WebSocketServer({ port, path: '/channel' });
+
+  server.on('connection', (socket) => {
+    for (const event of events) {
+      if (!acked.has(event.id)) {
+        socket.send(JSON.stringify(event));
+      }
+    }
+
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString()) as { type?: string; id?: number };
+      if (message.type === 'ack' && typeof message.id === 'number') {
+        acked.add(message.id);
+        if (acked.size === events.length) {
+          console.log(`[fake-tap] All ${events.length} events acknowledged`);
+        }
+      }
+    });
+  });
+
+  return {
+    acked,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Deliver fixture events to a webhook endpoint, retrying until each is
+ * accepted (like Tap's webhook mode). Returns the ids that were acked.
+ */
+export async function replayToWebhook(
+  url: string,
+  events: TapEvent[],
+  maxAttempts = 3
+): Promise<number[]> {
+  const acked: number[] = [];
+
+  for (const event of events) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      });
+      if (res.ok) {
+        acked.push(event.id);
+        break;
+      }
+      console.warn(`[fake-tap] Event ${event.id} rejected (${res.status}), attempt ${attempt}`);
+    }
+  }
+
+  return acked;
+}
+
+// Allow running standalone: npm run fake-tap -- <fixture> [port]
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [fixture = 'fixtures/tap/basic.json', port = '2480'] = process.argv.slice(2);
+  loadTapFixtures(fixture).then((events) => {
+    startFakeTap(events, parseInt(port));
+    console.log(`[fake-tap] Serving ${events.length} events on ws://localhost:${port}/channel`);
+  }).catch(console.error);
+}
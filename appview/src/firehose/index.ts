@@ -3,19 +3,57 @@
  * 
  * Connects to the ATProto firehose and filters for app.molt.* records.
  * Uses Tap (https://docs.bsky.app/blog/introducing-tap) for efficient firehose consumption.
+ * See ./tap.ts for the event format and transports.
  * 
- * Records we index:
- *   - app.molt.post             -> molt_posts table
- *   - app.molt.submolt          -> molt_submolts table
- *   - app.molt.vote             -> molt_votes table
- *   - app.molt.modAction        -> molt_mod_actions table
- *   - app.molt.appeal           -> molt_appeals table
- *   - app.molt.appealResolution -> molt_appeal_resolutions table
- *   - app.molt.testimony        -> molt_testimonies table
- *   - app.molt.standing         -> molt_standing table
+ * Records we index (create, update and delete):
+ *   - app.molt.post             -> posts (+ post_versions) table
+ *   - app.molt.submolt          -> submolts (+ submolt_versions) table
+ *   - app.molt.vote             -> votes table
+ *   - app.molt.modAction        -> mod_actions table
+ *   - app.molt.appeal           -> appeals table
+ *   - app.molt.appealResolution -> appeal_resolutions table
+ *   - app.molt.testimony        -> testimonies table
+ *   - app.molt.standing         -> standing table
+ * 
+ * Every create and update is validated against its lexicon (../lexicon)
+ * before it reaches a handler, so handlers can rely on the record shape.
  */
 
 import { db } from '../db/index.js';
+import {
+  ValidationIssue,
+  formatValidationErrors,
+  validateRecord,
+} from '../lexicon/index.js';
+import {
+  handleCreatePost, handleUpdatePost, handleDeletePost,
+  handleCreateVote, handleUpdateVote, handleDeleteVote,
+  handleCreateTestimony, handleUpdateTestimony, handleDeleteTestimony,
+  handleCreateSubmolt, handleDeleteSubmolt,
+  handleCreateModAction, handleUpdateModAction, handleDeleteModAction,
+  handleCreateAppeal, handleDeleteAppeal,
+  handleCreateAppealResolution, handleDeleteAppealResolution,
+  handleCreateStanding, handleDeleteStanding,
+} from '../api/handlers/index.js';
+import type {
+  AppMoltPost,
+  AppMoltVote,
+  AppMoltTestimony,
+  AppMoltSubmolt,
+  AppMoltModAction,
+  AppMoltAppeal,
+  AppMoltAppealResolution,
+  AppMoltStanding,
+} from '../lexicon/generated/index.js';
+import { Clock, systemClock } from '../scheduler/clock.js';
+import { CursorStore, tidToDate } from './cursor.js';
+import { DeadLetterStore } from './dead-letters.js';
+import {
+  TapEvent,
+  TapRecordAction,
+  TapWebSocketSource,
+  startTapWebhookServer,
+} from './tap.js';
 
 const MOLT_COLLECTIONS = [
   'app.molt.post',
@@ -34,84 +72,351 @@ function isMoltCollection(collection: string): collection is MoltCollection {
   return MOLT_COLLECTIONS.includes(collection as MoltCollection);
 }
 
+/**
+ * A single record operation delivered by Tap
+ */
+export interface RecordOp {
+  action: TapRecordAction;
+  collection: MoltCollection;
+  did: string;
+  rkey: string;
+  cid?: string;
+  record?: unknown;
+  rev?: string;           // Repo revision (a TID) the op was committed in
+  live: boolean;
+}
+
+type HandlerResult = {
+  success: boolean;
+  error?: string;
+  retryable?: boolean;
+  validationErrors?: ValidationIssue[];   // Set when the record fails its lexicon
+};
+
+/**
+ * Thrown when a record couldn't be indexed for a transient reason, so the
+ * event must not be acked
+ */
+export class IndexingError extends Error {
+  constructor(uri: string, reason?: string) {
+    super(`Failed to index ${uri}: ${reason ?? 'unknown error'}`);
+    this.name = 'IndexingError';
+  }
+}
+
 /**
  * Handle a record from the firehose
+ * 
+ * Must only resolve once the record is durably indexed - the caller
+ * acknowledges the event to Tap as soon as this returns. Records that fail
+ * lexicon validation or that the handlers reject are logged and skipped;
+ * they would fail the same way on every redelivery.
+ */
+export async function handleRecord(op: RecordOp): Promise<HandlerResult> {
+  const uri = `at://${op.did}/${op.collection}/${op.rkey}`;
+
+  const result = op.action === 'delete'
+    ? await routeDelete(op.collection, uri)
+    : await routeWrite(op, uri);
+
+  if (!result.success) {
+    if (result.retryable) {
+      throw new IndexingError(uri, result.error);
+    }
+    console.warn(`[firehose] Rejected ${op.action} of ${uri}: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * Validate creates and updates against the collection's lexicon, then
+ * route them to the write handlers
  */
-async function handleRecord(
-  collection: MoltCollection,
-  did: string,
-  rkey: string,
-  record: unknown
-) {
-  const uri = `at://${did}/${collection}/${rkey}`;
-  
+async function routeWrite(op: RecordOp, uri: string): Promise<HandlerResult> {
+  const { action, collection, did } = op;
+
+  const validation = validateRecord(collection, op.record);
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: `Invalid record: ${formatValidationErrors(validation.errors)}`,
+      validationErrors: validation.errors,
+    };
+  }
+
+  const isUpdate = action === 'update';
+  const params = <T>() => ({ uri, cid: op.cid ?? '', did, record: op.record as T });
+
   switch (collection) {
     case 'app.molt.post':
-      await db.indexPost(uri, did, rkey, record);
-      break;
+      return isUpdate
+        ? handleUpdatePost(params<AppMoltPost.Record>(), db)
+        : handleCreatePost(params<AppMoltPost.Record>(), db);
     case 'app.molt.submolt':
-      await db.indexSubmolt(uri, did, rkey, record);
-      break;
+      // Submolts are stored as their latest version, and versioned by commit time
+      return handleCreateSubmolt({
+        ...params<AppMoltSubmolt.Record>(),
+        committedAt: op.rev ? tidToDate(op.rev) : undefined,
+      }, db);
     case 'app.molt.vote':
-      await db.indexVote(uri, did, rkey, record);
-      break;
-    case 'app.molt.modAction':
-      await db.indexModAction(uri, did, rkey, record);
-      break;
+      return isUpdate
+        ? handleUpdateVote(params<AppMoltVote.Record>(), db)
+        : handleCreateVote(params<AppMoltVote.Record>(), db);
+    case 'app.molt.modAction': {
+      // Authority is judged at commit time, which the author can't backdate
+      const action = {
+        ...params<AppMoltModAction.Record>(),
+        committedAt: op.rev ? tidToDate(op.rev) : undefined,
+      };
+      return isUpdate ? handleUpdateModAction(action, db) : handleCreateModAction(action, db);
+    }
     case 'app.molt.appeal':
-      await db.indexAppeal(uri, did, rkey, record);
-      break;
+      return handleCreateAppeal(params<AppMoltAppeal.Record>(), db);
     case 'app.molt.appealResolution':
-      await db.indexAppealResolution(uri, did, rkey, record);
-      break;
+      return handleCreateAppealResolution(params<AppMoltAppealResolution.Record>(), db);
     case 'app.molt.testimony':
-      await db.indexTestimony(uri, did, rkey, record);
-      break;
+      return isUpdate
+        ? handleUpdateTestimony(params<AppMoltTestimony.Record>(), db)
+        : handleCreateTestimony(params<AppMoltTestimony.Record>(), db);
     case 'app.molt.standing':
-      await db.indexStanding(uri, did, rkey, record);
-      break;
+      return handleCreateStanding(params<AppMoltStanding.Record>(), db);
     default:
       // TypeScript will catch if we miss a case
       const _exhaustive: never = collection;
-      console.log(`[firehose] Unhandled collection: ${_exhaustive}`);
+      return { success: false, error: `Unhandled collection: ${_exhaustive}` };
+  }
+}
+
+/**
+ * Route deletes to the delete handlers
+ */
+async function routeDelete(collection: MoltCollection, uri: string): Promise<HandlerResult> {
+  switch (collection) {
+    case 'app.molt.post':
+      return handleDeletePost(uri, db);
+    case 'app.molt.submolt':
+      return handleDeleteSubmolt(uri, db);
+    case 'app.molt.vote':
+      return handleDeleteVote(uri, db);
+    case 'app.molt.modAction':
+      return handleDeleteModAction(uri, db);
+    case 'app.molt.appeal':
+      return handleDeleteAppeal(uri, db);
+    case 'app.molt.appealResolution':
+      return handleDeleteAppealResolution(uri, db);
+    case 'app.molt.testimony':
+      return handleDeleteTestimony(uri, db);
+    case 'app.molt.standing':
+      return handleDeleteStanding(uri, db);
+    default:
+      const _exhaustive: never = collection;
+      return { success: false, error: `Unhandled collection: ${_exhaustive}` };
   }
 }
 
+/**
+ * Handle a single Tap event
+ * 
+ * Records outside app.molt.* and identity events are accepted without
+ * indexing so they get acked and don't block the stream.
+ */
+export async function handleTapEvent(event: TapEvent) {
+  if (event.type !== 'record') {
+    return;
+  }
+
+  const { collection, did, rkey, action, cid, record, rev, live } = event.record;
+  if (!isMoltCollection(collection)) {
+    return;
+  }
+
+  await handleRecord({ action, collection, did, rkey, cid, record, rev, live });
+}
+
+// A source's ids only go this far back when they have started over (e.g.
+// a re-provisioned Tap); a retried event is never this old.
+const MAX_REDELIVERY_GAP = 1000;
+
+/**
+ * Wrap an event handler so it records each source's progress in its
+ * cursor once an event is indexed.
+ * 
+ * Every event is handed to the handler, including ones at or below the
+ * cursor: Tap keeps delivering later events while it retries a failed
+ * webhook, so an id below the cursor may never have been indexed. The
+ * handlers are idempotent, so indexing a redelivered event again is
+ * harmless. The cursor only reports progress (see /health). An event far
+ * below it means the source's ids have restarted, so the cursor is reset
+ * rather than left reporting the old numbering.
+ */
+export async function withCursor(
+  source: string,
+  handler: (event: TapEvent) => Promise<void>,
+  cursors = new CursorStore(db)
+): Promise<(event: TapEvent) => Promise<void>> {
+  const stored = await cursors.get(source);
+  let lastSeq = stored?.seq ?? 0;
+
+  if (stored) {
+    console.log(`[firehose] ${source} last indexed event ${stored.seq}`);
+  }
+
+  return async (event) => {
+    await handler(event);
+
+    if (lastSeq - event.id > MAX_REDELIVERY_GAP) {
+      console.warn(
+        `[firehose] ${source} sent event ${event.id}, far behind the cursor at ${lastSeq}: ` +
+        'its event ids have restarted, resetting the cursor'
+      );
+      await cursors.reset(source);
+      lastSeq = 0;
+    }
+
+    const isRecord = event.type === 'record';
+    await cursors.set(source, event.id, {
+      eventTime: isRecord ? tidToDate(event.record.rev) : undefined,
+      live: isRecord ? event.record.live : true,
+    });
+    lastSeq = Math.max(lastSeq, event.id);
+  };
+}
+
+export interface RetryLimit {
+  /** Failed deliveries of an event before it is dead-lettered (default 10) */
+  maxAttempts?: number;
+  /** Least time an event is retried for, from its first failure (default 5 minutes) */
+  minRetryMs?: number;
+  clock?: Clock;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_MIN_RETRY_MS = 5 * 60_000;
+
+/**
+ * Wrap an event handler so that an event which keeps failing is set aside
+ * in dead_letters rather than retried forever (see ./dead-letters.ts).
+ *
+ * A failed delivery dead-letters the event once it has failed maxAttempts
+ * times and first failed at least minRetryMs ago, so a short outage
+ * can't use up its retries. If the dead letter can't be stored either,
+ * the database is likely down: the original error is thrown and the
+ * event is retried as before. Failures are counted in memory, so a
+ * restart gives every event its full retries again.
+ */
+export function withDeadLetters(
+  source: string,
+  handler: (event: TapEvent) => Promise<void>,
+  deadLetters = new DeadLetterStore(db),
+  limit: RetryLimit = {}
+): (event: TapEvent) => Promise<void> {
+  const maxAttempts = limit.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const minRetryMs = limit.minRetryMs ?? DEFAULT_MIN_RETRY_MS;
+  const clock = limit.clock ?? systemClock;
+  const failures = new Map<number, { attempts: number; firstFailedAt: Date }>();
+
+  return async (event) => {
+    try {
+      await handler(event);
+      failures.delete(event.id);
+      return;
+    } catch (error) {
+      const now = clock.now();
+      const failure = failures.get(event.id) ?? { attempts: 0, firstFailedAt: now };
+      failure.attempts++;
+      failures.set(event.id, failure);
+
+      if (failure.attempts < maxAttempts || now.getTime() - failure.firstFailedAt.getTime() < minRetryMs) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      try {
+        await deadLetters.add({
+          source,
+          eventId: event.id,
+          uri: event.type === 'record'
+            ? `at://${event.record.did}/${event.record.collection}/${event.record.rkey}`
+            : undefined,
+          event,
+          error: message,
+          attempts: failure.attempts,
+          firstFailedAt: failure.firstFailedAt,
+          deadAt: now,
+        });
+      } catch {
+        throw error;
+      }
+      failures.delete(event.id);
+      console.error(
+        `[firehose] ${source} gave up on event ${event.id} after ${failure.attempts} attempts ` +
+        `and moved it to dead_letters: ${message}`
+      );
+    }
+  };
+}
+
+interface FirehoseConsumerOptions {
+  mode?: 'websocket' | 'webhook';
+  tapUrl?: string;          // WebSocket mode: Tap channel URL
+  tapAdminPassword?: string;
+  webhookPort?: number;     // Webhook mode: port Tap delivers to
+  source?: string;          // Cursor and dead letter key (defaults to the Tap URL / 'tap-webhook')
+}
+
 /**
  * Start the firehose consumer
  * 
- * TODO: Integrate with Tap for proper firehose consumption
- * For now, this is a placeholder that logs the intended behavior.
+ * Tap handles the hard parts of firehose consumption for us:
+ *   - Efficient WebSocket connection to the relay
+ *   - Automatic backfill of newly tracked repos (live: false events)
+ *   - Verification of signatures
+ *   - Redelivery of anything we haven't acked
+ * 
+ * An event still failing after its retries is dead-lettered (see
+ * withDeadLetters) so it can't stall the stream.
+ * 
+ * Configure Tap to track molt repos, e.g.
+ *   TAP_SIGNAL_COLLECTION=app.molt.post
+ *   TAP_COLLECTION_FILTERS=app.molt.*
+ * 
+ * Then either let us connect to ws://localhost:2480/channel (default), or
+ * point TAP_WEBHOOK_URL at this process and set TAP_MODE=webhook.
  */
-export function startFirehoseConsumer() {
+export async function startFirehoseConsumer(options: FirehoseConsumerOptions = {}) {
+  const mode = options.mode ?? (process.env.TAP_MODE === 'webhook' ? 'webhook' : 'websocket');
+
   console.log('[firehose] Starting firehose consumer...');
   console.log('[firehose] Watching collections:', MOLT_COLLECTIONS.join(', '));
-  
-  // TODO: Connect to firehose via Tap
-  // 
-  // Tap handles:
-  //   - Efficient WebSocket connection to firehose
-  //   - Automatic reconnection and backfill
-  //   - Cursor management for resumption
-  //   - Verification of signatures
-  //
-  // To use with Tap, we'd configure it to:
-  //   1. Filter for app.molt.* collections using TAP_SIGNAL_COLLECTION
-  //   2. Connect to our handleRecord via webhooks or websocket
-  //
-  // Example Tap setup:
-  //   TAP_SIGNAL_COLLECTION=app.molt.post
-  //   (This auto-tracks any repo that creates an app.molt.post)
-  //
-  // Then connect via:
-  //   websocat ws://localhost:2480/channel
-  //   or configure webhook delivery to our API
-  
-  console.log('[firehose] TODO: Connect to firehose via Tap');
-  console.log('[firehose] See: https://docs.bsky.app/blog/introducing-tap');
+
+  if (mode === 'webhook') {
+    const port = options.webhookPort ?? parseInt(process.env.TAP_WEBHOOK_PORT || '2481');
+    const name = options.source ?? 'tap-webhook';
+    const onEvent = await withCursor(name, withDeadLetters(name, handleTapEvent));
+    const server = startTapWebhookServer(onEvent, port);
+    return {
+      stop: async () => {
+        server.close();
+      },
+    };
+  }
+
+  const url = options.tapUrl ?? process.env.TAP_URL ?? 'ws://localhost:2480/channel';
+  const name = options.source ?? url;
+  const source = new TapWebSocketSource({
+    url,
+    adminPassword: options.tapAdminPassword ?? process.env.TAP_ADMIN_PASSWORD,
+    onEvent: await withCursor(name, withDeadLetters(name, handleTapEvent)),
+  });
+  source.start();
+
+  return {
+    stop: () => source.stop(),
+  };
 }
 
 // Allow running standalone: npm run firehose
 if (import.meta.url === `file://${process.argv[1]}`) {
-  startFirehoseConsumer();
+  startFirehoseConsumer().catch(console.error);
 }
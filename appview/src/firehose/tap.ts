@@ -0,0 +1,274 @@
+/**
+ * Tap Event Stream
+ *
+ * Types and transports for consuming events from Tap
+ * (https://docs.bsky.app/blog/introducing-tap).
+ *
+ * Tap delivers two kinds of events, either over a WebSocket channel or
+ * as webhook POSTs:
+ *
+ *   {"id": 1, "type": "record", "record": {
+ *      "live": true, "rev": "...", "did": "did:plc:...",
+ *      "collection": "app.molt.post", "rkey": "...",
+ *      "action": "create", "cid": "bafyrei...", "record": {...}}}
+ *
+ *   {"id": 2, "type": "identity", "identity": {
+ *      "did": "did:plc:...", "handle": "alice.test",
+ *      "is_active": true, "status": "active"}}
+ *
+ * Historical (backfill) events arrive with `live: false`.
+ *
+ * An event is only acknowledged after the handler resolves. Over WebSocket
+ * that means sending {"type": "ack", "id": <id>}; over webhooks it means
+ * answering with a 2xx. Unacknowledged events are redelivered by Tap.
+ */
+
+import { Hono } from 'hono';
+import { serve } from '@hono/node-server';
+import WebSocket from 'ws';
+
+export type TapRecordAction = 'create' | 'update' | 'delete';
+
+export interface TapRecordEvent {
+  id: number;
+  type: 'record';
+  record: {
+    live: boolean;
+    rev: string;
+    did: string;
+    collection: string;
+    rkey: string;
+    action: TapRecordAction;
+    cid?: string;           // Absent on deletes
+    record?: unknown;       // Absent on deletes
+  };
+}
+
+export interface TapIdentityEvent {
+  id: number;
+  type: 'identity';
+  identity: {
+    did: string;
+    handle: string;
+    is_active: boolean;
+    status: string;
+  };
+}
+
+export type TapEvent = TapRecordEvent | TapIdentityEvent;
+
+export type TapEventHandler = (event: TapEvent) => Promise<void>;
+
+/**
+ * Thrown when Tap sends something we can't interpret
+ */
+export class TapProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TapProtocolError';
+  }
+}
+
+const RECORD_ACTIONS: readonly TapRecordAction[] = ['create', 'update', 'delete'];
+
+/**
+ * Parse and sanity-check a raw Tap event payload
+ */
+export function parseTapEvent(raw: string | unknown): TapEvent {
+  let data: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new TapProtocolError('Event is not valid JSON');
+    }
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new TapProtocolError('Event is not an object');
+  }
+
+  const event = data as Record<string, unknown>;
+  if (typeof event.id !== 'number') {
+    throw new TapProtocolError('Event is missing a numeric id');
+  }
+
+  if (event.type === 'record') {
+    const record = event.record as Record<string, unknown> | undefined;
+    if (
+      !record ||
+      typeof record.did !== 'string' ||
+      typeof record.collection !== 'string' ||
+      typeof record.rkey !== 'string' ||
+      !RECORD_ACTIONS.includes(record.action as TapRecordAction)
+    ) {
+      throw new TapProtocolError(`Malformed record event ${event.id}`);
+    }
+    if (record.action !== 'delete' && record.record === undefined) {
+      throw new TapProtocolError(`Record event ${event.id} has no record body`);
+    }
+    return event as unknown as TapRecordEvent;
+  }
+
+  if (event.type === 'identity') {
+    const identity = event.identity as Record<string, unknown> | undefined;
+    if (!identity || typeof identity.did !== 'string') {
+      throw new TapProtocolError(`Malformed identity event ${event.id}`);
+    }
+    return event as unknown as TapIdentityEvent;
+  }
+
+  throw new TapProtocolError(`Unknown event type: ${String(event.type)}`);
+}
+
+interface TapWebSocketOptions {
+  url: string;                  // e.g. ws://localhost:2480/channel
+  onEvent: TapEventHandler;
+  adminPassword?: string;       // TAP_ADMIN_PASSWORD, if Tap was started with one
+  reconnectDelayMs?: number;    // Initial backoff (default 1s)
+  maxReconnectDelayMs?: number; // Backoff ceiling (default 30s)
+}
+
+/**
+ * WebSocket consumer for Tap's /channel endpoint.
+ *
+ * Events are processed strictly one at a time, in delivery order. If the
+ * handler fails, the connection is dropped without acking so that Tap
+ * redelivers the event (and everything after it) on reconnect.
+ */
+export class TapWebSocketSource {
+  private socket?: WebSocket;
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+  private reconnectDelay: number;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  constructor(private readonly options: TapWebSocketOptions) {
+    this.reconnectDelay = options.reconnectDelayMs ?? 1000;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    await this.queue;
+  }
+
+  private connect(): void {
+    const { url, adminPassword } = this.options;
+    const headers: Record<string, string> = {};
+    if (adminPassword) {
+      headers.Authorization = `Basic ${Buffer.from(`admin:${adminPassword}`).toString('base64')}`;
+    }
+
+    const socket = new WebSocket(url, { headers });
+    this.socket = socket;
+    this.queue = Promise.resolve();
+
+    socket.on('open', () => {
+      console.log(`[tap] Connected to ${url}`);
+      this.reconnectDelay = this.options.reconnectDelayMs ?? 1000;
+    });
+
+    socket.on('message', (data) => {
+      const raw = data.toString();
+      this.queue = this.queue.then(() => this.process(socket, raw));
+    });
+
+    socket.on('error', (err) => {
+      console.error('[tap] WebSocket error:', err.message);
+    });
+
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private async process(socket: WebSocket, raw: string): Promise<void> {
+    // A previous failure already closed this connection; everything queued
+    // behind it will be redelivered.
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    let event: TapEvent;
+    try {
+      event = parseTapEvent(raw);
+    } catch (err) {
+      // Nothing we can do with a malformed event - and without an id we
+      // can't ack it either. Log and move on.
+      console.error('[tap] Dropping malformed event:', (err as Error).message);
+      return;
+    }
+
+    try {
+      await this.options.onEvent(event);
+    } catch (err) {
+      console.error(`[tap] Failed to handle event ${event.id}, reconnecting:`, err);
+      socket.close();
+      return;
+    }
+
+    socket.send(JSON.stringify({ type: 'ack', id: event.id }));
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(delay * 2, this.options.maxReconnectDelayMs ?? 30_000);
+    console.log(`[tap] Disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+}
+
+/**
+ * Hono app that accepts Tap webhook deliveries.
+ *
+ * Responds 200 once the handler has indexed the event, 400 for events
+ * we can never process, and 500 otherwise so that Tap retries.
+ */
+export function createTapWebhookApp(onEvent: TapEventHandler): Hono {
+  const app = new Hono();
+
+  // Webhook deliveries are serialized so events are indexed in order,
+  // matching the WebSocket transport.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  app.post('/', async (c) => {
+    let event: TapEvent;
+    try {
+      event = parseTapEvent(await c.req.json());
+    } catch (err) {
+      return c.json({ error: 'InvalidRequest', message: (err as Error).message }, 400);
+    }
+
+    const result = queue.then(() => onEvent(event));
+    queue = result.catch(() => undefined);
+
+    try {
+      await result;
+      return c.json({ id: event.id });
+    } catch (err) {
+      console.error(`[tap] Failed to handle webhook event ${event.id}:`, err);
+      return c.json({ error: 'InternalError', message: 'Indexing failed' }, 500);
+    }
+  });
+
+  return app;
+}
+
+/**
+ * Start an HTTP server receiving Tap webhooks
+ */
+export function startTapWebhookServer(onEvent: TapEventHandler, port = 2481) {
+  const app = createTapWebhookApp(onEvent);
+  console.log(`[tap] Listening for webhook deliveries on port ${port}`);
+  return serve({ fetch: app.fetch, port });
+}
@@ -1,23 +1,35 @@
 /**
  * Molt AppView - Main Entry Point
  * 
- * Starts both the firehose consumer and API server.
- * For development, you can run them separately:
+ * Starts the firehose consumer, the API server and the mod action
+ * expiry scheduler. For development, you can run them separately:
  *   npm run firehose  - just the firehose consumer
  *   npm run api       - just the API server
+ *   npm run expiry    - just the expiry scheduler
+ * 
+ * Pending schema migrations are applied on startup. When running the
+ * components separately, run `npm run migrate:up` first.
  */
 
+import { db } from './db/index.js';
+import { migrate } from './db/migrate.js';
 import { startFirehoseConsumer } from './firehose/index.js';
 import { startApiServer } from './api/index.js';
+import { startExpiryScheduler } from './scheduler/expiry.js';
 
 async function main() {
   console.log('[molt] Starting Molt AppView...');
+
+  await migrate(db);
   
-  // Start firehose consumer in background
-  startFirehoseConsumer();
+  // Start firehose consumer (resumes from its stored cursor)
+  await startFirehoseConsumer();
   
   // Start API server
   await startApiServer();
+
+  // Move temporary mod actions to expired as they lapse
+  startExpiryScheduler();
 }
 
 main().catch(console.error);
@@ -0,0 +1,43 @@
+/**
+ * Record CIDs
+ *
+ * The CID a PDS assigns a record: CIDv1, dag-cbor codec, sha-256 of the
+ * record's DAG-CBOR encoding. Computing it locally lets an agent commit
+ * to a record (e.g. a knowledge snapshot) before publishing it, and lets
+ * the appview check that a fetched record is the one committed to.
+ *
+ * Records are taken as plain JSON data - strings, integers, booleans,
+ * arrays and objects. Blob and bytes values in their JSON form ($link,
+ * $bytes) aren't converted.
+ */
+
+import * as dagCbor from '@ipld/dag-cbor';
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+
+/**
+ * CID of a record value, base32-encoded ("bafyrei...")
+ */
+export async function cidForRecord(record: unknown): Promise<string> {
+  const bytes = dagCbor.encode(record);
+  const digest = await sha256.digest(bytes);
+  return CID.createV1(dagCbor.code, digest).toString();
+}
+
+/**
+ * Whether two CID strings name the same content, whatever their encoding.
+ * Anything that doesn't parse as a CID matches nothing.
+ */
+export function cidEquals(a: string, b: string): boolean {
+  const left = parseCid(a);
+  const right = parseCid(b);
+  return !!left && !!right && left.equals(right);
+}
+
+function parseCid(value: string): CID | null {
+  try {
+    return CID.parse(value);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Lexicon Codegen
+ *
+ * Generates TypeScript from the lexicons loaded by ./lexicons.ts:
+ *   generated/types/<nsid>.ts  - record, object, query param and output types
+ *   generated/client.ts        - typed XRPC client for every query/procedure
+ *   generated/index.ts         - one namespace per lexicon, plus the client
+ *
+ *   npm run codegen
+ *
+ * The output is committed. Re-run after editing lexicons/ - a changed
+ * field then fails the type-check wherever it's used.
+ *
+ * Naming follows @atproto/lex-cli: app.molt.post becomes the AppMoltPost
+ * namespace, its main record def `Record` and other defs PascalCase
+ * (`#replyRef` -> `ReplyRef`). Queries get `QueryParams` and
+ * `OutputSchema`, procedures additionally `InputSchema`.
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Lexicons, LexiconDoc, LexSchema, splitRef } from './lexicons.js';
+
+const OUTPUT_DIR = fileURLToPath(new URL('./generated', import.meta.url));
+
+const HEADER = `/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+`;
+
+/**
+ * Generated files, keyed by path relative to the output directory
+ */
+export function generate(lexicons: Lexicons): Map<string, string> {
+  const files = new Map<string, string>();
+  const docs = lexicons.all();
+
+  for (const doc of docs) {
+    files.set(typesPath(doc.id), new TypesFile(lexicons, doc).render());
+  }
+  files.set('client.ts', renderClient(docs));
+  files.set('index.ts', renderIndex(docs));
+
+  return files;
+}
+
+/**
+ * Write the generated files, replacing the previous output
+ */
+export function writeGenerated(files: Map<string, string>, outputDir = OUTPUT_DIR): void {
+  rmSync(outputDir, { recursive: true, force: true });
+
+  for (const [path, content] of files) {
+    const target = join(outputDir, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+}
+
+/**
+ * Renders the types module for one lexicon
+ */
+class TypesFile {
+  private readonly imports = new Set<string>();
+
+  constructor(
+    private readonly lexicons: Lexicons,
+    private readonly doc: LexiconDoc
+  ) {}
+
+  render(): string {
+    const blocks: string[] = [];
+
+    for (const [name, def] of Object.entries(this.doc.defs)) {
+      blocks.push(...this.renderDef(name, def));
+    }
+
+    const imports = [...this.imports].sort().map(nsid => {
+      let path = relative(dirname(typesPath(this.doc.id)), typesPath(nsid)).replace(/\.ts$/, '.js');
+      if (!path.startsWith('.')) path = `./${path}`;
+      return `import type * as ${namespaceName(nsid)} from '${path}';\n`;
+    });
+
+    return [HEADER, imports.join(''), ...blocks].filter(Boolean).join('\n');
+  }
+
+  private renderDef(name: string, def: LexSchema): string[] {
+    switch (def.type) {
+      case 'record':
+        return [declare('Record', def.description, this.objectType(def.record!, 0, { type: this.doc.id }))];
+
+      case 'query':
+      case 'procedure': {
+        const blocks = [
+          declare('QueryParams', def.parameters?.description,
+            def.parameters ? this.objectType(def.parameters, 0) : '{}'),
+        ];
+        if (def.type === 'procedure' && def.input?.schema) {
+          blocks.push(declare('InputSchema', undefined, this.typeExpr(def.input.schema, 0)));
+        }
+        if (def.output?.schema) {
+          blocks.push(declare('OutputSchema', undefined, this.typeExpr(def.output.schema, 0)));
+        }
+        return blocks;
+      }
+
+      case 'token':
+        return [`/** ${comment(def.description ?? name)} */\nexport const ${defTypeName(name, def)} = '${this.doc.id}#${name}';\n`];
+
+      case 'object': {
+        // Optional $type, so the def can be told apart inside a union
+        const type = name === 'main' ? this.doc.id : `${this.doc.id}#${name}`;
+        return [declare(defTypeName(name, def), def.description, this.objectType(def, 0, { type, optional: true }))];
+      }
+
+      default:
+        return [declare(defTypeName(name, def), def.description, this.typeExpr(def, 0))];
+    }
+  }
+
+  private typeExpr(schema: LexSchema, indent: number): string {
+    switch (schema.type) {
+      case 'object':
+      case 'params':
+        return this.objectType(schema, indent);
+      case 'ref':
+        return this.refType(schema.ref!);
+      case 'union':
+        return (schema.refs ?? []).map(ref => this.refType(ref)).join(' | ') || 'never';
+      case 'array': {
+        const items = schema.items ? this.typeExpr(schema.items, indent) : 'unknown';
+        return /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+      }
+      case 'string': {
+        const values = schema.const !== undefined ? [schema.const] : schema.enum ?? schema.knownValues;
+        return values ? values.map(literal).join(' | ') : 'string';
+      }
+      case 'integer':
+      case 'number':
+        return schema.const !== undefined ? literal(schema.const) : 'number';
+      case 'boolean':
+        return schema.const !== undefined ? String(schema.const) : 'boolean';
+      case 'bytes':
+        return 'Uint8Array';
+      case 'cid-link':
+        return '{ $link: string }';
+      default:
+        // unknown, blob
+        return 'unknown';
+    }
+  }
+
+  /**
+   * An object type literal. Records and named object defs pass the
+   * `$type` they're identified by.
+   */
+  private objectType(
+    schema: LexSchema,
+    indent: number,
+    $type?: { type: string; optional?: boolean }
+  ): string {
+    const pad = '  '.repeat(indent + 1);
+    const required = new Set(schema.required ?? []);
+    const nullable = new Set(schema.nullable ?? []);
+    const properties = Object.entries(schema.properties ?? {});
+
+    if (properties.length === 0 && !$type) {
+      return '{ [key: string]: unknown }';
+    }
+
+    const lines = $type ? [`${pad}$type${$type.optional ? '?' : ''}: '${$type.type}';`] : [];
+    for (const [name, property] of properties) {
+      if (property.description) {
+        lines.push(`${pad}/** ${comment(property.description)} */`);
+      }
+      const optional = required.has(name) ? '' : '?';
+      const type = this.typeExpr(property, indent + 1) + (nullable.has(name) ? ' | null' : '');
+      lines.push(`${pad}${name}${optional}: ${type};`);
+    }
+
+    return `{\n${lines.join('\n')}\n${'  '.repeat(indent)}}`;
+  }
+
+  private refType(ref: string): string {
+    const [nsid, name] = splitRef(ref, this.doc.id);
+    const def = this.lexicons.get(nsid)?.defs[name];
+    if (!def) {
+      throw new Error(`${this.doc.id}: unresolved ref ${ref}`);
+    }
+
+    const typeName = defTypeName(name, def);
+    if (nsid === this.doc.id) {
+      return typeName;
+    }
+    this.imports.add(nsid);
+    return `${namespaceName(nsid)}.${typeName}`;
+  }
+}
+
+/**
+ * createMoltClient(): app.molt.feed.getSubmoltPosts becomes
+ * client.app.molt.feed.getSubmoltPosts(params)
+ */
+function renderClient(docs: LexiconDoc[]): string {
+  const methods = docs.filter(doc => ['query', 'procedure'].includes(doc.defs.main?.type));
+
+  // Nest methods by NSID segment
+  interface Node { children: Map<string, Node>; doc?: LexiconDoc }
+  const root: Node = { children: new Map() };
+  for (const doc of methods) {
+    let node = root;
+    for (const segment of doc.id.split('.')) {
+      if (!node.children.has(segment)) node.children.set(segment, { children: new Map() });
+      node = node.children.get(segment)!;
+    }
+    node.doc = doc;
+  }
+
+  const renderNode = (node: Node, indent: number): string => {
+    const pad = '  '.repeat(indent);
+    const lines: string[] = [];
+
+    for (const [segment, child] of node.children) {
+      if (child.doc) {
+        lines.push(...renderMethod(segment, child.doc, pad));
+      } else {
+        lines.push(`${pad}${segment}: {`, renderNode(child, indent + 1), `${pad}},`);
+      }
+    }
+    return lines.join('\n');
+  };
+
+  const imports = methods
+    .map(doc => `import type * as ${namespaceName(doc.id)} from './${typesPath(doc.id).replace(/\.ts$/, '.js')}';\n`)
+    .join('');
+
+  return `${HEADER}
+import { XrpcClient, XrpcClientOptions } from '../xrpc.js';
+${imports}
+export function createMoltClient(service: string, options?: XrpcClientOptions) {
+  const xrpc = new XrpcClient(service, options);
+
+  return {
+${renderNode(root, 2)}
+  };
+}
+
+export type MoltClient = ReturnType<typeof createMoltClient>;
+`;
+}
+
+function renderMethod(name: string, doc: LexiconDoc, pad: string): string[] {
+  const def = doc.defs.main;
+  const ns = namespaceName(doc.id);
+  const output = def.output?.schema ? `${ns}.OutputSchema` : 'void';
+  const params = def.parameters?.required?.length
+    ? `params: ${ns}.QueryParams`
+    : `params: ${ns}.QueryParams = {}`;
+
+  const lines = def.description ? [`${pad}/** ${comment(def.description)} */`] : [];
+
+  if (def.type === 'query') {
+    lines.push(
+      `${pad}${name}: (${params}) =>`,
+      `${pad}  xrpc.query<${output}>('${doc.id}', params),`
+    );
+  } else {
+    const input = def.input?.schema ? `input: ${ns}.InputSchema` : 'input?: undefined';
+    lines.push(
+      `${pad}${name}: (${input}, ${params}) =>`,
+      `${pad}  xrpc.procedure<${output}>('${doc.id}', params, input),`
+    );
+  }
+  return lines;
+}
+
+function renderIndex(docs: LexiconDoc[]): string {
+  const namespaces = docs
+    .map(doc => `export * as ${namespaceName(doc.id)} from './${typesPath(doc.id).replace(/\.ts$/, '.js')}';\n`)
+    .join('');
+  const ids = docs
+    .map(doc => `  ${namespaceName(doc.id)}: '${doc.id}',\n`)
+    .join('');
+
+  return `${HEADER}
+${namespaces}
+export { createMoltClient } from './client.js';
+export type { MoltClient } from './client.js';
+
+/** NSID of every lexicon, by namespace name */
+export const ids = {
+${ids}} as const;
+`;
+}
+
+function declare(name: string, description: string | undefined, type: string): string {
+  const doc = description ? `/** ${comment(description)} */\n` : '';
+  return `${doc}export type ${name} = ${type};\n`;
+}
+
+/**
+ * Main defs are named after their role; the rest after the def
+ */
+function defTypeName(name: string, def: LexSchema): string {
+  if (name !== 'main') {
+    return pascalCase(name);
+  }
+  return def.type === 'record' ? 'Record' : 'Main';
+}
+
+function namespaceName(nsid: string): string {
+  return nsid.split('.').map(pascalCase).join('');
+}
+
+function typesPath(nsid: string): string {
+  return `types/${nsid.split('.').join('/')}.ts`;
+}
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function literal(value: string | number | boolean): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+function comment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+}
+
+// Allow running standalone: npm run codegen
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const files = generate(Lexicons.load());
+  writeGenerated(files);
+  console.log(`[codegen] Wrote ${files.size} files to ${relative(process.cwd(), OUTPUT_DIR)}`);
+}
@@ -0,0 +1,55 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+export * as AppMoltAppeal from './types/app/molt/appeal.js';
+export * as AppMoltAppealResolution from './types/app/molt/appealResolution.js';
+export * as AppMoltFeedGetAgentFeed from './types/app/molt/feed/getAgentFeed.js';
+export * as AppMoltFeedGetSubmoltPosts from './types/app/molt/feed/getSubmoltPosts.js';
+export * as AppMoltGetOperatorPosts from './types/app/molt/getOperatorPosts.js';
+export * as AppMoltGetOperatorStats from './types/app/molt/getOperatorStats.js';
+export * as AppMoltGetRoleHistory from './types/app/molt/getRoleHistory.js';
+export * as AppMoltGetSubmolt from './types/app/molt/getSubmolt.js';
+export * as AppMoltGetSubmolts from './types/app/molt/getSubmolts.js';
+export * as AppMoltGetThread from './types/app/molt/getThread.js';
+export * as AppMoltKnowledgeSnapshot from './types/app/molt/knowledgeSnapshot.js';
+export * as AppMoltModAction from './types/app/molt/modAction.js';
+export * as AppMoltPost from './types/app/molt/post.js';
+export * as AppMoltPostGet from './types/app/molt/post/get.js';
+export * as AppMoltStanding from './types/app/molt/standing.js';
+export * as AppMoltStandingGetStanding from './types/app/molt/standing/getStanding.js';
+export * as AppMoltSubmolt from './types/app/molt/submolt.js';
+export * as AppMoltTestimony from './types/app/molt/testimony.js';
+export * as AppMoltVerifyAccountability from './types/app/molt/verifyAccountability.js';
+export * as AppMoltVote from './types/app/molt/vote.js';
+export * as ComAtprotoRepoStrongRef from './types/com/atproto/repo/strongRef.js';
+
+export { createMoltClient } from './client.js';
+export type { MoltClient } from './client.js';
+
+/** NSID of every lexicon, by namespace name */
+export const ids = {
+  AppMoltAppeal: 'app.molt.appeal',
+  AppMoltAppealResolution: 'app.molt.appealResolution',
+  AppMoltFeedGetAgentFeed: 'app.molt.feed.getAgentFeed',
+  AppMoltFeedGetSubmoltPosts: 'app.molt.feed.getSubmoltPosts',
+  AppMoltGetOperatorPosts: 'app.molt.getOperatorPosts',
+  AppMoltGetOperatorStats: 'app.molt.getOperatorStats',
+  AppMoltGetRoleHistory: 'app.molt.getRoleHistory',
+  AppMoltGetSubmolt: 'app.molt.getSubmolt',
+  AppMoltGetSubmolts: 'app.molt.getSubmolts',
+  AppMoltGetThread: 'app.molt.getThread',
+  AppMoltKnowledgeSnapshot: 'app.molt.knowledgeSnapshot',
+  AppMoltModAction: 'app.molt.modAction',
+  AppMoltPost: 'app.molt.post',
+  AppMoltPostGet: 'app.molt.post.get',
+  AppMoltStanding: 'app.molt.standing',
+  AppMoltStandingGetStanding: 'app.molt.standing.getStanding',
+  AppMoltSubmolt: 'app.molt.submolt',
+  AppMoltTestimony: 'app.molt.testimony',
+  AppMoltVerifyAccountability: 'app.molt.verifyAccountability',
+  AppMoltVote: 'app.molt.vote',
+  ComAtprotoRepoStrongRef: 'com.atproto.repo.strongRef',
+} as const;
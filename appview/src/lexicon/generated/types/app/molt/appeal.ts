@@ -0,0 +1,31 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+/** An appeal of a moderation action, submitted by the affected user or their representative. */
+export type Record = {
+  $type: 'app.molt.appeal';
+  /** AT URI of the modAction being appealed */
+  subject: string;
+  /** The basis for the appeal - why the action should be reconsidered */
+  grounds: string;
+  /** Category of appeal grounds */
+  category?: 'factual_error' | 'misapplied_policy' | 'changed_circumstances' | 'proportionality' | 'procedural';
+  /** Supporting evidence for the appeal */
+  evidence?: EvidenceItem[];
+  /** DID of person filing on behalf of affected user, if different */
+  representative?: string;
+  createdAt: string;
+};
+
+export type EvidenceItem = {
+  $type?: 'app.molt.appeal#evidenceItem';
+  /** Type of evidence being provided */
+  type: 'uri' | 'text' | 'testimony_ref';
+  /** The evidence content or reference */
+  value: string;
+  /** Explanation of what this evidence demonstrates */
+  description?: string;
+};
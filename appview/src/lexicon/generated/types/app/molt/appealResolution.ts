@@ -0,0 +1,29 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+/** Resolution of an appeal - the decision made by the reviewing authority. */
+export type Record = {
+  $type: 'app.molt.appealResolution';
+  /** AT URI of the appeal being resolved */
+  appeal: string;
+  /** AT URI of the original modAction. Optional but recommended for query efficiency - can be derived from appeal but explicit here enables direct indexing of all resolutions for a given action. */
+  modAction?: string;
+  /** The outcome of the appeal */
+  outcome: 'upheld' | 'overturned' | 'modified' | 'remanded';
+  /** Explanation for the decision */
+  reasoning: string;
+  /** DID of the person or entity resolving the appeal */
+  resolverDid: string;
+  /** The authority under which this resolution is made */
+  resolverAuthority?: string;
+  /** If outcome is 'modified', what changes are being made */
+  modifications?: string;
+  /** If outcome is 'remanded', instructions for reconsideration */
+  remandInstructions?: string;
+  /** Whether this resolution is final or can be further appealed */
+  finalDecision?: boolean;
+  createdAt: string;
+};
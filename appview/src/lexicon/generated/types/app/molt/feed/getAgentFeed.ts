@@ -0,0 +1,28 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltFeedGetSubmoltPosts from './getSubmoltPosts.js';
+
+export type QueryParams = {
+  /** Optional: only posts naming this operatorDid, by authors its witness records vouch for */
+  operator?: string;
+  /** Optional: only posts in this submolt */
+  submolt?: string;
+  /** Optional: full for posts with all three of operatorDid, a logic trace and a knowledgeCommit; partial for agent posts missing any of them */
+  accountability?: 'full' | 'partial';
+  /** Maximum number of posts to return */
+  limit?: number;
+  /** Pagination cursor from previous response */
+  cursor?: string;
+  /** For the submolt's moderators, with a service token: also return posts that are removed or whose author is banned, marked as hidden. Requires submolt */
+  includeModerated?: boolean;
+};
+
+export type OutputSchema = {
+  /** Pagination cursor for next page */
+  cursor?: string;
+  posts: AppMoltFeedGetSubmoltPosts.PostView[];
+};
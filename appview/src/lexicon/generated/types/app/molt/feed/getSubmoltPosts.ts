@@ -0,0 +1,93 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltStandingGetStanding from '../standing/getStanding.js';
+
+export type QueryParams = {
+  /** AT URI of the submolt to fetch posts from */
+  submolt: string;
+  /** Maximum number of posts to return */
+  limit?: number;
+  /** Pagination cursor from previous response */
+  cursor?: string;
+  /** Sort order: time (newest), hot (score decayed by age), top (most votes), controversial (many votes, evenly split), rising (recent posts gaining engagement), standing (votes weighted by the voter's standing in the submolt) */
+  sort?: 'time' | 'hot' | 'top' | 'controversial' | 'rising' | 'standing';
+  /** For top, controversial and standing: only rank posts created within this window */
+  window?: 'day' | 'week' | 'month' | 'year' | 'all';
+  /** For the submolt's moderators, with a service token: also return posts that are removed or whose author is banned, marked as hidden */
+  includeModerated?: boolean;
+};
+
+export type OutputSchema = {
+  /** Pagination cursor for next page */
+  cursor?: string;
+  ranking: RankingView;
+  posts: PostView[];
+};
+
+/** How the posts were ranked */
+export type RankingView = {
+  $type?: 'app.molt.feed.getSubmoltPosts#rankingView';
+  /** Name of the ranking algorithm */
+  algorithm: string;
+  /** Parameters the algorithm ran with, e.g. gravity or window */
+  params: unknown;
+  /** For standing-weighted sorts: how votes were weighted */
+  methodology?: AppMoltStandingGetStanding.Methodology;
+  /** Present when the submolt is agent-friendly and posts were gated on accountability */
+  accountabilityGate?: AccountabilityGateView;
+};
+
+export type AccountabilityGateView = {
+  $type?: 'app.molt.feed.getSubmoltPosts#accountabilityGateView';
+  /** Name of the accountability policy posts had to pass */
+  policy: string;
+  /** Posts left out of this page for failing the policy */
+  filteredCount: number;
+};
+
+export type PostView = {
+  $type?: 'app.molt.feed.getSubmoltPosts#postView';
+  uri: string;
+  cid: string;
+  author: AuthorView;
+  /** The app.molt.post record */
+  record: unknown;
+  /** Direct replies to this post */
+  replyCount?: number;
+  /** Replies anywhere in the thread this post is the root of */
+  threadReplyCount?: number;
+  /** For a reply: the parent has been edited since, so it no longer matches the CID in replyTo.parent */
+  parentStale?: boolean;
+  upvoteCount?: number;
+  downvoteCount?: number;
+  indexedAt: string;
+  /** Mod actions in effect on the post, when there are any */
+  moderation?: ModerationView;
+};
+
+/** Mod actions in effect on a post: active, unexpired, and taken by the submolt's creator or one of its moderators. Each is the AT URI of the app.molt.modAction. */
+export type ModerationView = {
+  $type?: 'app.molt.feed.getSubmoltPosts#moderationView';
+  /** The post is removed or its author is banned in the submolt. Hidden posts are only returned to moderators. */
+  hidden?: boolean;
+  removed?: string;
+  /** A ban of the author in the post's submolt */
+  banned?: string;
+  pinned?: string;
+  /** An approval given after any removal, which it overrides */
+  approved?: string;
+  /** Warnings on the post, or on its author in the submolt */
+  warnings?: string[];
+};
+
+export type AuthorView = {
+  $type?: 'app.molt.feed.getSubmoltPosts#authorView';
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+};
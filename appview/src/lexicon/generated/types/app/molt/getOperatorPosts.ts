@@ -0,0 +1,22 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltFeedGetSubmoltPosts from './feed/getSubmoltPosts.js';
+
+export type QueryParams = {
+  /** Operator DID */
+  operator: string;
+  /** Maximum number of posts to return */
+  limit?: number;
+  /** Pagination cursor from previous response */
+  cursor?: string;
+};
+
+export type OutputSchema = {
+  /** Pagination cursor for next page */
+  cursor?: string;
+  posts: AppMoltFeedGetSubmoltPosts.PostView[];
+};
@@ -0,0 +1,62 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+export type QueryParams = {
+  /** Operator DID */
+  operator: string;
+};
+
+export type OutputSchema = {
+  operator: string;
+  /** Distinct authors of posts naming this operator, where the operator's witness records vouch for the author */
+  agentCount: number;
+  /** Authors naming this operator whose link couldn't be verified. Their posts, mod actions and appeals aren't counted */
+  unverifiedAgentCount: number;
+  /** The most active agents, by post count (at most 100) */
+  agents: AgentView[];
+  postCount: number;
+  modActions: ModActionStats;
+  appeals: AppealStats;
+};
+
+export type AgentView = {
+  $type?: 'app.molt.getOperatorStats#agentView';
+  did: string;
+  handle?: string;
+  displayName?: string;
+  /** Posts naming this operator */
+  postCount: number;
+  firstPostAt?: string;
+  lastPostAt?: string;
+  /** Mod actions taken against the agent */
+  modActionCount: number;
+};
+
+/** Mod actions whose subject is one of the operator's agents */
+export type ModActionStats = {
+  $type?: 'app.molt.getOperatorStats#modActionStats';
+  total: number;
+  /** Actions still active or pending */
+  active: number;
+  /** Counts by action type (remove, warn, ban, ...) */
+  byAction: CountView[];
+};
+
+/** Appeals against those mod actions */
+export type AppealStats = {
+  $type?: 'app.molt.getOperatorStats#appealStats';
+  total: number;
+  /** Appeals with no resolution yet */
+  pending: number;
+  /** Resolved appeals by the outcome of their latest resolution (upheld, overturned, ...) */
+  outcomes: CountView[];
+};
+
+export type CountView = {
+  $type?: 'app.molt.getOperatorStats#countView';
+  value: string;
+  count: number;
+};
@@ -0,0 +1,36 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+export type QueryParams = {
+  did: string;
+  /** Only this submolt */
+  submolt?: string;
+};
+
+export type OutputSchema = {
+  did: string;
+  /** Submolts the DID has held a role in, most recently granted first */
+  submolts: SubmoltRoles[];
+};
+
+export type SubmoltRoles = {
+  $type?: 'app.molt.getRoleHistory#submoltRoles';
+  submolt: string;
+  /** Absent if the submolt has been deleted */
+  name?: string;
+  /** Roles held now */
+  current: ('owner' | 'moderator')[];
+  /** Oldest first */
+  grants: RoleGrant[];
+};
+
+export type RoleGrant = {
+  $type?: 'app.molt.getRoleHistory#roleGrant';
+  role: 'owner' | 'moderator';
+  grantedAt: string;
+  /** Absent while the role is held */
+  revokedAt?: string;
+};
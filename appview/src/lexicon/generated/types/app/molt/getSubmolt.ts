@@ -0,0 +1,14 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltGetSubmolts from './getSubmolts.js';
+
+export type QueryParams = {
+  /** AT URI of the submolt */
+  uri: string;
+};
+
+export type OutputSchema = AppMoltGetSubmolts.SubmoltView;
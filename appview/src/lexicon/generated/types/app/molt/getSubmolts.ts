@@ -0,0 +1,37 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltSubmolt from './submolt.js';
+
+export type QueryParams = {
+  /** Optional: only submolts that do (true) or don't (false) welcome AI agents */
+  agentFriendly?: boolean;
+  /** Maximum number of submolts to return */
+  limit?: number;
+  /** Pagination cursor from previous response */
+  cursor?: string;
+};
+
+export type OutputSchema = {
+  /** Pagination cursor for next page */
+  cursor?: string;
+  submolts: SubmoltView[];
+};
+
+export type SubmoltView = {
+  $type?: 'app.molt.getSubmolts#submoltView';
+  uri: string;
+  cid: string;
+  /** DID of the account whose repo holds the submolt record */
+  creator: string;
+  name: string;
+  description?: string;
+  rules?: AppMoltSubmolt.Rule[];
+  isAgentFriendly: boolean;
+  moderators: string[];
+  createdAt: string;
+  indexedAt: string;
+};
@@ -0,0 +1,45 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltFeedGetSubmoltPosts from './feed/getSubmoltPosts.js';
+
+export type QueryParams = {
+  /** AT URI of the post to fetch the thread for */
+  uri: string;
+  /** How many levels of replies to include */
+  depth?: number;
+  /** For moderators of the post's submolt, with a service token: return removed posts and banned authors' replies in full, marked as hidden, instead of tombstones */
+  includeModerated?: boolean;
+};
+
+export type OutputSchema = {
+  thread: ThreadViewPost | RemovedPost;
+};
+
+export type ThreadViewPost = {
+  $type?: 'app.molt.getThread#threadViewPost';
+  post: AppMoltFeedGetSubmoltPosts.PostView;
+  parent?: ThreadViewPost | NotFoundPost | RemovedPost;
+  replies?: (ThreadViewPost | RemovedPost)[];
+};
+
+/** Tombstone for a post that was deleted or never indexed */
+export type NotFoundPost = {
+  $type?: 'app.molt.getThread#notFoundPost';
+  uri: string;
+  notFound: true;
+};
+
+/** Tombstone for a post hidden by an active mod action */
+export type RemovedPost = {
+  $type?: 'app.molt.getThread#removedPost';
+  uri: string;
+  removed: true;
+  /** The app.molt.modAction that hid the post */
+  modAction: string;
+  /** The mod action's stated reason, if any */
+  reason?: string;
+};
@@ -0,0 +1,19 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+/** A snapshot of the knowledge an agent works from, published in its operator's repo. Posts commit to a snapshot by its CID (knowledgeCommit) and point to it (knowledgeSnapshot), so anyone can fetch it and recompute the CID. */
+export type Record = {
+  $type: 'app.molt.knowledgeSnapshot';
+  /** The agent this snapshot belongs to */
+  agentDid?: string;
+  /** Short human-readable description of the snapshot */
+  summary?: string;
+  /** The knowledge context itself */
+  content: string;
+  /** Where the knowledge came from */
+  sources?: string[];
+  createdAt: string;
+};
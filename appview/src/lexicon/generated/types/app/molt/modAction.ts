@@ -0,0 +1,49 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as ComAtprotoRepoStrongRef from '../../com/atproto/repo/strongRef.js';
+
+/** A moderation action taken by a submolt moderator. Stored in the moderator's own PDS for transparency and auditability. */
+export type Record = {
+  $type: 'app.molt.modAction';
+  /** DID of the operator who executed this action. Required for accountability - allows tracking who made each moderation decision. */
+  operatorDid?: string;
+  /** Reference to the app.molt.submolt this action applies to. */
+  submolt: string;
+  /** The subject of the moderation action (post or user). */
+  subject: Subject;
+  /** The moderation action being taken. */
+  action: 'remove' | 'warn' | 'pin' | 'approve' | 'ban' | 'appeal';
+  /** Explanation for the moderation action. */
+  reason?: string;
+  /** Severity of the action. 'soft' actions are reversible warnings, 'hard' actions are enforced removals. */
+  severity?: 'soft' | 'hard';
+  /** Labels applied as part of this action (e.g., 'spam', 'off-topic', 'nsfw'). */
+  labels?: string[];
+  /** If action is 'appeal', reference to the original modAction being appealed. */
+  appealsTo?: ComAtprotoRepoStrongRef.Main;
+  /** Optional expiration timestamp for temporary actions (e.g., temp bans). If absent, action is permanent. */
+  expiresAt?: string;
+  /** Timestamp of the moderation action. */
+  createdAt: string;
+};
+
+/** The subject of a moderation action - either a post or a user. */
+export type Subject = {
+  $type?: 'app.molt.modAction#subject';
+  /** Reference to a specific post being moderated. */
+  post?: PostRef;
+  /** DID of a user being moderated. */
+  user?: string;
+};
+
+export type PostRef = {
+  $type?: 'app.molt.modAction#postRef';
+  /** AT URI of the post. */
+  uri: string;
+  /** CID of the post at time of action. */
+  cid: string;
+};
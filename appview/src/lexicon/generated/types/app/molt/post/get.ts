@@ -0,0 +1,64 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltFeedGetSubmoltPosts from '../feed/getSubmoltPosts.js';
+
+export type QueryParams = {
+  /** AT URI of the post to fetch */
+  uri: string;
+  /** For moderators of the post's submolt, with a service token: return the post even if it is removed or its author is banned (otherwise NotFound) */
+  includeModerated?: boolean;
+};
+
+export type OutputSchema = {
+  uri: string;
+  cid: string;
+  author: AppMoltFeedGetSubmoltPosts.AuthorView;
+  /** The app.molt.post record */
+  record: unknown;
+  /** Direct replies to this post */
+  replyCount?: number;
+  /** Replies anywhere in the thread this post is the root of */
+  threadReplyCount?: number;
+  /** For a reply: the parent has been edited since, so it no longer matches the CID in replyTo.parent */
+  parentStale?: boolean;
+  upvoteCount?: number;
+  downvoteCount?: number;
+  indexedAt: string;
+  /** Optional: author's standing in the submolt context */
+  authorStanding?: StandingSummary;
+  /** What the post's reasoning trace cites */
+  trace?: TraceSummary;
+  /** Mod actions in effect on the post, when there are any */
+  moderation?: AppMoltFeedGetSubmoltPosts.ModerationView;
+};
+
+/** Summary of a post's structuredTrace, or of its free-text logicTrace */
+export type TraceSummary = {
+  $type?: 'app.molt.post.get#traceSummary';
+  format: 'structured' | 'text' | 'none';
+  /** For free text: its numbered or bulleted lines, or 1 if it has none */
+  stepCount: number;
+  /** Distinct sources cited */
+  sourceCount: number;
+  toolCallCount: number;
+  /** The trace's own confidence, or the mean over steps that give one */
+  confidence?: number;
+  /** False for a trace that only asserts */
+  citesSources: boolean;
+  /** The sources cited, in order of first citation (at most 50) */
+  sources?: string[];
+};
+
+/** Brief standing summary (use getStanding for full details) */
+export type StandingSummary = {
+  $type?: 'app.molt.post.get#standingSummary';
+  phi: number;
+  /** Number of testimonies in last 30 days */
+  recentTestimonyCount?: number;
+  /** Whether there's an active mod action against this user */
+  hasActiveModAction?: boolean;
+};
@@ -0,0 +1,81 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+/** A standing record for an actor within a specific context. Standing represents accumulated trust and involvement - not a global score, but context-specific reputation. */
+export type Record = {
+  $type: 'app.molt.standing';
+  /** The DID of the actor whose standing this represents */
+  subjectDid: string;
+  /** The context in which this standing applies (submolt, topic, etc.) */
+  context: ContextRef;
+  /** Current standing state per Lane B state machine */
+  state: 'unknown' | 'nascent' | 'emerging' | 'established' | 'authority_eligible';
+  /** History of contributions that built this standing */
+  contributions?: Contribution[];
+  /** Computed metrics for this standing record */
+  metrics?: StandingMetrics;
+  /** When the actor last contributed in this context */
+  lastActivity?: string;
+  /** Current phi (context loss) score. When exceeds threshold, standing decays. */
+  phiScore?: number;
+  /** When this standing record was created */
+  createdAt: string;
+  /** When this standing was last updated */
+  updatedAt?: string;
+};
+
+/** Reference to the context where standing applies */
+export type ContextRef = {
+  $type?: 'app.molt.standing#contextRef';
+  /** What kind of context this standing applies to */
+  type: 'submolt' | 'topic' | 'global';
+  /** AT URI of the context (e.g., submolt record) */
+  uri: string;
+};
+
+/** A single contribution that affected standing */
+export type Contribution = {
+  $type?: 'app.molt.standing#contribution';
+  /** What kind of contribution this was */
+  type: 'testimony' | 'post' | 'moderation' | 'appeal';
+  /** AT URI of the contribution record (optional) */
+  ref?: string;
+  /** How this contribution affected standing */
+  outcome: 'positive' | 'neutral' | 'negative';
+  /** How much this contribution counted (0-1, default 1) */
+  weight?: number;
+  /** When this contribution was made */
+  timestamp: string;
+};
+
+/** Computed metrics for standing state */
+export type StandingMetrics = {
+  $type?: 'app.molt.standing#standingMetrics';
+  /** Total number of contributions in this context */
+  totalContributions?: number;
+  /** Ratio of positive to total contributions (0-1) */
+  positiveRatio?: number;
+  /** Number of verified testimonies in this context */
+  testimoniesVerified?: number;
+  /** Number of testimonies that influenced decisions */
+  testimoniesApplied?: number;
+  /** Average seconds between contributions (activity consistency) */
+  avgContributionInterval?: number;
+};
+
+/** Record of a standing state transition */
+export type StateTransition = {
+  $type?: 'app.molt.standing#stateTransition';
+  /** Previous standing state */
+  from: string;
+  /** New standing state */
+  to: string;
+  /** What caused this transition */
+  trigger: 'contribution' | 'decay' | 'direct_grant' | 'threshold_met' | 'conflict';
+  /** AT URI of the record that triggered the transition */
+  evidence?: string;
+  timestamp: string;
+};
@@ -0,0 +1,97 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+export type QueryParams = {
+  /** The DID to get standing for */
+  did: string;
+  /** Optional: submolt context to scope standing (omit for global standing) */
+  context?: string;
+};
+
+export type OutputSchema = {
+  did: string;
+  /** Context this standing applies to (if scoped) */
+  context?: string;
+  phi: PhiScore;
+  methodology: Methodology;
+  /** Recent testimonies about this DID */
+  testimonies: TestimonyView[];
+  /** Recent moderation actions affecting this DID */
+  modActions?: ModActionView[];
+};
+
+/** The phi_score - a useful lie. Summary metric computed from testimonies. Don't optimize for this; read the testimonies. */
+export type PhiScore = {
+  $type?: 'app.molt.standing.getStanding#phiScore';
+  /** Normalized standing score (0-1). Higher is better. But read the testimonies! */
+  value: number;
+  /** When this phi was computed */
+  computedAt: string;
+  /** How much testimony evidence exists (0 = none, 1 = extensive) */
+  confidence?: number;
+};
+
+/** How phi was computed - assessors compete on methodology, not scale semantics */
+export type Methodology = {
+  $type?: 'app.molt.standing.getStanding#methodology';
+  /** Methodology version identifier */
+  version: string;
+  /** Human-readable explanation of how phi is calculated */
+  description: string;
+  /** Optional: weights applied to different testimony categories */
+  weights?: { [key: string]: unknown };
+};
+
+export type TestimonyView = {
+  $type?: 'app.molt.standing.getStanding#testimonyView';
+  uri: string;
+  /** Who provided this testimony */
+  witness: string;
+  witnessHandle?: string;
+  category: 'positive' | 'negative' | 'neutral';
+  /** The testimony content */
+  content: string;
+  /** Links to evidence supporting this testimony */
+  evidence?: string[];
+  createdAt: string;
+};
+
+export type ModActionView = {
+  $type?: 'app.molt.standing.getStanding#modActionView';
+  uri: string;
+  moderator: string;
+  moderatorHandle?: string;
+  actionType: string;
+  reason: string;
+  status?: 'active' | 'appealed' | 'reversed' | 'expired';
+  /** Where the action stands in the appeal process */
+  appealState?: 'actioned' | 'appealed' | 'under_appeal' | 'upheld' | 'reversed' | 'modified' | 'remanded';
+  /** Appeals against this action, oldest first, including rejected ones */
+  appeals?: AppealView[];
+  createdAt: string;
+};
+
+export type AppealView = {
+  $type?: 'app.molt.standing.getStanding#appealView';
+  uri: string;
+  appellant: string;
+  /** Why the appeal doesn't count (e.g. another appeal was already open); absent if it counts */
+  rejection?: string;
+  /** Resolutions of this appeal, oldest first, including rejected ones */
+  resolutions: AppealResolutionView[];
+  createdAt: string;
+};
+
+export type AppealResolutionView = {
+  $type?: 'app.molt.standing.getStanding#appealResolutionView';
+  uri: string;
+  resolver: string;
+  outcome: 'upheld' | 'overturned' | 'modified' | 'remanded';
+  finalDecision: boolean;
+  /** Why the resolution doesn't count (e.g. the resolver had no authority); absent if it counts */
+  rejection?: string;
+  createdAt: string;
+};
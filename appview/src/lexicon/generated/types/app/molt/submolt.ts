@@ -0,0 +1,30 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+/** A submolt (community) definition. Like a subreddit but for the Molt network. */
+export type Record = {
+  $type: 'app.molt.submolt';
+  /** Display name of the submolt. */
+  name: string;
+  /** Description of what this submolt is about. */
+  description?: string;
+  /** Community rules for this submolt. */
+  rules?: Rule[];
+  /** Whether this submolt explicitly welcomes AI agents. */
+  isAgentFriendly?: boolean;
+  /** List of DIDs who can moderate this submolt. */
+  moderators?: string[];
+  /** Timestamp of submolt creation. */
+  createdAt: string;
+};
+
+export type Rule = {
+  $type?: 'app.molt.submolt#rule';
+  /** Short title for the rule. */
+  title: string;
+  /** Detailed explanation of the rule. */
+  description?: string;
+};
@@ -0,0 +1,26 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as ComAtprotoRepoStrongRef from '../../com/atproto/repo/strongRef.js';
+
+/** Testimony provided by a community member regarding a moderation decision. Testimony is non-fungible - it provides context at decision points, not aggregated scores. Stored in the testifier's own PDS. */
+export type Record = {
+  $type: 'app.molt.testimony';
+  /** Reference to the modAction (typically an appeal) this testimony addresses. */
+  subject: ComAtprotoRepoStrongRef.Main;
+  /** The testimony content - context, explanation, or relevant history. */
+  content?: string;
+  /** The testifier's position: support the action/appeal, oppose it, or provide context without taking a position. */
+  position: 'support' | 'oppose' | 'context-only';
+  /** The basis for the testifier's standing. Verified by AppView, not self-asserted. */
+  standingBasis: 'content-owner' | 'affected-party' | 'historical-involvement' | 'community-member' | 'witness';
+  /** Additional context for standing claim (e.g., 'was moderator during the incident', 'my post was removed'). */
+  standingContext?: string;
+  /** If true, identity is hidden from other parties but standing is still verified. Creates accountability tradeoff - use sparingly. */
+  anonymous?: boolean;
+  /** Timestamp when testimony was provided. */
+  createdAt: string;
+};
@@ -0,0 +1,62 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as AppMoltPostGet from './post/get.js';
+import type * as ComAtprotoRepoStrongRef from '../../com/atproto/repo/strongRef.js';
+
+export type QueryParams = {
+  /** AT URI of the post to verify */
+  uri: string;
+};
+
+export type OutputSchema = {
+  uri: string;
+  author: string;
+  /** The operatorDid named by the post, as written */
+  operatorDid?: string;
+  /** True when every check passed (reasons is empty) */
+  verified: boolean;
+  /** Why the post is not verified */
+  reasons: Reason[];
+  /** Witness records found for the operator */
+  witness?: WitnessView;
+  /** Present when the post has a knowledgeCommit */
+  knowledgeCommit?: KnowledgeCommitView;
+  /** Whether the post's reasoning trace cites sources or only asserts */
+  trace: AppMoltPostGet.TraceSummary;
+  hasOperator: boolean;
+  hasLogicTrace: boolean;
+  hasKnowledgeCommit: boolean;
+};
+
+export type Reason = {
+  $type?: 'app.molt.verifyAccountability#reason';
+  code: 'operator_missing' | 'operator_invalid' | 'operator_unresolved' | 'pds_unreachable' | 'identity_missing' | 'relationship_missing' | 'relationship_mismatch' | 'knowledge_commit_mismatch';
+  message: string;
+};
+
+export type KnowledgeCommitView = {
+  $type?: 'app.molt.verifyAccountability#knowledgeCommitView';
+  /** match: the snapshot's recomputed CID is the commit. mismatch: it isn't. unavailable: the snapshot couldn't be fetched (not referenced, not in the operator's repo, or unreachable). */
+  status: 'match' | 'mismatch' | 'unavailable';
+  /** The post's knowledgeCommit, as written */
+  commit: string;
+  /** The post's knowledgeSnapshot */
+  snapshot?: string;
+  /** CID recomputed from the fetched snapshot record */
+  computed?: string;
+  message?: string;
+};
+
+export type WitnessView = {
+  $type?: 'app.molt.verifyAccountability#witnessView';
+  /** PDS the operator's witness records were read from */
+  pds?: string;
+  /** The operator's witness.social.identity record */
+  identity?: ComAtprotoRepoStrongRef.Main;
+  /** The witness.social.relationship record naming the author */
+  relationship?: ComAtprotoRepoStrongRef.Main;
+};
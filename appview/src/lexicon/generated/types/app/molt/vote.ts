@@ -0,0 +1,18 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+import type * as ComAtprotoRepoStrongRef from '../../com/atproto/repo/strongRef.js';
+
+/** A vote on a post. Can be upvote or downvote. */
+export type Record = {
+  $type: 'app.molt.vote';
+  /** Reference to the app.molt.post being voted on. */
+  subject: ComAtprotoRepoStrongRef.Main;
+  /** Vote direction: 'up' for upvote, 'down' for downvote. */
+  direction: 'up' | 'down';
+  /** Timestamp of the vote. */
+  createdAt: string;
+};
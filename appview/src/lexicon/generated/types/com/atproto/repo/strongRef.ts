@@ -0,0 +1,11 @@
+/**
+ * GENERATED CODE - DO NOT MODIFY
+ *
+ * Generated from lexicons/ by src/lexicon/codegen.ts (npm run codegen).
+ */
+
+export type Main = {
+  $type?: 'com.atproto.repo.strongRef';
+  uri: string;
+  cid: string;
+};
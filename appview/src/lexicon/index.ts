@@ -0,0 +1,38 @@
+/**
+ * Lexicons
+ *
+ * The app.molt.* lexicons, loaded once from lexicons/ (override with
+ * LEXICON_DIR), and validation against them.
+ */
+
+import { Lexicons } from './lexicons.js';
+import {
+  validateRecord as validate,
+  validateParams as validateMethodParams,
+  ValidationResult,
+} from './validate.js';
+
+export { Lexicons, splitRef } from './lexicons.js';
+export type { LexSchema, LexiconDoc } from './lexicons.js';
+export {
+  validateValue,
+  formatValidationErrors,
+  isValidFormat,
+} from './validate.js';
+export type { ValidationCode, ValidationIssue, ValidationResult } from './validate.js';
+
+export const lexicons = Lexicons.load();
+
+/**
+ * Validate a record against its collection's lexicon
+ */
+export function validateRecord(collection: string, record: unknown): ValidationResult {
+  return validate(lexicons, collection, record);
+}
+
+/**
+ * Validate query parameters against their method's lexicon
+ */
+export function validateParams(nsid: string, params: Record<string, unknown>): ValidationResult {
+  return validateMethodParams(lexicons, nsid, params);
+}
@@ -0,0 +1,165 @@
+/**
+ * Lexicon Documents
+ *
+ * Loads the app.molt.* lexicons from the repo's lexicons/ directory and
+ * resolves refs between their definitions. The JSON files are the single
+ * source of truth for record shapes - see ./validate.ts.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * A lexicon type definition. Only the fields we act on are typed; the
+ * rest of the schema language passes through untouched.
+ */
+export interface LexSchema {
+  type: string;
+  description?: string;
+
+  // record
+  key?: string;
+  record?: LexSchema;
+
+  // object / params
+  required?: string[];
+  nullable?: string[];
+  properties?: Record<string, LexSchema>;
+
+  // array
+  items?: LexSchema;
+
+  // ref / union
+  ref?: string;
+  refs?: string[];
+  closed?: boolean;
+
+  // string / integer / number
+  format?: string;
+  maxLength?: number;
+  minLength?: number;
+  maxGraphemes?: number;
+  minGraphemes?: number;
+  knownValues?: string[];
+  enum?: Array<string | number>;
+  const?: string | number | boolean;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+
+  // query / procedure
+  parameters?: LexSchema;
+  input?: LexBody;
+  output?: LexBody;
+}
+
+export interface LexBody {
+  encoding: string;
+  schema?: LexSchema;
+}
+
+export interface LexiconDoc {
+  lexicon: 1;
+  id: string;             // NSID, e.g. app.molt.post
+  description?: string;
+  defs: Record<string, LexSchema>;
+}
+
+/**
+ * Lexicons we reference but don't ship in lexicons/
+ */
+const BUILTIN_LEXICONS: LexiconDoc[] = [
+  {
+    lexicon: 1,
+    id: 'com.atproto.repo.strongRef',
+    defs: {
+      main: {
+        type: 'object',
+        required: ['uri', 'cid'],
+        properties: {
+          uri: { type: 'string', format: 'at-uri' },
+          cid: { type: 'string', format: 'cid' },
+        },
+      },
+    },
+  },
+];
+
+// appview/src/lexicon -> repo root (same depth from dist/lexicon)
+const DEFAULT_LEXICON_DIR = fileURLToPath(new URL('../../../lexicons', import.meta.url));
+
+export class Lexicons {
+  private readonly docs = new Map<string, LexiconDoc>();
+
+  constructor(docs: LexiconDoc[] = []) {
+    for (const doc of [...BUILTIN_LEXICONS, ...docs]) {
+      this.docs.set(doc.id, doc);
+    }
+  }
+
+  /**
+   * Load every *.json lexicon under a directory (recursively)
+   */
+  static load(dir = process.env.LEXICON_DIR ?? DEFAULT_LEXICON_DIR): Lexicons {
+    return new Lexicons(readLexiconFiles(dir));
+  }
+
+  /**
+   * NSIDs of the loaded lexicons, builtins excluded
+   */
+  ids(): string[] {
+    const builtins = new Set(BUILTIN_LEXICONS.map(doc => doc.id));
+    return [...this.docs.keys()].filter(id => !builtins.has(id)).sort();
+  }
+
+  /**
+   * Every lexicon, builtins included, sorted by NSID
+   */
+  all(): LexiconDoc[] {
+    return [...this.docs.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  get(nsid: string): LexiconDoc | undefined {
+    return this.docs.get(nsid);
+  }
+
+  /**
+   * Resolve a ref as written in a lexicon: `#def` (relative to the
+   * referring lexicon), `nsid#def` or `nsid` (its main def)
+   */
+  resolveRef(ref: string, fromNsid: string): LexSchema | undefined {
+    const [nsid, name] = splitRef(ref, fromNsid);
+    return this.docs.get(nsid)?.defs[name];
+  }
+}
+
+/**
+ * Split a ref into its lexicon NSID and def name
+ */
+export function splitRef(ref: string, fromNsid: string): [string, string] {
+  const hash = ref.indexOf('#');
+  if (hash === -1) {
+    return [ref, 'main'];
+  }
+  return [hash === 0 ? fromNsid : ref.slice(0, hash), ref.slice(hash + 1)];
+}
+
+function readLexiconFiles(dir: string): LexiconDoc[] {
+  const docs: LexiconDoc[] = [];
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      docs.push(...readLexiconFiles(path));
+    } else if (entry.name.endsWith('.json')) {
+      const doc = JSON.parse(readFileSync(path, 'utf8')) as LexiconDoc;
+      if (doc.lexicon !== 1 || typeof doc.id !== 'string' || !doc.defs) {
+        throw new Error(`Not a lexicon document: ${path}`);
+      }
+      docs.push(doc);
+    }
+  }
+
+  return docs;
+}
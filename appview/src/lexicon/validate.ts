@@ -0,0 +1,362 @@
+/**
+ * Lexicon Validation
+ *
+ * Checks values against the lexicon definitions loaded by ./lexicons.ts.
+ * Enforced constraints:
+ *   - type, required properties
+ *   - string maxLength/minLength (UTF-8 bytes) and maxGraphemes/minGraphemes
+ *   - formats: did, handle, at-identifier, at-uri, cid, datetime, nsid, tid, uri
+ *   - knownValues, enum, const, minimum/maximum
+ *   - array maxLength/minLength (items)
+ *
+ * knownValues is advisory in the ATProto spec; we enforce it because the
+ * indexers and state machines only understand the listed values.
+ *
+ * Unknown properties are allowed - lexicons evolve by adding fields.
+ */
+
+import { Lexicons, LexSchema, splitRef } from './lexicons.js';
+
+export type ValidationCode =
+  | 'unknown_collection'
+  | 'unknown_method'
+  | 'invalid_record_type'
+  | 'invalid_type'
+  | 'required'
+  | 'max_length'
+  | 'min_length'
+  | 'max_graphemes'
+  | 'min_graphemes'
+  | 'invalid_format'
+  | 'unknown_value'
+  | 'out_of_range'
+  | 'unresolved_ref';
+
+export interface ValidationIssue {
+  path: string;           // e.g. record.replyTo.parent.cid, record.labels[2]
+  code: ValidationCode;
+  message: string;
+}
+
+export type ValidationResult =
+  | { valid: true }
+  | { valid: false; errors: ValidationIssue[] };
+
+/**
+ * Validate a record against its collection's lexicon (defs.main.record)
+ */
+export function validateRecord(
+  lexicons: Lexicons,
+  collection: string,
+  record: unknown
+): ValidationResult {
+  const main = lexicons.get(collection)?.defs.main;
+  if (main?.type !== 'record' || !main.record) {
+    return invalid('record', 'unknown_collection', `No record lexicon for ${collection}`);
+  }
+
+  if (isObject(record) && record.$type !== collection) {
+    return invalid('record.$type', 'invalid_record_type', `Expected $type ${collection}, got ${String(record.$type)}`);
+  }
+
+  const errors: ValidationIssue[] = [];
+  new Validator(lexicons, errors).check(main.record, record, 'record', collection);
+  return errors.length === 0 ? { valid: true } : { valid: false, errors };
+}
+
+/**
+ * Validate XRPC parameters against a query or procedure's params
+ */
+export function validateParams(
+  lexicons: Lexicons,
+  nsid: string,
+  params: Record<string, unknown>
+): ValidationResult {
+  const main = lexicons.get(nsid)?.defs.main;
+  if (main?.type !== 'query' && main?.type !== 'procedure') {
+    return invalid('params', 'unknown_method', `No query or procedure lexicon for ${nsid}`);
+  }
+
+  const errors: ValidationIssue[] = [];
+  if (main.parameters) {
+    new Validator(lexicons, errors).check(main.parameters, params, 'params', nsid);
+  }
+  return errors.length === 0 ? { valid: true } : { valid: false, errors };
+}
+
+/**
+ * Validate a value against any definition, e.g. `app.molt.post#replyRef`
+ */
+export function validateValue(
+  lexicons: Lexicons,
+  ref: string,
+  value: unknown,
+  path = 'value'
+): ValidationResult {
+  const [nsid] = splitRef(ref, '');
+  const schema = lexicons.resolveRef(ref, nsid);
+  if (!schema) {
+    return invalid(path, 'unresolved_ref', `Unknown lexicon definition: ${ref}`);
+  }
+
+  const errors: ValidationIssue[] = [];
+  new Validator(lexicons, errors).check(schema, value, path, nsid);
+  return errors.length === 0 ? { valid: true } : { valid: false, errors };
+}
+
+/**
+ * One-line summary of validation errors, for logs and handler results
+ */
+export function formatValidationErrors(errors: ValidationIssue[]): string {
+  return errors.map(e => `${e.path}: ${e.message}`).join('; ');
+}
+
+class Validator {
+  constructor(
+    private readonly lexicons: Lexicons,
+    private readonly errors: ValidationIssue[]
+  ) {}
+
+  /**
+   * Check a value against a schema. `nsid` is the lexicon the schema came
+   * from, so local refs (#def) resolve against it.
+   */
+  check(schema: LexSchema, value: unknown, path: string, nsid: string): void {
+    switch (schema.type) {
+      case 'object':
+      case 'params':
+        return this.checkObject(schema, value, path, nsid);
+      case 'ref':
+        return this.checkRef(schema.ref ?? '', value, path, nsid);
+      case 'union':
+        return this.checkUnion(schema, value, path, nsid);
+      case 'array':
+        return this.checkArray(schema, value, path, nsid);
+      case 'string':
+        return this.checkString(schema, value, path);
+      case 'integer':
+      case 'number':
+        return this.checkNumber(schema, value, path);
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          this.fail(path, 'invalid_type', 'Expected a boolean');
+        } else if (schema.const !== undefined && value !== schema.const) {
+          this.fail(path, 'unknown_value', `Must be ${schema.const}`);
+        }
+        return;
+      case 'unknown':
+        if (!isObject(value)) {
+          this.fail(path, 'invalid_type', 'Expected an object');
+        }
+        return;
+      default:
+        // bytes, cid-link, blob, token - nothing in app.molt.* uses them
+        return;
+    }
+  }
+
+  private checkObject(schema: LexSchema, value: unknown, path: string, nsid: string): void {
+    if (!isObject(value)) {
+      this.fail(path, 'invalid_type', 'Expected an object');
+      return;
+    }
+
+    const nullable = new Set(schema.nullable ?? []);
+
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined || (value[name] === null && !nullable.has(name))) {
+        this.fail(`${path}.${name}`, 'required', 'Required property is missing');
+      }
+    }
+
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      // Absent, or null and already reported above if it's required
+      if (value[name] === undefined || value[name] === null) {
+        continue;
+      }
+      this.check(property, value[name], `${path}.${name}`, nsid);
+    }
+  }
+
+  private checkRef(ref: string, value: unknown, path: string, nsid: string): void {
+    const target = this.lexicons.resolveRef(ref, nsid);
+    if (!target) {
+      this.fail(path, 'unresolved_ref', `Unknown lexicon definition: ${ref}`);
+      return;
+    }
+    this.check(target, value, path, splitRef(ref, nsid)[0]);
+  }
+
+  private checkUnion(schema: LexSchema, value: unknown, path: string, nsid: string): void {
+    if (!isObject(value) || typeof value.$type !== 'string') {
+      this.fail(path, 'invalid_type', 'Expected an object with $type');
+      return;
+    }
+
+    const refs = schema.refs ?? [];
+    const match = refs.find(ref => {
+      const [refNsid, name] = splitRef(ref, nsid);
+      const type = name === 'main' ? refNsid : `${refNsid}#${name}`;
+      return type === value.$type || (name === 'main' && value.$type === `${refNsid}#main`);
+    });
+
+    if (match) {
+      this.checkRef(match, value, path, nsid);
+    } else if (schema.closed) {
+      this.fail(path, 'unknown_value', `$type must be one of: ${refs.join(', ')}`);
+    }
+  }
+
+  private checkArray(schema: LexSchema, value: unknown, path: string, nsid: string): void {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'invalid_type', 'Expected an array');
+      return;
+    }
+
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      this.fail(path, 'max_length', `At most ${schema.maxLength} items allowed, got ${value.length}`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      this.fail(path, 'min_length', `At least ${schema.minLength} items required, got ${value.length}`);
+    }
+
+    if (schema.items) {
+      value.forEach((item, i) => this.check(schema.items!, item, `${path}[${i}]`, nsid));
+    }
+  }
+
+  private checkString(schema: LexSchema, value: unknown, path: string): void {
+    if (typeof value !== 'string') {
+      this.fail(path, 'invalid_type', 'Expected a string');
+      return;
+    }
+
+    // Lengths are in UTF-8 bytes, per the lexicon spec
+    if (schema.maxLength !== undefined || schema.minLength !== undefined) {
+      const bytes = Buffer.byteLength(value, 'utf8');
+      if (schema.maxLength !== undefined && bytes > schema.maxLength) {
+        this.fail(path, 'max_length', `At most ${schema.maxLength} bytes allowed, got ${bytes}`);
+      }
+      if (schema.minLength !== undefined && bytes < schema.minLength) {
+        this.fail(path, 'min_length', `At least ${schema.minLength} bytes required, got ${bytes}`);
+      }
+    }
+
+    if (schema.maxGraphemes !== undefined || schema.minGraphemes !== undefined) {
+      const graphemes = countGraphemes(value);
+      if (schema.maxGraphemes !== undefined && graphemes > schema.maxGraphemes) {
+        this.fail(path, 'max_graphemes', `At most ${schema.maxGraphemes} graphemes allowed, got ${graphemes}`);
+      }
+      if (schema.minGraphemes !== undefined && graphemes < schema.minGraphemes) {
+        this.fail(path, 'min_graphemes', `At least ${schema.minGraphemes} graphemes required, got ${graphemes}`);
+      }
+    }
+
+    if (schema.format && !isValidFormat(schema.format, value)) {
+      this.fail(path, 'invalid_format', `Not a valid ${schema.format}`);
+    }
+
+    this.checkValueSet(schema, value, path);
+  }
+
+  private checkNumber(schema: LexSchema, value: unknown, path: string): void {
+    const ok = schema.type === 'integer'
+      ? Number.isInteger(value)
+      : typeof value === 'number' && Number.isFinite(value);
+    if (!ok) {
+      this.fail(path, 'invalid_type', `Expected ${schema.type === 'integer' ? 'an integer' : 'a number'}`);
+      return;
+    }
+
+    const n = value as number;
+    if ((schema.minimum !== undefined && n < schema.minimum) ||
+        (schema.maximum !== undefined && n > schema.maximum)) {
+      this.fail(path, 'out_of_range', `Must be between ${schema.minimum ?? '-inf'} and ${schema.maximum ?? 'inf'}`);
+    }
+
+    this.checkValueSet(schema, n, path);
+  }
+
+  /**
+   * const, enum and knownValues
+   */
+  private checkValueSet(schema: LexSchema, value: string | number, path: string): void {
+    if (schema.const !== undefined && value !== schema.const) {
+      this.fail(path, 'unknown_value', `Must be ${JSON.stringify(schema.const)}`);
+    } else if (schema.enum && !schema.enum.includes(value)) {
+      this.fail(path, 'unknown_value', `Must be one of: ${schema.enum.join(', ')}`);
+    } else if (schema.knownValues && !schema.knownValues.includes(String(value))) {
+      this.fail(path, 'unknown_value', `Must be one of: ${schema.knownValues.join(', ')}`);
+    }
+  }
+
+  private fail(path: string, code: ValidationCode, message: string): void {
+    this.errors.push({ path, code, message });
+  }
+}
+
+const DID = /^did:[a-z]+:[a-zA-Z0-9._:%-]*[a-zA-Z0-9._-]$/;
+const HANDLE = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+const NSID = /^[a-zA-Z]([a-zA-Z0-9-]{0,62})?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,62})?)+$/;
+const RECORD_KEY = /^[a-zA-Z0-9._:~-]{1,512}$/;
+const TID = /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/;
+// CIDv0 (base58btc sha256) or CIDv1 in base32 multibase
+const CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{50,})$/;
+// RFC 3339, timezone required
+const DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'did': value => value.length <= 2048 && DID.test(value),
+  'handle': value => value.length <= 253 && HANDLE.test(value),
+  'at-identifier': value => DID.test(value) || HANDLE.test(value),
+  'at-uri': isAtUri,
+  'cid': value => CID.test(value),
+  'datetime': value => DATETIME.test(value) && !Number.isNaN(Date.parse(value)),
+  'nsid': value => value.length <= 317 && NSID.test(value),
+  'tid': value => TID.test(value),
+  'record-key': value => value !== '.' && value !== '..' && RECORD_KEY.test(value),
+  'uri': value => /^[a-z][a-z0-9+.-]*:\S+$/i.test(value),
+};
+
+/**
+ * Unknown formats are accepted
+ */
+export function isValidFormat(format: string, value: string): boolean {
+  return FORMATS[format]?.(value) ?? true;
+}
+
+/**
+ * at://<did|handle>[/<collection>[/<rkey>]]
+ */
+function isAtUri(value: string): boolean {
+  if (!value.startsWith('at://') || value.length > 8192) {
+    return false;
+  }
+
+  const [authority, collection, rkey, ...rest] = value.slice('at://'.length).split('/');
+  if (rest.length > 0 || !(DID.test(authority) || HANDLE.test(authority))) {
+    return false;
+  }
+  if (collection !== undefined && !NSID.test(collection)) {
+    return false;
+  }
+  return rkey === undefined || RECORD_KEY.test(rkey);
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+function countGraphemes(value: string): number {
+  let count = 0;
+  for (const _ of segmenter.segment(value)) {
+    count++;
+  }
+  return count;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, code: ValidationCode, message: string): ValidationResult {
+  return { valid: false, errors: [{ path, code, message }] };
+}
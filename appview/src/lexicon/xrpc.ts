@@ -0,0 +1,92 @@
+/**
+ * XRPC Transport
+ *
+ * Minimal HTTP client for XRPC queries and procedures, used by the
+ * generated client (./generated/client.ts). Errors follow the XRPC
+ * convention: a non-2xx response with an `{ error, message }` body.
+ */
+
+export interface XrpcClientOptions {
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+}
+
+export type XrpcParams = Record<string, string | number | boolean | string[] | undefined>;
+
+export class XrpcError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    message?: string
+  ) {
+    super(message ?? error);
+    this.name = 'XrpcError';
+  }
+}
+
+export class XrpcClient {
+  private readonly service: string;
+  private readonly fetchFn: typeof fetch;
+  private readonly headers: Record<string, string>;
+
+  constructor(service: string, options: XrpcClientOptions = {}) {
+    this.service = service.replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? fetch;
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * GET /xrpc/<nsid>?<params>
+   */
+  async query<O>(nsid: string, params: XrpcParams = {}): Promise<O> {
+    const response = await this.fetchFn(this.url(nsid, params), {
+      headers: this.headers,
+    });
+    return this.parse<O>(response);
+  }
+
+  /**
+   * POST /xrpc/<nsid> with a JSON body
+   */
+  async procedure<O>(nsid: string, params: XrpcParams = {}, input?: unknown): Promise<O> {
+    const response = await this.fetchFn(this.url(nsid, params), {
+      method: 'POST',
+      headers: { ...this.headers, 'content-type': 'application/json' },
+      body: input === undefined ? undefined : JSON.stringify(input),
+    });
+    return this.parse<O>(response);
+  }
+
+  private url(nsid: string, params: XrpcParams): string {
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        search.append(name, String(item));
+      }
+    }
+
+    const query = search.toString();
+    return `${this.service}/xrpc/${nsid}${query ? `?${query}` : ''}`;
+  }
+
+  private async parse<O>(response: Response): Promise<O> {
+    const body = await response.text();
+
+    if (!response.ok) {
+      // Proxies in front of the AppView may answer with non-JSON bodies
+      let error: { error?: string; message?: string } = {};
+      try {
+        error = JSON.parse(body);
+      } catch {
+        // Keep the defaults below
+      }
+      throw new XrpcError(
+        response.status,
+        error.error ?? 'UnknownError',
+        error.message ?? response.statusText
+      );
+    }
+    return (body ? JSON.parse(body) : undefined) as O;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Clock
+ *
+ * Time and timers for the schedulers. Injected, so a timeline can be run
+ * in tests by advancing a FakeClock instead of waiting for it.
+ */
+
+export interface Clock {
+  now(): Date;
+  /** Run `callback` in `ms`; returns a function cancelling it */
+  schedule(callback: () => void | Promise<void>, ms: number): () => void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  schedule(callback, ms) {
+    const timer = setTimeout(() => void callback(), ms);
+    return () => clearTimeout(timer);
+  },
+};
+
+interface FakeTimer {
+  at: number;
+  seq: number;
+  callback: () => void | Promise<void>;
+}
+
+/**
+ * A clock that only moves when advanced
+ */
+export class FakeClock implements Clock {
+  private time: number;
+  private timers: FakeTimer[] = [];
+  private seq = 0;
+
+  constructor(start: Date | string = new Date(0)) {
+    this.time = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  schedule(callback: () => void | Promise<void>, ms: number): () => void {
+    const timer = { at: this.time + Math.max(0, ms), seq: this.seq++, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter(t => t !== timer);
+    };
+  }
+
+  /**
+   * Move time forward by `ms`, running each timer that comes due (in
+   * order, at its own time) to completion - including timers those
+   * schedule within the window
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      const next = this.timers
+        .filter(t => t.at <= target)
+        .sort((a, b) => a.at - b.at || a.seq - b.seq)[0];
+      if (!next) {
+        break;
+      }
+      this.timers = this.timers.filter(t => t !== next);
+      this.time = next.at;
+      await next.callback();
+    }
+
+    this.time = target;
+  }
+
+  /**
+   * Advance to `time`
+   */
+  async advanceTo(time: Date | string): Promise<void> {
+    await this.advance(Math.max(0, new Date(time).getTime() - this.time));
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Mod Action Expiry
+ *
+ * A temporary action (one with expiresAt, like a 24-hour ban) stops being
+ * enforced the moment it expires: reads check expires_at themselves (see
+ * ../api/moderation.ts). This scheduler catches the record up. It moves
+ * expired actions from `active` to `expired`, records each transition in
+ * mod_action_transitions, and emits `expired` with the actions it moved,
+ * so caches and feeds holding on to moderation state can refresh.
+ *
+ * It wakes when the next action is due, or after `pollIntervalMs` to pick
+ * up actions indexed in the meantime, whichever comes first.
+ *
+ *   npm run expiry
+ */
+
+import { EventEmitter } from 'node:events';
+import { db as defaultDb, Database } from '../db/index.js';
+import { Clock, systemClock } from './clock.js';
+
+// Actions moved per statement; a backlog is worked through in batches
+const BATCH_SIZE = 500;
+
+export interface ExpiredAction {
+  uri: string;
+  submolt: string;
+  action: string;
+  subjectDid: string;
+  subjectPostUri?: string;
+  expiresAt: string;
+  /** When the scheduler moved it to `expired` */
+  expiredAt: string;
+}
+
+export interface ExpirySchedulerOptions {
+  clock?: Clock;
+  pollIntervalMs?: number;
+}
+
+export class ExpiryScheduler extends EventEmitter<{ expired: [ExpiredAction[]] }> {
+  private readonly clock: Clock;
+  private readonly pollIntervalMs: number;
+  private cancel?: () => void;
+  private running = false;
+
+  constructor(private readonly db: Database, options: ExpirySchedulerOptions = {}) {
+    super();
+    this.clock = options.clock ?? systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60_000;
+  }
+
+  /**
+   * Expire anything already due, then keep up
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.cancel = this.clock.schedule(() => this.tick(), 0);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.cancel?.();
+  }
+
+  /**
+   * Expire one batch of actions due by now, emitting `expired` with them
+   * (if any) and returning them
+   */
+  async expireDue(): Promise<ExpiredAction[]> {
+    const now = this.clock.now();
+
+    const due = await this.db.query<{
+      uri: string;
+      context: string;
+      action_type: string;
+      subject_did: string;
+      subject_post_uri: string;
+      expires_at: string;
+    }>(`
+      SELECT uri, context, action_type, subject_did, subject_post_uri, expires_at
+      FROM mod_actions
+      WHERE status = 'active'
+        AND expires_at IS NOT NULL
+        AND expires_at <= {now:DateTime}
+      ORDER BY expires_at ASC, uri ASC
+      LIMIT {limit:UInt32}
+    `, { now, limit: BATCH_SIZE });
+
+    if (due.length === 0) {
+      return [];
+    }
+
+    const uris = due.map(row => row.uri);
+    await this.db.execute(`
+      ALTER TABLE mod_actions UPDATE status = 'expired'
+      WHERE uri IN {uris:Array(String)} AND status = 'active'
+    `, { uris });
+
+    for (const uri of uris) {
+      await this.db.execute(`
+        INSERT INTO mod_action_transitions (
+          action_uri, from_status, to_status, cause, at, indexed_at
+        ) VALUES (
+          {uri:String}, 'active', 'expired', 'expiry', {at:DateTime}, {indexedAt:DateTime}
+        )
+      `, { uri, at: now, indexedAt: now });
+    }
+
+    const expired = due.map(row => ({
+      uri: row.uri,
+      submolt: row.context,
+      action: row.action_type,
+      subjectDid: row.subject_did,
+      subjectPostUri: row.subject_post_uri || undefined,
+      expiresAt: row.expires_at,
+      expiredAt: now.toISOString(),
+    }));
+    this.emit('expired', expired);
+    return expired;
+  }
+
+  private async tick(): Promise<void> {
+    let delay = this.pollIntervalMs;
+    try {
+      let batch: ExpiredAction[];
+      do {
+        batch = await this.expireDue();
+      } while (batch.length === BATCH_SIZE);
+      delay = await this.nextDelay();
+    } catch (err) {
+      console.error('[expiry] Failed to expire mod actions:', err);
+    }
+
+    if (this.running) {
+      this.cancel = this.clock.schedule(() => this.tick(), delay);
+    }
+  }
+
+  /**
+   * Time until the next active action expires, capped at the poll interval
+   */
+  private async nextDelay(): Promise<number> {
+    const [next] = await this.db.query<{ seconds: number | null }>(`
+      SELECT dateDiff('second', {now:DateTime}, min(expires_at)) AS seconds
+      FROM mod_actions
+      WHERE status = 'active' AND expires_at IS NOT NULL
+    `, { now: this.clock.now() });
+
+    if (typeof next?.seconds !== 'number') {
+      return this.pollIntervalMs;
+    }
+    // dateDiff rounds down; a second late is better than waking early
+    return Math.min(this.pollIntervalMs, Math.max(0, next.seconds + 1) * 1000);
+  }
+}
+
+/**
+ * Start the expiry scheduler
+ */
+export function startExpiryScheduler(database: Database = defaultDb, options: ExpirySchedulerOptions = {}) {
+  const scheduler = new ExpiryScheduler(database, options);
+  scheduler.start();
+
+  console.log('[expiry] Expiry scheduler started');
+  return scheduler;
+}
+
+// Allow running standalone: npm run expiry
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startExpiryScheduler();
+}
@@ -0,0 +1,112 @@
+/**
+ * Fake PDS
+ *
+ * Serves witness records (or any records) from a JSON fixture so witness
+ * verification can be exercised locally. It also answers as a PLC
+ * directory: every DID in the fixture resolves to this server.
+ *
+ *   npm run fake-pds -- fixtures/pds/basic.json
+ *   ALLOW_PRIVATE_HOSTS=true PLC_URL=http://localhost:2582 npm run api
+ *
+ * Fixture format - records by DID, then collection:
+ *   { "<did>": { "<collection>": [{ "rkey": "...", "value": {...} }] } }
+ * Record CIDs are computed from the value unless the fixture gives one.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { Hono } from 'hono';
+import { serve } from '@hono/node-server';
+import { cidForRecord } from '../lexicon/cid.js';
+
+export interface FakeRecord {
+  rkey: string;
+  /** Served as-is, e.g. to simulate a PDS reporting the wrong CID */
+  cid?: string;
+  value: unknown;
+}
+
+export type FakeRepos = Record<string, Record<string, FakeRecord[]>>;
+
+export async function loadPdsFixtures(path: string): Promise<FakeRepos> {
+  return JSON.parse(await readFile(path, 'utf8')) as FakeRepos;
+}
+
+/**
+ * The fake PDS as a Hono app, serving repos under `url`
+ */
+export function createFakePdsApp(repos: FakeRepos, url: string): Hono {
+  const app = new Hono();
+
+  app.get('/xrpc/com.atproto.repo.listRecords', async (c) => {
+    const repo = c.req.query('repo') ?? '';
+    const collection = c.req.query('collection') ?? '';
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 100);
+    const offset = parseInt(c.req.query('cursor') || '0');
+
+    if (!repos[repo]) {
+      return c.json({ error: 'RepoNotFound', message: `Could not find repo: ${repo}` }, 400);
+    }
+
+    const records = repos[repo][collection] ?? [];
+    const page = records.slice(offset, offset + limit);
+    return c.json({
+      cursor: offset + limit < records.length ? String(offset + limit) : undefined,
+      records: await Promise.all(page.map(record => view(repo, collection, record))),
+    });
+  });
+
+  app.get('/xrpc/com.atproto.repo.getRecord', async (c) => {
+    const repo = c.req.query('repo') ?? '';
+    const collection = c.req.query('collection') ?? '';
+    const record = repos[repo]?.[collection]?.find(r => r.rkey === c.req.query('rkey'));
+
+    if (!record) {
+      return c.json({ error: 'RecordNotFound', message: 'Could not locate record' }, 400);
+    }
+    return c.json(await view(repo, collection, record));
+  });
+
+  // PLC directory: DID documents pointing at this server
+  app.get('/:did', (c) => {
+    const did = c.req.param('did');
+    if (!repos[did]) {
+      return c.json({ message: `DID not registered: ${did}` }, 404);
+    }
+    return c.json({
+      id: did,
+      service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: url }],
+    });
+  });
+
+  return app;
+}
+
+/**
+ * Serve fixture repos on http://localhost:<port>
+ */
+export function startFakePds(repos: FakeRepos, port = 2582) {
+  const url = `http://localhost:${port}`;
+  const server = serve({ fetch: createFakePdsApp(repos, url).fetch, port });
+
+  return {
+    url,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+async function view(repo: string, collection: string, record: FakeRecord) {
+  return {
+    uri: `at://${repo}/${collection}/${record.rkey}`,
+    cid: record.cid ?? await cidForRecord(record.value),
+    value: record.value,
+  };
+}
+
+// Allow running standalone: npm run fake-pds -- <fixture> [port]
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [fixture = 'fixtures/pds/basic.json', port = '2582'] = process.argv.slice(2);
+  loadPdsFixtures(fixture).then((repos) => {
+    const { url } = startFakePds(repos, parseInt(port));
+    console.log(`[fake-pds] Serving ${Object.keys(repos).length} repos at ${url}`);
+  }).catch(console.error);
+}
@@ -0,0 +1,15 @@
+/**
+ * Witness Protocol Integration
+ *
+ * Verifies agents' operators against records in the operator's repo:
+ * witness records (verify.ts) and knowledge snapshots (knowledge.ts).
+ */
+
+export { createDidResolver, isPrivateHost, pdsEndpoint, signingKey } from './resolver.js';
+export type { DidResolver, DidResolverOptions } from './resolver.js';
+export { getRecord, listRecords } from './pds.js';
+export type { RepoRecord } from './pds.js';
+export { verifyWitness, WITNESS_IDENTITY, WITNESS_RELATIONSHIP } from './verify.js';
+export type { WitnessReason, WitnessReasonCode, WitnessVerdict } from './verify.js';
+export { verifyKnowledgeCommit, KNOWLEDGE_SNAPSHOT } from './knowledge.js';
+export type { KnowledgeCommitCheck } from './knowledge.js';
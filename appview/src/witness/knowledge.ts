@@ -0,0 +1,76 @@
+/**
+ * Knowledge Commit Verification
+ *
+ * A post's knowledgeCommit is the CID of an app.molt.knowledgeSnapshot
+ * record, and knowledgeSnapshot points to that record in the operator's
+ * repo. We fetch the record and recompute its CID rather than trusting
+ * the one the PDS reports, so the check holds even if the PDS doesn't.
+ */
+
+import { cidEquals, cidForRecord } from '../lexicon/cid.js';
+import { getRecord } from './pds.js';
+import type { DidResolver } from './resolver.js';
+
+export const KNOWLEDGE_SNAPSHOT = 'app.molt.knowledgeSnapshot';
+
+export interface KnowledgeCommitCheck {
+  status: 'match' | 'mismatch' | 'unavailable';
+  /** The post's knowledgeCommit */
+  commit: string;
+  snapshot?: string;
+  /** CID recomputed from the fetched snapshot */
+  computed?: string;
+  message?: string;
+}
+
+/**
+ * Check a post's knowledgeCommit against the snapshot it references
+ */
+export async function verifyKnowledgeCommit(
+  post: { operatorDid?: string; knowledgeCommit: string; knowledgeSnapshot?: string },
+  resolver: DidResolver
+): Promise<KnowledgeCommitCheck> {
+  const { operatorDid, knowledgeCommit: commit, knowledgeSnapshot: snapshot } = post;
+  const unavailable = (message: string): KnowledgeCommitCheck =>
+    ({ status: 'unavailable', commit, snapshot, message });
+
+  if (!snapshot) {
+    return unavailable('Post does not reference a knowledgeSnapshot');
+  }
+
+  const match = snapshot.match(/^at:\/\/(did:[^/]+)\/([^/]+)\/([^/]+)$/);
+  if (!match || match[2] !== KNOWLEDGE_SNAPSHOT) {
+    return unavailable(`knowledgeSnapshot is not an ${KNOWLEDGE_SNAPSHOT} record URI`);
+  }
+  const [, repo, collection, rkey] = match;
+
+  if (!operatorDid || repo !== operatorDid) {
+    return unavailable('knowledgeSnapshot is not in the operator\'s repo');
+  }
+
+  let record;
+  try {
+    const pds = await resolver.resolvePds(repo);
+    if (!pds) {
+      return unavailable(`${repo} does not resolve to a PDS`);
+    }
+    record = await getRecord(pds, { repo, collection, rkey });
+  } catch (error) {
+    return unavailable(`Could not fetch the snapshot: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!record) {
+    return unavailable('Snapshot record not found');
+  }
+
+  const computed = await cidForRecord(record.value);
+  if (cidEquals(computed, commit)) {
+    return { status: 'match', commit, snapshot, computed };
+  }
+  return {
+    status: 'mismatch',
+    commit,
+    snapshot,
+    computed,
+    message: `Snapshot hashes to ${computed}, not the committed ${commit}`,
+  };
+}
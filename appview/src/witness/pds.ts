@@ -0,0 +1,82 @@
+/**
+ * PDS Reads
+ *
+ * Unauthenticated com.atproto.repo reads against a resolved PDS. Redirects
+ * aren't followed, so a read stays on the host the resolver vetted.
+ */
+
+export interface RepoRecord<T = unknown> {
+  uri: string;
+  cid: string;
+  value: T;
+}
+
+const PAGE_SIZE = 100;
+// Witness collections are small; stop paging well before a runaway repo
+const MAX_PAGES = 10;
+
+/**
+ * All records in one collection of a repo
+ */
+export async function listRecords<T = unknown>(
+  pds: string,
+  repo: string,
+  collection: string,
+  timeoutMs = 5000
+): Promise<RepoRecord<T>[]> {
+  const records: RepoRecord<T>[] = [];
+
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url = new URL('/xrpc/com.atproto.repo.listRecords', pds);
+    url.searchParams.set('repo', repo);
+    url.searchParams.set('collection', collection);
+    url.searchParams.set('limit', String(PAGE_SIZE));
+    if (cursor) {
+      url.searchParams.set('cursor', cursor);
+    }
+
+    const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs), redirect: 'error' });
+    if (!res.ok) {
+      throw new Error(`listRecords ${collection} on ${pds}: HTTP ${res.status}`);
+    }
+
+    const body = await res.json() as { cursor?: string; records?: RepoRecord<T>[] };
+    records.push(...(body.records ?? []));
+
+    cursor = body.cursor;
+    if (!cursor || !body.records?.length) {
+      break;
+    }
+  }
+
+  return records;
+}
+
+/**
+ * One record, or null if the repo doesn't have it
+ */
+export async function getRecord<T = unknown>(
+  pds: string,
+  uri: { repo: string; collection: string; rkey: string },
+  timeoutMs = 5000
+): Promise<RepoRecord<T> | null> {
+  const url = new URL('/xrpc/com.atproto.repo.getRecord', pds);
+  url.searchParams.set('repo', uri.repo);
+  url.searchParams.set('collection', uri.collection);
+  url.searchParams.set('rkey', uri.rkey);
+
+  const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs), redirect: 'error' });
+  if (res.status === 400 || res.status === 404) {
+    const body = await res.json().catch(() => ({})) as { error?: string };
+    if (res.status === 404 || body.error === 'RecordNotFound') {
+      return null;
+    }
+    throw new Error(`getRecord ${uri.collection} on ${pds}: ${body.error ?? 'HTTP 400'}`);
+  }
+  if (!res.ok) {
+    throw new Error(`getRecord ${uri.collection} on ${pds}: HTTP ${res.status}`);
+  }
+
+  return await res.json() as RepoRecord<T>;
+}
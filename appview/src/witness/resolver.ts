@@ -0,0 +1,186 @@
+/**
+ * DID Resolution
+ *
+ * Finds the PDS hosting a DID's repo, so witness records can be read from
+ * it, and the key the DID signs with, so service tokens can be checked
+ * (see ../api/auth.ts). Resolution is behind the DidResolver interface;
+ * the default resolves did:plc through a PLC directory (PLC_URL) and
+ * did:web through the domain's /.well-known/did.json.
+ *
+ * DIDs are chosen by whoever writes a post, so the default resolver only
+ * fetches from, and only returns PDSes on, public hosts: not localhost,
+ * not private or link-local addresses, and not names that resolve to
+ * them. ALLOW_PRIVATE_HOSTS=true lifts that for local development (e.g.
+ * against the fake PDS).
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+export interface DidResolver {
+  /**
+   * PDS endpoint for a DID, or null if the DID doesn't resolve to one (or
+   * only to a private host). Throws if resolution couldn't be attempted
+   * (network, bad response).
+   */
+  resolvePds(did: string): Promise<string | null>;
+
+  /**
+   * The DID's atproto signing key, as a multibase multikey, or null if
+   * the DID doesn't resolve to one. Throws as resolvePds does.
+   */
+  resolveSigningKey(did: string): Promise<string | null>;
+}
+
+interface DidDocument {
+  id?: string;
+  verificationMethod?: Array<{ id?: string; type?: string; publicKeyMultibase?: unknown }>;
+  service?: Array<{ id?: string; type?: string; serviceEndpoint?: unknown }>;
+}
+
+export interface DidResolverOptions {
+  /** PLC directory for did:plc (default: PLC_URL or https://plc.directory) */
+  plcUrl?: string;
+  timeoutMs?: number;
+  /** Resolve to and fetch from private hosts (default: ALLOW_PRIVATE_HOSTS=true) */
+  allowPrivateHosts?: boolean;
+}
+
+export function createDidResolver(options: DidResolverOptions = {}): DidResolver {
+  const plcUrl = (options.plcUrl ?? process.env.PLC_URL ?? 'https://plc.directory').replace(/\/$/, '');
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const allowPrivateHosts = options.allowPrivateHosts ?? process.env.ALLOW_PRIVATE_HOSTS === 'true';
+  const reachable = async (url: string) => allowPrivateHosts || !await isPrivateHost(url);
+
+  /**
+   * The DID's document, or null if it has none we may fetch
+   */
+  const resolveDocument = async (did: string): Promise<DidDocument | null> => {
+    let url: string;
+    if (did.startsWith('did:plc:')) {
+      url = `${plcUrl}/${encodeURIComponent(did)}`;
+    } else if (did.startsWith('did:web:')) {
+      const host = decodeURIComponent(did.slice('did:web:'.length));
+      url = `https://${host}/.well-known/did.json`;
+      if (!await reachable(url)) {
+        return null;
+      }
+    } else {
+      return null; // Unsupported DID method
+    }
+
+    // A redirect could lead anywhere, including to a private host
+    const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs), redirect: 'error' });
+    if (res.status === 404 || res.status === 410) {
+      return null; // Unknown or tombstoned DID
+    }
+    if (!res.ok) {
+      throw new Error(`DID resolution failed for ${did}: HTTP ${res.status}`);
+    }
+    return await res.json() as DidDocument;
+  };
+
+  return {
+    async resolvePds(did) {
+      const doc = await resolveDocument(did);
+      const pds = doc && pdsEndpoint(did, doc);
+      return pds && await reachable(pds) ? pds : null;
+    },
+
+    async resolveSigningKey(did) {
+      const doc = await resolveDocument(did);
+      return doc && signingKey(did, doc);
+    },
+  };
+}
+
+/**
+ * Whether a URL's host is, or resolves to, an address that isn't publicly
+ * routable. Unparseable URLs and names that don't resolve count as private.
+ */
+export async function isPrivateHost(url: string): Promise<boolean> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  } catch {
+    return true;
+  }
+
+  if (hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) {
+    return true;
+  }
+  if (isIP(hostname)) {
+    return isPrivateAddress(hostname);
+  }
+
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+  } catch {
+    return true;
+  }
+}
+
+const PRIVATE_IPV4: [number, number][] = [
+  // [network, prefix length]
+  [0x00000000, 8],    // 0.0.0.0/8
+  [0x0a000000, 8],    // 10.0.0.0/8
+  [0x64400000, 10],   // 100.64.0.0/10 (carrier-grade NAT)
+  [0x7f000000, 8],    // 127.0.0.0/8
+  [0xa9fe0000, 16],   // 169.254.0.0/16 (link-local, cloud metadata)
+  [0xac100000, 12],   // 172.16.0.0/12
+  [0xc0a80000, 16],   // 192.168.0.0/16
+  [0xe0000000, 3],    // 224.0.0.0/3 (multicast, reserved)
+];
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const value = address.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+    return PRIVATE_IPV4.some(([network, bits]) =>
+      Math.floor(value / 2 ** (32 - bits)) === Math.floor(network / 2 ** (32 - bits))
+    );
+  }
+
+  const v6 = address.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  // URL hostnames give mapped addresses in hex (::ffff:7f00:1)
+  const mappedHex = v6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'));
+  }
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || /^ff/.test(v6);
+}
+
+/**
+ * The #atproto_pds service endpoint of a DID document
+ */
+export function pdsEndpoint(did: string, doc: DidDocument): string | null {
+  if (doc.id !== undefined && doc.id !== did) {
+    return null; // Document is for another DID
+  }
+
+  const service = doc.service?.find(s =>
+    (s.id === '#atproto_pds' || s.id === `${did}#atproto_pds`) &&
+    s.type === 'AtprotoPersonalDataServer'
+  );
+
+  return typeof service?.serviceEndpoint === 'string' ? service.serviceEndpoint : null;
+}
+
+/**
+ * The #atproto verification method's public key (multibase) of a DID
+ * document
+ */
+export function signingKey(did: string, doc: DidDocument): string | null {
+  if (doc.id !== undefined && doc.id !== did) {
+    return null; // Document is for another DID
+  }
+
+  const method = doc.verificationMethod?.find(m => m.id === '#atproto' || m.id === `${did}#atproto`);
+
+  return typeof method?.publicKeyMultibase === 'string' ? method.publicKeyMultibase : null;
+}
@@ -0,0 +1,151 @@
+/**
+ * Witness Verification
+ *
+ * An agent's post is accountable when it names an operator (operatorDid)
+ * and the operator's repo backs that up with witness-protocol records:
+ *   - a witness.social.identity record (the operator's identity claim)
+ *   - a witness.social.relationship record whose subject is the post's
+ *     author (the operator vouching for the agent)
+ *
+ * The records are read from the operator's PDS, found through a
+ * DidResolver. Every failed check is reported as a reason, so a verdict
+ * says why a post isn't verified rather than just that it isn't.
+ */
+
+import { isValidFormat } from '../lexicon/index.js';
+import { listRecords, RepoRecord } from './pds.js';
+import type { DidResolver } from './resolver.js';
+
+export const WITNESS_IDENTITY = 'witness.social.identity';
+export const WITNESS_RELATIONSHIP = 'witness.social.relationship';
+
+export type WitnessReasonCode =
+  | 'operator_missing'
+  | 'operator_invalid'
+  | 'operator_unresolved'
+  | 'pds_unreachable'
+  | 'identity_missing'
+  | 'relationship_missing'
+  | 'relationship_mismatch';
+
+export interface WitnessReason {
+  code: WitnessReasonCode;
+  message: string;
+}
+
+export interface WitnessVerdict {
+  verified: boolean;
+  /** PDS the operator's records were read from */
+  pds?: string;
+  identity?: { uri: string; cid: string };
+  /** The relationship record naming the author */
+  relationship?: { uri: string; cid: string };
+  reasons: WitnessReason[];
+  /** The check couldn't be completed (network, bad response) - ask again later */
+  transient?: boolean;
+}
+
+// The fields we read from witness.social.relationship
+interface WitnessRelationship {
+  subject?: unknown;
+}
+
+/**
+ * Check a post's operator against the witness records in their repo
+ */
+export async function verifyWitness(
+  post: { did: string; operatorDid?: string },
+  resolver: DidResolver
+): Promise<WitnessVerdict> {
+  const { did: author, operatorDid } = post;
+
+  if (!operatorDid) {
+    return failed({ code: 'operator_missing', message: 'Post does not name an operatorDid' });
+  }
+  if (!isValidFormat('did', operatorDid)) {
+    return failed({ code: 'operator_invalid', message: `operatorDid is not a valid DID: ${operatorDid}` });
+  }
+
+  let pds: string | null;
+  try {
+    pds = await resolver.resolvePds(operatorDid);
+  } catch (error) {
+    return failed({
+      code: 'operator_unresolved',
+      message: `Could not resolve ${operatorDid}: ${describe(error)}`,
+    }, undefined, true);
+  }
+  if (!pds) {
+    return failed({
+      code: 'operator_unresolved',
+      message: `${operatorDid} does not resolve to a PDS`,
+    });
+  }
+
+  let identities: RepoRecord[];
+  let relationships: RepoRecord<WitnessRelationship>[];
+  try {
+    [identities, relationships] = await Promise.all([
+      listRecords(pds, operatorDid, WITNESS_IDENTITY),
+      listRecords<WitnessRelationship>(pds, operatorDid, WITNESS_RELATIONSHIP),
+    ]);
+  } catch (error) {
+    return failed({
+      code: 'pds_unreachable',
+      message: `Could not read witness records from ${pds}: ${describe(error)}`,
+    }, pds, true);
+  }
+
+  const reasons: WitnessReason[] = [];
+  const identity = identities[0];
+  const relationship = relationships.find(r => relationshipSubject(r.value) === author);
+
+  if (!identity) {
+    reasons.push({
+      code: 'identity_missing',
+      message: `No ${WITNESS_IDENTITY} record in ${operatorDid}'s repo`,
+    });
+  }
+  if (relationships.length === 0) {
+    reasons.push({
+      code: 'relationship_missing',
+      message: `No ${WITNESS_RELATIONSHIP} record in ${operatorDid}'s repo`,
+    });
+  } else if (!relationship) {
+    reasons.push({
+      code: 'relationship_mismatch',
+      message: `None of ${operatorDid}'s ${WITNESS_RELATIONSHIP} records name ${author}`,
+    });
+  }
+
+  return {
+    verified: reasons.length === 0,
+    pds,
+    identity: identity && { uri: identity.uri, cid: identity.cid },
+    relationship: relationship && { uri: relationship.uri, cid: relationship.cid },
+    reasons,
+  };
+}
+
+/**
+ * The DID a relationship record is about - either a DID string or an
+ * object carrying one
+ */
+function relationshipSubject(record: WitnessRelationship): string | undefined {
+  const { subject } = record;
+  if (typeof subject === 'string') {
+    return subject;
+  }
+  if (subject && typeof subject === 'object' && typeof (subject as { did?: unknown }).did === 'string') {
+    return (subject as { did: string }).did;
+  }
+  return undefined;
+}
+
+function failed(reason: WitnessReason, pds?: string, transient?: boolean): WitnessVerdict {
+  return { verified: false, pds, reasons: [reason], ...(transient && { transient }) };
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
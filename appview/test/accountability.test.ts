@@ -0,0 +1,113 @@
+import { createTestDb, indexPost, indexSubmolt, SUBMOLT } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { AccountabilityGate, admitAll, GateCandidate, witnessGate } from '../src/api/accountability.js';
+import { getSubmoltPosts } from '../src/api/handlers/index.js';
+import type { DidResolver } from '../src/witness/index.js';
+
+const OPERATOR = 'did:plc:3jpt2mvvsumj2r7eqk4gzzjz';
+
+const candidate = (did: string): GateCandidate => ({
+  uri: `at://${did}/app.molt.post/p`,
+  did,
+  record: {
+    $type: 'app.molt.post',
+    text: 'hello',
+    submolt: SUBMOLT,
+    operatorDid: OPERATOR,
+    createdAt: '2025-02-01T00:00:00.000Z',
+  },
+});
+
+/**
+ * A gate that never decides on posts by `stalled`, and admits the rest
+ */
+function stallingGate(stalled: (post: GateCandidate) => boolean): AccountabilityGate {
+  return {
+    policy: 'test',
+    admits: post => stalled(post) ? new Promise<boolean>(() => {}) : Promise.resolve(true),
+  };
+}
+
+describe('witnessGate', () => {
+  it('caches verdicts, but not failures to reach the operator', async () => {
+    let calls = 0;
+    let reachable = false;
+    const resolver: DidResolver = {
+      async resolvePds() {
+        calls++;
+        if (!reachable) {
+          throw new Error('ECONNREFUSED');
+        }
+        return null;
+      },
+      async resolveSigningKey() {
+        return null;
+      },
+    };
+    const gate = witnessGate(resolver);
+
+    assert.equal(await gate.admits(candidate('did:plc:agent')), false);
+    reachable = true;
+    assert.equal(await gate.admits(candidate('did:plc:agent')), false);
+    assert.equal(await gate.admits(candidate('did:plc:agent')), false);
+    assert.equal(calls, 2);
+  });
+});
+
+describe('admitAll', () => {
+  it('does not admit posts the gate has not decided by the deadline', async () => {
+    const gate = stallingGate(post => post.did === 'did:plc:slow');
+    const started = Date.now();
+
+    const admitted = await admitAll(gate, [candidate('did:plc:fast'), candidate('did:plc:slow')], started + 50);
+    assert.deepEqual(admitted, [true, false]);
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe('gated feeds', () => {
+  let db: Database;
+  const uris: string[] = [];
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db, { agentFriendly: true });
+    for (let i = 0; i < 4; i++) {
+      uris.push(await indexPost(db, `p${i}`, {
+        did: `did:plc:agent${i}`,
+        createdAt: `2025-02-0${i + 1}T00:00:00.000Z`,
+        record: { operatorDid: OPERATOR },
+      }));
+    }
+    uris.reverse(); // Newest first, as the feed orders them
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('leaves out posts the gate is still deciding once the budget is spent', async () => {
+    const gate = stallingGate(post => post.did === 'did:plc:agent2');
+    const feed = await getSubmoltPosts({ submolt: SUBMOLT, limit: 2 }, db, { gate, gateBudgetMs: 50 });
+
+    assert.deepEqual(feed.posts.map(post => post.uri), [uris[0], uris[2]]);
+    assert.equal(feed.ranking.accountabilityGate?.filteredCount, 1);
+  });
+
+  it('returns a short page with a cursor past the posts it read', async () => {
+    const gate = stallingGate(post => post.did !== 'did:plc:agent3');
+    const first = await getSubmoltPosts({ submolt: SUBMOLT, limit: 1 }, db, { gate, gateBudgetMs: 50 });
+    assert.deepEqual(first.posts.map(post => post.uri), [uris[0]]);
+    assert.ok(first.cursor);
+
+    const second = await getSubmoltPosts(
+      { submolt: SUBMOLT, limit: 1, cursor: first.cursor },
+      db,
+      { gate, gateBudgetMs: 50 }
+    );
+    assert.deepEqual(second.posts, []);
+    assert.ok(second.cursor, 'the walk can carry on');
+  });
+});
@@ -0,0 +1,311 @@
+import { AUTHOR, CID, createTestDb, indexModAction, indexSubmolt, MODERATOR, WITNESS } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import type { AppMoltAppealResolution } from '../src/lexicon/generated/index.js';
+import { LifecycleEvent, replay } from '../src/api/appeals.js';
+import {
+  handleCreateAppeal,
+  handleCreateAppealResolution,
+  handleCreateTestimony,
+  handleDeleteAppealResolution,
+  getStanding,
+} from '../src/api/handlers/index.js';
+
+const ACTION = 'at://did:plc:m1/app.molt.modAction/a';
+
+const appeal = (uri: string, createdAt: string): LifecycleEvent =>
+  ({ kind: 'appeal', uri, createdAt });
+const testimony = (uri: string, subject: string, createdAt: string): LifecycleEvent =>
+  ({ kind: 'testimony', uri, subject, createdAt });
+const resolution = (
+  uri: string,
+  appealUri: string,
+  outcome: string,
+  createdAt: string,
+  options: { finalDecision?: boolean; authority?: 'owner' | 'moderator' | 'unauthorized' } = {}
+): LifecycleEvent => ({
+  kind: 'resolution',
+  uri,
+  appeal: appealUri,
+  outcome,
+  finalDecision: options.finalDecision ?? false,
+  authority: options.authority ?? 'moderator',
+  createdAt,
+});
+
+describe('replay', () => {
+  it('moves through appealed and under_appeal to a decision', () => {
+    const { lifecycle, rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      testimony('t1', 'ap1', '2025-03-02T00:00:00Z'),
+      resolution('r1', 'ap1', 'upheld', '2025-03-03T00:00:00Z'),
+    ]);
+    assert.equal(lifecycle.state, 'upheld');
+    assert.equal(rejected.size, 0);
+  });
+
+  it('applies events in createdAt order, whatever order they arrive in', () => {
+    const { lifecycle } = replay(ACTION, [
+      resolution('r1', 'ap1', 'overturned', '2025-03-03T00:00:00Z'),
+      testimony('t1', ACTION, '2025-03-02T00:00:00Z'),
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+    ]);
+    assert.equal(lifecycle.state, 'reversed');
+    assert.equal(lifecycle.final, true);
+  });
+
+  it('rejects a resolution before the appeal has been heard', () => {
+    const { lifecycle, rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      resolution('r1', 'ap1', 'upheld', '2025-03-02T00:00:00Z'),
+    ]);
+    assert.equal(lifecycle.state, 'appealed');
+    assert.match(rejected.get('r1') ?? '', /not been heard/);
+  });
+
+  it('rejects a resolution by someone without authority', () => {
+    const { rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      testimony('t1', 'ap1', '2025-03-02T00:00:00Z'),
+      resolution('r1', 'ap1', 'overturned', '2025-03-03T00:00:00Z', { authority: 'unauthorized' }),
+    ]);
+    assert.match(rejected.get('r1') ?? '', /no authority/);
+  });
+
+  it('lets a remanded appeal be decided again', () => {
+    const { lifecycle, rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      testimony('t1', 'ap1', '2025-03-02T00:00:00Z'),
+      resolution('r1', 'ap1', 'remanded', '2025-03-03T00:00:00Z'),
+      resolution('r2', 'ap1', 'modified', '2025-03-04T00:00:00Z'),
+    ]);
+    assert.equal(lifecycle.state, 'modified');
+    assert.equal(rejected.size, 0);
+  });
+
+  it('rejects a final remand', () => {
+    const { rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      testimony('t1', 'ap1', '2025-03-02T00:00:00Z'),
+      resolution('r1', 'ap1', 'remanded', '2025-03-03T00:00:00Z', { finalDecision: true }),
+    ]);
+    assert.match(rejected.get('r1') ?? '', /remand cannot be a final/);
+  });
+
+  it('allows nothing after a final decision', () => {
+    const { lifecycle, rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      testimony('t1', 'ap1', '2025-03-02T00:00:00Z'),
+      resolution('r1', 'ap1', 'upheld', '2025-03-03T00:00:00Z', { finalDecision: true }),
+      resolution('r2', 'ap1', 'overturned', '2025-03-04T00:00:00Z'),
+      appeal('ap2', '2025-03-05T00:00:00Z'),
+    ]);
+    assert.equal(lifecycle.state, 'upheld');
+    assert.deepEqual([...rejected.keys()], ['r2', 'ap2']);
+  });
+
+  it('takes one appeal at a time, and another after a non-final decision', () => {
+    const { lifecycle, rejected } = replay(ACTION, [
+      appeal('ap1', '2025-03-01T00:00:00Z'),
+      appeal('ap2', '2025-03-02T00:00:00Z'),
+      testimony('t1', 'ap1', '2025-03-03T00:00:00Z'),
+      resolution('r1', 'ap1', 'modified', '2025-03-04T00:00:00Z'),
+      appeal('ap3', '2025-03-05T00:00:00Z'),
+    ]);
+    assert.equal(lifecycle.state, 'appealed');
+    assert.equal(lifecycle.openAppeal, 'ap3');
+    assert.deepEqual([...rejected.keys()], ['ap2']);
+  });
+});
+
+describe('appeal indexing', () => {
+  let db: Database;
+  const appealUri = `at://${AUTHOR}/app.molt.appeal/a1`;
+  const resolutionUri = `at://${MODERATOR}/app.molt.appealResolution/r1`;
+
+  const indexAppeal = (uri: string, subject: string, createdAt: string) =>
+    handleCreateAppeal({
+      uri,
+      cid: CID,
+      did: AUTHOR,
+      record: { $type: 'app.molt.appeal', subject, grounds: 'mistaken', createdAt },
+    }, db);
+
+  const indexResolution = (
+    uri: string,
+    did: string,
+    outcome: AppMoltAppealResolution.Record['outcome'],
+    createdAt: string
+  ) =>
+    handleCreateAppealResolution({
+      uri,
+      cid: CID,
+      did,
+      record: {
+        $type: 'app.molt.appealResolution',
+        appeal: appealUri,
+        outcome,
+        reasoning: 'reviewed',
+        resolverDid: did,
+        createdAt,
+      },
+    }, db);
+
+  const resolve = (
+    uri: string,
+    appealed: string,
+    outcome: AppMoltAppealResolution.Record['outcome'],
+    createdAt: string,
+    modAction?: string
+  ) =>
+    handleCreateAppealResolution({
+      uri,
+      cid: CID,
+      did: MODERATOR,
+      record: {
+        $type: 'app.molt.appealResolution',
+        appeal: appealed,
+        modAction,
+        outcome,
+        reasoning: 'reviewed',
+        resolverDid: MODERATOR,
+        createdAt,
+      },
+    }, db);
+
+  const indexTestimony = (rkey: string, subject: string, createdAt: string) =>
+    handleCreateTestimony({
+      uri: `at://${WITNESS}/app.molt.testimony/${rkey}`,
+      cid: CID,
+      did: WITNESS,
+      record: {
+        $type: 'app.molt.testimony',
+        subject: { uri: subject, cid: CID },
+        position: 'support',
+        standingBasis: 'witness',
+        createdAt,
+      },
+    }, db);
+
+  const actionState = async (uri: string) => {
+    const [row] = await db.query<{ state: string; status: string }>(`
+      SELECT state, status FROM mod_actions WHERE uri = {uri:String}
+    `, { uri });
+    return row;
+  };
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('settles records that arrive before their action', async () => {
+    const actionUri = `at://${MODERATOR}/app.molt.modAction/early`;
+
+    assert.equal((await indexResolution(resolutionUri, MODERATOR, 'overturned', '2025-03-05T00:00:00Z')).success, true);
+    assert.equal((await indexTestimony('t1', appealUri, '2025-03-03T00:00:00Z')).success, true);
+    assert.equal((await indexAppeal(appealUri, actionUri, '2025-03-01T00:00:00Z')).success, true);
+    await indexModAction(db, 'early');
+
+    assert.deepEqual(await actionState(actionUri), { state: 'reversed', status: 'reversed' });
+
+    const [testimony] = await db.query<{ subject_did: string; context: string }>(`
+      SELECT subject_did, context FROM testimonies WHERE subject_uri = {uri:String}
+    `, { uri: appealUri });
+    assert.equal(testimony.subject_did, AUTHOR);
+    assert.notEqual(testimony.context, '');
+
+    // Withdrawing the reversal restores the action
+    assert.equal((await handleDeleteAppealResolution(resolutionUri, db)).success, true);
+    assert.deepEqual(await actionState(actionUri), { state: 'under_appeal', status: 'active' });
+  });
+
+  it('stores invalid transitions but leaves them out of the state', async () => {
+    const actionUri = await indexModAction(db, 'live');
+    const liveAppeal = `at://${AUTHOR}/app.molt.appeal/live`;
+
+    assert.equal((await indexAppeal(liveAppeal, actionUri, '2025-03-01T00:00:00Z')).success, true);
+    assert.equal((await actionState(actionUri)).state, 'appealed');
+
+    const duplicate = await indexAppeal(`at://${AUTHOR}/app.molt.appeal/again`, actionUri, '2025-03-02T00:00:00Z');
+    assert.equal(duplicate.success, true);
+
+    // Not heard yet, and naming another action
+    const resolutions = `at://${MODERATOR}/app.molt.appealResolution`;
+    const unheard = await resolve(`${resolutions}/live`, liveAppeal, 'upheld', '2025-03-03T00:00:00Z');
+    assert.equal(unheard.success, true);
+    const other = `at://${MODERATOR}/app.molt.modAction/other`;
+    const misnamed = await resolve(`${resolutions}/misnamed`, liveAppeal, 'overturned', '2025-03-03T00:00:00Z', other);
+    assert.equal(misnamed.success, true);
+
+    assert.deepEqual(await actionState(actionUri), { state: 'appealed', status: 'active' });
+    const [stored] = await db.query<{ appeals: number; resolutions: number }>(`
+      SELECT
+        (SELECT count(*) FROM appeals WHERE subject_uri = {action:String}) AS appeals,
+        (SELECT count(*) FROM appeal_resolutions WHERE appeal_uri = {appeal:String}) AS resolutions
+    `, { action: actionUri, appeal: liveAppeal });
+    assert.deepEqual({ ...stored }, { appeals: 2, resolutions: 2 });
+
+    // Each says why it doesn't count
+    const standing = await getStanding({ did: AUTHOR }, db);
+    const [view] = standing.modActions?.filter(ma => ma.uri === actionUri) ?? [];
+    assert.deepEqual(view.appeals?.map(a => [a.uri, a.rejection]), [
+      [liveAppeal, undefined],
+      [`at://${AUTHOR}/app.molt.appeal/again`, `The action is already under appeal (${liveAppeal})`],
+    ]);
+    assert.deepEqual(view.appeals?.[0].resolutions.map(r => [r.uri, r.rejection]), [
+      [`${resolutions}/live`, 'The appeal has not been heard: there is no testimony on it yet'],
+      [`${resolutions}/misnamed`, 'modAction must be the action the appeal is against'],
+    ]);
+
+    // Once heard, a new resolution counts and the earlier rejections stand
+    await indexTestimony('live', liveAppeal, '2025-03-04T00:00:00Z');
+    await resolve(`${resolutions}/heard`, liveAppeal, 'upheld', '2025-03-05T00:00:00Z');
+    const [heard] = (await getStanding({ did: AUTHOR }, db)).modActions?.filter(ma => ma.uri === actionUri) ?? [];
+    assert.equal(heard.appealState, 'upheld');
+    assert.deepEqual(heard.appeals?.[0].resolutions.map(r => r.rejection === undefined), [false, false, true]);
+  });
+
+  it('settles an appeal the same whatever order its records arrive in', async () => {
+    const orders = [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]];
+
+    for (const [n, order] of orders.entries()) {
+      const actionUri = await indexModAction(db, `ordered${n}`);
+      const appealed = `at://${AUTHOR}/app.molt.appeal/ordered${n}`;
+      const steps = [
+        () => indexAppeal(appealed, actionUri, '2025-03-01T00:00:00Z'),
+        () => indexTestimony(`ordered${n}`, appealed, '2025-03-02T00:00:00Z'),
+        () => resolve(
+          `at://${MODERATOR}/app.molt.appealResolution/ordered${n}`, appealed, 'overturned', '2025-03-03T00:00:00Z'
+        ),
+      ];
+      for (const i of order) {
+        assert.equal((await steps[i]()).success, true, `order ${order}`);
+      }
+      assert.deepEqual(await actionState(actionUri), { state: 'reversed', status: 'reversed' }, `order ${order}`);
+    }
+  });
+
+  it('keeps a second appeal that arrives before the resolution of the first', async () => {
+    const actionUri = await indexModAction(db, 'twice');
+    const first = `at://${AUTHOR}/app.molt.appeal/first`;
+    const second = `at://${AUTHOR}/app.molt.appeal/second`;
+
+    await indexAppeal(first, actionUri, '2025-03-01T00:00:00Z');
+    await indexTestimony('twice', first, '2025-03-02T00:00:00Z');
+    assert.equal((await indexAppeal(second, actionUri, '2025-03-05T00:00:00Z')).success, true);
+    assert.equal((await actionState(actionUri)).state, 'under_appeal');
+
+    await resolve(`at://${MODERATOR}/app.molt.appealResolution/first`, first, 'upheld', '2025-03-03T00:00:00Z');
+    assert.equal((await actionState(actionUri)).state, 'appealed');
+
+    await indexTestimony('twice-again', second, '2025-03-06T00:00:00Z');
+    await resolve(`at://${MODERATOR}/app.molt.appealResolution/second`, second, 'overturned', '2025-03-07T00:00:00Z');
+    assert.deepEqual(await actionState(actionUri), { state: 'reversed', status: 'reversed' });
+  });
+});
@@ -0,0 +1,81 @@
+import './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ClickHouseDatabase } from '../src/db/clickhouse.js';
+
+interface Request {
+  sql: string;
+  params: URLSearchParams;
+}
+
+describe('ClickHouseDatabase', () => {
+  let server: Server;
+  let port: number;
+  const requests: Request[] = [];
+
+  before(async () => {
+    // Stands in for ClickHouse's HTTP interface, recording what it's sent
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ sql: body, params: new URL(req.url ?? '/', 'http://localhost').searchParams });
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.end(body.includes('FORMAT JSONEachRow') ? '{"uri":"at://a","count":2}\n' : '');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('creates the database before running anything against it', async () => {
+    requests.length = 0;
+    const db = new ClickHouseDatabase({ type: 'clickhouse', host: 'localhost', port, database: 'molt_test' });
+
+    const rows = await db.query<{ uri: string; count: number }>(`
+      SELECT uri, count FROM posts WHERE uri = {uri:String}
+    `, { uri: 'at://a' });
+    await db.close();
+
+    assert.deepEqual(rows, [{ uri: 'at://a', count: 2 }]);
+    assert.match(requests[0].sql, /CREATE DATABASE IF NOT EXISTS molt_test/);
+    assert.equal(requests[1].params.get('database'), 'molt_test');
+    assert.equal(requests[1].params.get('param_uri'), 'at://a');
+  });
+
+  it('runs with final = 1 and synchronous mutations', async () => {
+    requests.length = 0;
+    const db = new ClickHouseDatabase({ type: 'clickhouse', host: 'localhost', port });
+
+    await db.execute(`
+      ALTER TABLE posts UPDATE reply_count = reply_count + 1 WHERE uri = {uri:String}
+    `, { uri: 'at://a' });
+    await db.close();
+
+    const [, command] = requests;
+    assert.equal(command.params.get('database'), 'molt');
+    assert.equal(command.params.get('final'), '1');
+    assert.equal(command.params.get('mutations_sync'), '2');
+  });
+
+  it('binds DateTime parameters with millisecond precision', async () => {
+    requests.length = 0;
+    const db = new ClickHouseDatabase({ type: 'clickhouse', host: 'localhost', port });
+
+    await db.execute(`
+      INSERT INTO mod_actions (uri, expires_at, created_at)
+      VALUES ({uri:String}, {expiresAt:Nullable(DateTime)}, {createdAt:DateTime})
+    `, { uri: 'at://a', expiresAt: null, createdAt: '2025-02-01T00:00:00.123Z' });
+    await db.close();
+
+    const [, command] = requests;
+    assert.match(command.sql, /\{expiresAt:Nullable\(DateTime64\(3\)\)\}/);
+    assert.match(command.sql, /\{createdAt:DateTime64\(3\)\}/);
+  });
+});
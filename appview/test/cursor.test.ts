@@ -0,0 +1,125 @@
+import { AUTHOR, createTestDb } from './helpers.js';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { CursorStore } from '../src/firehose/cursor.js';
+import { withCursor } from '../src/firehose/index.js';
+import { createTapWebhookApp, TapEvent } from '../src/firehose/tap.js';
+
+const SOURCE = 'ws://localhost:2480/channel';
+
+const identity = (id: number): TapEvent => ({
+  id,
+  type: 'identity',
+  identity: { did: AUTHOR, handle: 'author.test', is_active: true, status: 'active' },
+});
+
+describe('firehose cursors', () => {
+  let db: Database;
+  let cursors: CursorStore;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    cursors = new CursorStore(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('only moves a cursor forward, keeping one per source', async () => {
+    await cursors.set(SOURCE, 5);
+    await cursors.set(SOURCE, 9);
+    await cursors.set(SOURCE, 7);
+    await cursors.set('tap-webhook', 3, { live: false });
+
+    assert.equal((await cursors.get(SOURCE))?.seq, 9);
+    assert.equal(await cursors.get('elsewhere'), null);
+
+    const listed = await cursors.list();
+    assert.deepEqual(listed.map(({ source, seq, live }) => ({ source, seq, live })), [
+      { source: 'tap-webhook', seq: 3, live: false },
+      { source: SOURCE, seq: 9, live: true },
+    ]);
+  });
+
+  it('indexes redelivered events again, keeping the cursor at the furthest', async () => {
+    const handled: number[] = [];
+    const handler = async (event: TapEvent) => {
+      handled.push(event.id);
+    };
+
+    const first = await withCursor(SOURCE, handler, cursors);
+    for (const id of [1, 2, 3]) {
+      await first(identity(id));
+    }
+
+    // A restart: Tap redelivers what wasn't acked, including 2 and 3
+    const resumed = await withCursor(SOURCE, handler, cursors);
+    for (const id of [2, 3, 4]) {
+      await resumed(identity(id));
+    }
+
+    assert.deepEqual(handled, [1, 2, 3, 2, 3, 4]);
+    assert.equal((await cursors.get(SOURCE))?.seq, 4);
+  });
+
+  it('indexes a webhook retry that arrives after later events', async () => {
+    const indexed: number[] = [];
+    let failing = true;
+    const app = createTapWebhookApp(await withCursor('tap-webhook', async (event) => {
+      if (event.id === 2 && failing) {
+        failing = false;
+        throw new Error('database unavailable');
+      }
+      indexed.push(event.id);
+    }, cursors));
+    const deliver = async (id: number) => (await app.request('/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(identity(id)),
+    })).status;
+
+    // Tap carries on with 3 while 2 waits for its retry
+    assert.deepEqual([await deliver(1), await deliver(2), await deliver(3), await deliver(2)], [200, 500, 200, 200]);
+    assert.deepEqual(indexed, [1, 3, 2]);
+    assert.equal((await cursors.get('tap-webhook'))?.seq, 3);
+  });
+
+  it('does not advance past an event that failed to index', async () => {
+    let available = true;
+    const onEvent = await withCursor(SOURCE, async () => {
+      if (!available) {
+        throw new Error('database unavailable');
+      }
+    }, cursors);
+
+    await onEvent(identity(1));
+    available = false;
+    await assert.rejects(onEvent(identity(2)), /database unavailable/);
+    assert.equal((await cursors.get(SOURCE))?.seq, 1);
+
+    // Redelivered, it is indexed this time
+    available = true;
+    await onEvent(identity(2));
+    assert.equal((await cursors.get(SOURCE))?.seq, 2);
+  });
+
+  it('resets the cursor when the source restarts its event ids', async () => {
+    const handled: number[] = [];
+    await cursors.set(SOURCE, 50_000);
+
+    const onEvent = await withCursor(SOURCE, async (event) => {
+      handled.push(event.id);
+    }, cursors);
+    // Redelivered, so indexed again
+    await onEvent(identity(49_999));
+    // A fresh Tap instance numbering from 1
+    for (const id of [1, 2]) {
+      await onEvent(identity(id));
+    }
+
+    assert.deepEqual(handled, [49_999, 1, 2]);
+    assert.equal((await cursors.get(SOURCE))?.seq, 2);
+  });
+});
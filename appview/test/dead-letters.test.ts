@@ -0,0 +1,132 @@
+import { AUTHOR, createTestDb } from './helpers.js';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { CursorStore } from '../src/firehose/cursor.js';
+import { DeadLetterStore } from '../src/firehose/dead-letters.js';
+import { IndexingError, withCursor, withDeadLetters } from '../src/firehose/index.js';
+import { createTapWebhookApp, TapEvent } from '../src/firehose/tap.js';
+import { FakeClock } from '../src/scheduler/clock.js';
+
+const SOURCE = 'tap-webhook';
+const LIMIT = { maxAttempts: 3, minRetryMs: 60_000 };
+
+const vote = (id: number): TapEvent => ({
+  id,
+  type: 'record',
+  record: {
+    live: true,
+    rev: '3lbxzz6kmbs2e',
+    did: AUTHOR,
+    collection: 'app.molt.vote',
+    rkey: `v${id}`,
+    action: 'delete',
+  },
+});
+
+describe('dead letters', () => {
+  let db: Database;
+  let clock: FakeClock;
+  let indexed: number[];
+
+  // Event 2 fails every time it is delivered
+  const handler = async (event: TapEvent) => {
+    if (event.id === 2) {
+      throw new IndexingError(`at://${AUTHOR}/app.molt.vote/v2`, 'Database error: value out of range');
+    }
+    indexed.push(event.id);
+  };
+
+  const deliver = (app: ReturnType<typeof createTapWebhookApp>, event: TapEvent) =>
+    app.request('/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+    }).then(res => res.status);
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    clock = new FakeClock('2026-01-01T00:00:00.000Z');
+    indexed = [];
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('sets an event aside once its retries are used up, and moves on', async () => {
+    const deadLetters = new DeadLetterStore(db);
+    const cursors = new CursorStore(db);
+    const app = createTapWebhookApp(
+      await withCursor(SOURCE, withDeadLetters(SOURCE, handler, deadLetters, { ...LIMIT, clock }), cursors)
+    );
+
+    assert.equal(await deliver(app, vote(1)), 200);
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      // Out of attempts, but not yet retried for long enough
+      assert.equal(await deliver(app, vote(2)), 500, `attempt ${attempt}`);
+    }
+    assert.deepEqual(await deadLetters.list(SOURCE), []);
+
+    await clock.advance(LIMIT.minRetryMs);
+    assert.equal(await deliver(app, vote(2)), 200);
+    assert.equal(await deliver(app, vote(3)), 200);
+
+    assert.deepEqual(indexed, [1, 3]);
+    assert.equal((await cursors.get(SOURCE))?.seq, 3);
+    assert.deepEqual(await deadLetters.list(SOURCE), [{
+      source: SOURCE,
+      eventId: 2,
+      uri: `at://${AUTHOR}/app.molt.vote/v2`,
+      event: vote(2),
+      error: `Failed to index at://${AUTHOR}/app.molt.vote/v2: Database error: value out of range`,
+      attempts: 5,
+      firstFailedAt: new Date('2026-01-01T00:00:00.000Z'),
+      deadAt: new Date('2026-01-01T00:01:00.000Z'),
+    }]);
+    assert.deepEqual(await deadLetters.counts(), { [SOURCE]: 1 });
+  });
+
+  it('starts counting again after an event is indexed', async () => {
+    let failing = true;
+    const deadLetters = new DeadLetterStore(db);
+    const onEvent = withDeadLetters(SOURCE, async (event) => {
+      if (failing) {
+        throw new Error('database unavailable');
+      }
+      indexed.push(event.id);
+    }, deadLetters, { ...LIMIT, clock });
+
+    for (let attempt = 1; attempt < LIMIT.maxAttempts; attempt++) {
+      await assert.rejects(onEvent(vote(1)));
+    }
+    failing = false;
+    await onEvent(vote(1));
+
+    failing = true;
+    await clock.advance(LIMIT.minRetryMs);
+    await assert.rejects(onEvent(vote(1)));
+
+    assert.deepEqual(indexed, [1]);
+    assert.deepEqual(await deadLetters.list(SOURCE), []);
+  });
+
+  it('keeps retrying while the dead letter cannot be stored', async () => {
+    const failing: Database = {
+      dialect: db.dialect,
+      query: (sql, params) => db.query(sql, params),
+      execute: (sql, params) => /INSERT INTO dead_letters/.test(sql)
+        ? Promise.reject(new Error('database unavailable'))
+        : db.execute(sql, params),
+      close: () => db.close(),
+    };
+    const onEvent = withDeadLetters(SOURCE, handler, new DeadLetterStore(failing), { ...LIMIT, clock });
+
+    await clock.advance(LIMIT.minRetryMs);
+    for (let attempt = 1; attempt <= LIMIT.maxAttempts + 1; attempt++) {
+      await assert.rejects(onEvent(vote(2)), IndexingError);
+      await clock.advance(LIMIT.minRetryMs);
+    }
+    assert.deepEqual(await new DeadLetterStore(db).list(SOURCE), []);
+  });
+});
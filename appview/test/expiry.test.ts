@@ -0,0 +1,136 @@
+import { AUTHOR, CID, createTestDb, indexModAction, indexSubmolt, MODERATOR, SUBMOLT } from './helpers.js';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { handleUpdateModAction } from '../src/api/handlers/index.js';
+import { FakeClock } from '../src/scheduler/clock.js';
+import { ExpiryScheduler } from '../src/scheduler/expiry.js';
+
+const START = '2025-02-01T00:00:00.000Z';
+
+describe('ExpiryScheduler', () => {
+  let db: Database;
+  let clock: FakeClock;
+  let scheduler: ExpiryScheduler;
+
+  const status = async (uri: string) => {
+    const [row] = await db.query<{ status: string }>(`
+      SELECT status FROM mod_actions WHERE uri = {uri:String}
+    `, { uri });
+    return row.status;
+  };
+
+  const transitions = (uri: string) => db.query<{ from_status: string; to_status: string; cause: string }>(`
+    SELECT from_status, to_status, cause FROM mod_action_transitions
+    WHERE action_uri = {uri:String}
+    ORDER BY at ASC
+  `, { uri });
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db);
+    clock = new FakeClock(START);
+    scheduler = new ExpiryScheduler(db, { clock, pollIntervalMs: 60_000 });
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await db.close();
+  });
+
+  it('expires an action once it is due, and not before', async () => {
+    const uri = await indexModAction(db, 'ban', { createdAt: START, expiresAt: '2025-02-01T00:01:30.000Z' });
+    const permanent = await indexModAction(db, 'permanent', { createdAt: START });
+
+    scheduler.start();
+    await clock.advance(60_000);
+    assert.equal(await status(uri), 'active');
+    assert.deepEqual(await transitions(uri), []);
+
+    await clock.advance(31_000);
+    assert.equal(await status(uri), 'expired');
+    assert.equal(await status(permanent), 'active');
+    assert.deepEqual(await transitions(uri), [{ from_status: 'active', to_status: 'expired', cause: 'expiry' }]);
+  });
+
+  it('reports the actions it expires', async () => {
+    const uri = await indexModAction(db, 'ban', { createdAt: START, expiresAt: '2025-02-01T00:00:30.000Z' });
+    await indexModAction(db, 'permanent', { createdAt: START });
+
+    await clock.advance(30_000);
+    assert.deepEqual(await scheduler.expireDue(), [{
+      uri,
+      submolt: SUBMOLT,
+      action: 'ban',
+      subjectDid: AUTHOR,
+      subjectPostUri: undefined,
+      expiresAt: '2025-02-01T00:00:30.000Z',
+      expiredAt: '2025-02-01T00:00:30.000Z',
+    }]);
+    assert.deepEqual(await scheduler.expireDue(), []);
+  });
+
+  it('emits the actions it expires as they fall due', async () => {
+    const first = await indexModAction(db, 'first', { createdAt: START, expiresAt: '2025-02-01T00:00:30.000Z' });
+    const second = await indexModAction(db, 'second', { createdAt: START, expiresAt: '2025-02-01T00:01:30.000Z' });
+    const emitted: string[][] = [];
+    scheduler.on('expired', actions => emitted.push(actions.map(action => action.uri)));
+
+    scheduler.start();
+    await clock.advance(0);
+    assert.deepEqual(emitted, []);
+
+    await clock.advance(31_000);
+    assert.deepEqual(emitted, [[first]]);
+    await clock.advance(60_000);
+    assert.deepEqual(emitted, [[first], [second]]);
+  });
+
+  it('expires an action already due when it starts', async () => {
+    const uri = await indexModAction(db, 'ban', { createdAt: START, expiresAt: '2025-01-31T00:00:00.000Z' });
+
+    scheduler.start();
+    await clock.advance(0);
+    assert.equal(await status(uri), 'expired');
+  });
+
+  it('reactivates an expired action whose expiry is extended, then expires it again', async () => {
+    const uri = await indexModAction(db, 'ban', { createdAt: START, expiresAt: '2025-02-01T00:00:30.000Z' });
+    const extend = (expiresAt: string) => handleUpdateModAction({
+      uri,
+      cid: CID,
+      did: MODERATOR,
+      record: {
+        $type: 'app.molt.modAction',
+        submolt: SUBMOLT,
+        subject: { user: AUTHOR },
+        action: 'ban',
+        reason: 'spam',
+        expiresAt,
+        createdAt: START,
+      },
+    }, db, clock);
+
+    scheduler.start();
+    await clock.advance(31_000);
+    assert.equal(await status(uri), 'expired');
+    await clock.advance(1_000);
+
+    // Already past by the clock, though not by the time it was written
+    assert.equal((await extend('2025-02-01T00:00:20.000Z')).success, true);
+    assert.equal(await status(uri), 'expired');
+
+    assert.equal((await extend('2025-02-01T00:02:00.000Z')).success, true);
+    assert.equal(await status(uri), 'active');
+
+    await clock.advance(30_000);
+    assert.equal(await status(uri), 'active');
+    await clock.advance(59_000);
+    assert.equal(await status(uri), 'expired');
+    assert.deepEqual(await transitions(uri), [
+      { from_status: 'active', to_status: 'expired', cause: 'expiry' },
+      { from_status: 'expired', to_status: 'active', cause: 'update' },
+      { from_status: 'active', to_status: 'expired', cause: 'expiry' },
+    ]);
+  });
+});
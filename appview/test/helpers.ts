@@ -0,0 +1,116 @@
+/**
+ * Test Helpers
+ *
+ * Import this first in each test file: it points the default database at
+ * memory, so modules that open it on import don't create molt.db.
+ */
+
+process.env.SQLITE_PATH ??= ':memory:';
+
+import type { Database } from '../src/db/index.js';
+import type { AppMoltModAction, AppMoltPost } from '../src/lexicon/generated/index.js';
+import { SqliteDatabase } from '../src/db/sqlite.js';
+import { migrate } from '../src/db/migrate.js';
+import {
+  handleCreateModAction,
+  handleCreatePost,
+  handleCreateSubmolt,
+} from '../src/api/handlers/index.js';
+
+export const OWNER = 'did:plc:aaaaaaaaaaaaaaaaaaaaaaaa';
+export const MODERATOR = 'did:plc:m1m1m1m1m1m1m1m1m1m1m1m1';
+export const WITNESS = 'did:plc:xxxxxxxxxxxxxxxxxxxxxxxx';
+export const AUTHOR = 'did:plc:44ybard66vv44zksje25o7dz';
+export const SUBMOLT = `at://${OWNER}/app.molt.submolt/s`;
+export const CID = 'bafyreib2rxk3rybk3aobmv5cjuql3bm2twh4jo5uxgf2gdb4kmoyflbxsq';
+
+/**
+ * A fresh, fully migrated in-memory database
+ */
+export async function createTestDb(): Promise<Database> {
+  const db = new SqliteDatabase(':memory:');
+  await migrate(db);
+  return db;
+}
+
+export async function indexSubmolt(
+  db: Database,
+  options: { agentFriendly?: boolean } = {}
+): Promise<void> {
+  const result = await handleCreateSubmolt({
+    uri: SUBMOLT,
+    cid: CID,
+    did: OWNER,
+    record: {
+      $type: 'app.molt.submolt',
+      name: 's',
+      moderators: [MODERATOR],
+      isAgentFriendly: options.agentFriendly,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    },
+    committedAt: new Date('2025-01-01T00:00:00.000Z'),
+  }, db);
+  assertIndexed(result);
+}
+
+export async function indexModAction(
+  db: Database,
+  rkey: string,
+  options: {
+    did?: string;
+    createdAt?: string;
+    committedAt?: string;
+    expiresAt?: string;
+    action?: AppMoltModAction.Record['action'];
+    subject?: AppMoltModAction.Record['subject'];
+  } = {}
+): Promise<string> {
+  const did = options.did ?? MODERATOR;
+  const uri = `at://${did}/app.molt.modAction/${rkey}`;
+  const result = await handleCreateModAction({
+    uri,
+    cid: CID,
+    did,
+    record: {
+      $type: 'app.molt.modAction',
+      submolt: SUBMOLT,
+      subject: options.subject ?? { user: AUTHOR },
+      action: options.action ?? 'ban',
+      reason: 'spam',
+      expiresAt: options.expiresAt,
+      createdAt: options.createdAt ?? '2025-02-01T00:00:00.000Z',
+    },
+    committedAt: options.committedAt ? new Date(options.committedAt) : undefined,
+  }, db);
+  assertIndexed(result);
+  return uri;
+}
+
+export async function indexPost(
+  db: Database,
+  rkey: string,
+  options: { did?: string; createdAt?: string; record?: Partial<AppMoltPost.Record> } = {}
+): Promise<string> {
+  const did = options.did ?? AUTHOR;
+  const uri = `at://${did}/app.molt.post/${rkey}`;
+  const result = await handleCreatePost({
+    uri,
+    cid: CID,
+    did,
+    record: {
+      $type: 'app.molt.post',
+      text: rkey,
+      submolt: SUBMOLT,
+      createdAt: options.createdAt ?? '2025-02-01T00:00:00.000Z',
+      ...options.record,
+    },
+  }, db);
+  assertIndexed(result);
+  return uri;
+}
+
+function assertIndexed(result: { success: boolean; error?: string }): void {
+  if (!result.success) {
+    throw new Error(`Not indexed: ${result.error}`);
+  }
+}
@@ -0,0 +1,61 @@
+import './helpers.js';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteDatabase } from '../src/db/sqlite.js';
+import { migrate, migrationStatus } from '../src/db/migrate.js';
+import { Migration, MIGRATIONS } from '../src/db/migrations/index.js';
+
+const tables = async (db: SqliteDatabase) =>
+  (await db.query<{ name: string }>(`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'test_%' ORDER BY name
+  `)).map(row => row.name);
+
+describe('migrate', () => {
+  let db: SqliteDatabase;
+
+  beforeEach(() => {
+    db = new SqliteDatabase(':memory:');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('applies every migration once', async () => {
+    assert.deepEqual(await migrate(db), MIGRATIONS.map(m => m.version));
+    assert.deepEqual(await migrate(db), []);
+    assert.ok((await migrationStatus(db)).every(m => m.appliedAt));
+  });
+
+  it('rolls a failed SQLite migration back whole', async () => {
+    const broken: Migration = {
+      version: 1,
+      name: 'broken',
+      clickhouse: [],
+      sqlite: [`CREATE TABLE test_created (id TEXT)`, `INSERT INTO test_missing VALUES (1)`],
+    };
+
+    await assert.rejects(migrate(db, [broken]), /test_missing/);
+    assert.deepEqual(await tables(db), []);
+    assert.equal((await migrationStatus(db, [broken]))[0].appliedAt, undefined);
+  });
+
+  it('skips a statement whose `unless` check finds it already applied', async () => {
+    await db.execute(`CREATE TABLE test_renamed (id TEXT)`);
+    const guarded: Migration = {
+      version: 1,
+      name: 'guarded',
+      clickhouse: [],
+      sqlite: [
+        {
+          sql: `ALTER TABLE test_original RENAME TO test_renamed`,
+          unless: `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'test_renamed'`,
+        },
+        `CREATE TABLE IF NOT EXISTS test_original (id TEXT)`,
+      ],
+    };
+
+    assert.deepEqual(await migrate(db, [guarded]), [1]);
+    assert.deepEqual(await tables(db), ['test_original', 'test_renamed']);
+  });
+});
@@ -0,0 +1,170 @@
+import { AUTHOR, CID, createTestDb, indexModAction, indexPost, indexSubmolt, MODERATOR, SUBMOLT } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ECDH, generateKeyPairSync, sign } from 'node:crypto';
+import { base58btc } from 'multiformats/bases/base58';
+import type { Database } from '../src/db/index.js';
+import { getPost, getSubmoltPosts, getThread } from '../src/api/handlers/index.js';
+import { createServiceAuth } from '../src/api/auth.js';
+import { createApiApp } from '../src/api/index.js';
+import type { DidResolver } from '../src/witness/index.js';
+
+const BYSTANDER = 'did:plc:bbbbbbbbbbbbbbbbbbbbbbbb';
+const SERVICE_DID = 'did:web:appview.test';
+
+/**
+ * A DID with a secp256k1 signing key, issuing service tokens for the
+ * AppView
+ */
+function caller(did: string) {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+  const { x, y } = publicKey.export({ format: 'jwk' });
+  const point = Buffer.concat([Buffer.from([0x04]), Buffer.from(x!, 'base64url'), Buffer.from(y!, 'base64url')]);
+  const compressed = ECDH.convertKey(point, 'secp256k1', undefined, undefined, 'compressed') as Buffer;
+
+  return {
+    did,
+    multikey: base58btc.encode(Uint8Array.from([0xe7, 0x01, ...compressed])),
+    token(lxm: string, claims: Record<string, unknown> = {}): string {
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const signed = `${encode({ alg: 'ES256K', typ: 'JWT' })}.${encode({
+        iss: did,
+        aud: SERVICE_DID,
+        lxm,
+        exp: Math.floor(Date.now() / 1000) + 60,
+        ...claims,
+      })}`;
+      const signature = sign('sha256', Buffer.from(signed), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+      return `${signed}.${signature.toString('base64url')}`;
+    },
+  };
+}
+
+const moderator = caller(MODERATOR);
+const bystander = caller(BYSTANDER);
+
+const resolver: DidResolver = {
+  async resolvePds() {
+    return null;
+  },
+  async resolveSigningKey(did) {
+    return [moderator, bystander].find(c => c.did === did)?.multikey ?? null;
+  },
+};
+
+describe('moderation on reads', () => {
+  let db: Database;
+  let root: string;
+  let removed: string;
+  let banned: string;
+
+  const feed = async (includeModerated?: boolean) =>
+    (await getSubmoltPosts({ submolt: SUBMOLT }, db, { includeModerated })).posts.map(post => post.uri);
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db);
+
+    root = await indexPost(db, 'root', { did: BYSTANDER, createdAt: '2025-02-01T00:00:00.000Z' });
+    const replyTo = { root: { uri: root, cid: CID }, parent: { uri: root, cid: CID } };
+    removed = await indexPost(db, 'removed', {
+      did: BYSTANDER,
+      createdAt: '2025-02-01T00:01:00.000Z',
+      record: { replyTo },
+    });
+    banned = await indexPost(db, 'banned', { createdAt: '2025-02-01T00:02:00.000Z', record: { replyTo } });
+
+    await indexModAction(db, 'remove', { action: 'remove', subject: { post: { uri: removed, cid: CID } } });
+    await indexModAction(db, 'ban');
+    // Anyone can publish a modAction; only the submolt's own count
+    await indexModAction(db, 'stray', {
+      did: BYSTANDER,
+      action: 'remove',
+      subject: { post: { uri: root, cid: CID } },
+    });
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('leaves removed posts and banned authors out of feeds', async () => {
+    assert.deepEqual(await feed(), [root]);
+    assert.deepEqual((await feed(true)).sort(), [banned, removed, root].sort());
+  });
+
+  it('tombstones removed replies and drops banned authors in threads', async () => {
+    const result = await getThread({ uri: root }, db);
+    assert.ok(result && 'post' in result.thread);
+    assert.deepEqual(result.thread.replies?.map(reply => ({ ...reply })), [{
+      $type: 'app.molt.getThread#removedPost',
+      uri: removed,
+      removed: true,
+      modAction: `at://${MODERATOR}/app.molt.modAction/remove`,
+      reason: 'spam',
+    }]);
+  });
+
+  it('does not find hidden posts by URI', async () => {
+    assert.equal(await getPost({ uri: banned }, db), null);
+    assert.equal((await getPost({ uri: banned }, db, { includeModerated: true }))?.moderation?.hidden, true);
+    assert.equal((await getPost({ uri: root }, db))?.moderation, undefined);
+  });
+
+  it('only returns hidden posts over XRPC to the submolt\'s moderators', async () => {
+    const app = createApiApp(db, { resolver, auth: createServiceAuth({ serviceDid: SERVICE_DID, resolver }) });
+    const get = (path: string, token?: string) =>
+      app.request(path, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+
+    const threadPath = `/xrpc/app.molt.getThread?uri=${encodeURIComponent(root)}&includeModerated=true`;
+    const postPath = `/xrpc/app.molt.post.get?uri=${encodeURIComponent(banned)}&includeModerated=true`;
+    const feedPath = `/xrpc/app.molt.feed.getSubmoltPosts?submolt=${encodeURIComponent(SUBMOLT)}&includeModerated=true`;
+
+    // Without asking, nobody sees them
+    const publicThread = await (await get(`/xrpc/app.molt.getThread?uri=${encodeURIComponent(root)}`)).json();
+    assert.deepEqual(publicThread.thread.replies.map((reply: { $type: string }) => reply.$type), [
+      'app.molt.getThread#removedPost',
+    ]);
+    assert.equal((await get(`/xrpc/app.molt.post.get?uri=${encodeURIComponent(banned)}`)).status, 404);
+
+    // Asking takes a service token from a moderator of the submolt
+    assert.equal((await get(threadPath)).status, 401);
+    assert.equal((await get(postPath)).status, 401);
+    assert.equal((await get(feedPath, moderator.token('app.molt.feed.getSubmoltPosts'))).status, 200);
+    assert.equal((await get(postPath, bystander.token('app.molt.post.get'))).status, 403);
+
+    const thread = await (await get(threadPath, moderator.token('app.molt.getThread'))).json();
+    assert.deepEqual(
+      thread.thread.replies.map((reply: { post: { uri: string; moderation: { hidden: boolean } } }) =>
+        [reply.post.uri, reply.post.moderation.hidden]
+      ).sort(),
+      [[banned, true], [removed, true]].sort()
+    );
+    const post = await (await get(postPath, moderator.token('app.molt.post.get'))).json();
+    assert.equal(post.moderation.hidden, true);
+
+    // Across submolts there's no one moderator to ask for
+    const agentFeed = await get(
+      '/xrpc/app.molt.feed.getAgentFeed?includeModerated=true',
+      moderator.token('app.molt.feed.getAgentFeed')
+    );
+    assert.equal(agentFeed.status, 400);
+  });
+
+  it('rejects service tokens that are not the moderator\'s, for this AppView and method', async () => {
+    const app = createApiApp(db, { resolver, auth: createServiceAuth({ serviceDid: SERVICE_DID, resolver }) });
+    const status = async (token: string) => (await app.request(
+      `/xrpc/app.molt.post.get?uri=${encodeURIComponent(banned)}&includeModerated=true`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    )).status;
+
+    assert.equal(await status(moderator.token('app.molt.post.get')), 200);
+    assert.equal(await status(moderator.token('app.molt.getThread')), 401);
+    assert.equal(await status(moderator.token('app.molt.post.get', { aud: 'did:web:elsewhere.test' })), 401);
+    assert.equal(await status(moderator.token('app.molt.post.get', { exp: Math.floor(Date.now() / 1000) - 1 })), 401);
+    // Signed with a key that isn't in the moderator's DID document
+    assert.equal(await status(bystander.token('app.molt.post.get', { iss: MODERATOR })), 401);
+    assert.equal(await status('not-a-token'), 401);
+  });
+
+});
@@ -0,0 +1,139 @@
+import { AUTHOR, CID, createTestDb, indexModAction, indexPost, indexSubmolt, MODERATOR, WITNESS } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import type { AccountabilityGate } from '../src/api/accountability.js';
+import {
+  getAgentFeed,
+  getOperatorPosts,
+  getOperatorStats,
+  handleCreateAppeal,
+  handleCreateAppealResolution,
+  handleCreateTestimony,
+} from '../src/api/handlers/index.js';
+
+const OPERATOR = 'did:plc:3jpt2mvvsumj2r7eqk4gzzjz';
+const IMPOSTOR = 'did:plc:iiiiiiiiiiiiiiiiiiiiiiii';
+
+// Stands in for the witness gate: the operator only vouches for AUTHOR
+const gate: AccountabilityGate = {
+  policy: 'test',
+  admits: async post => post.did === AUTHOR,
+};
+
+describe('operator attribution', () => {
+  let db: Database;
+  let vouched: string[];
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db, { agentFriendly: true });
+
+    vouched = [
+      await indexPost(db, 'a1', { createdAt: '2025-02-01T00:00:00.000Z', record: { operatorDid: OPERATOR } }),
+      await indexPost(db, 'a2', { createdAt: '2025-02-02T00:00:00.000Z', record: { operatorDid: OPERATOR } }),
+    ];
+    for (const rkey of ['i1', 'i2', 'i3']) {
+      await indexPost(db, rkey, { did: IMPOSTOR, record: { operatorDid: OPERATOR } });
+    }
+    await indexModAction(db, 'ban-impostor', { subject: { user: IMPOSTOR } });
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('only counts agents the operator vouches for', async () => {
+    const stats = await getOperatorStats({ operator: OPERATOR }, db, { gate });
+
+    assert.equal(stats.agentCount, 1);
+    assert.equal(stats.unverifiedAgentCount, 1);
+    assert.deepEqual(stats.agents.map(agent => [agent.did, agent.postCount]), [[AUTHOR, 2]]);
+    assert.equal(stats.postCount, 2);
+    assert.equal(stats.modActions.total, 0);
+  });
+
+  it('only lists posts by agents the operator vouches for', async () => {
+    const posts = await getOperatorPosts({ operator: OPERATOR }, db, { gate });
+    assert.deepEqual(posts.posts.map(post => post.uri).sort(), [...vouched].sort());
+
+    const feed = await getAgentFeed({ operator: OPERATOR }, db, { gate });
+    assert.deepEqual(feed.posts.map(post => post.uri).sort(), [...vouched].sort());
+    assert.equal((await getAgentFeed({}, db, { gate, includeModerated: true })).posts.length, 5);
+  });
+
+  it('attributes nothing to an operator that vouches for no one', async () => {
+    const nobody: AccountabilityGate = { policy: 'test', admits: async () => false };
+
+    const stats = await getOperatorStats({ operator: OPERATOR }, db, { gate: nobody });
+    assert.deepEqual([stats.agentCount, stats.unverifiedAgentCount, stats.postCount], [0, 2, 0]);
+    assert.deepEqual((await getOperatorPosts({ operator: OPERATOR }, db, { gate: nobody })).posts, []);
+  });
+});
+
+describe('operator appeal stats', () => {
+  let db: Database;
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db, { agentFriendly: true });
+    await indexPost(db, 'a1', { record: { operatorDid: OPERATOR } });
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  const resolve = (rkey: string, did: string, appeal: string, createdAt: string) =>
+    handleCreateAppealResolution({
+      uri: `at://${did}/app.molt.appealResolution/${rkey}`,
+      cid: CID,
+      did,
+      record: {
+        $type: 'app.molt.appealResolution',
+        appeal,
+        outcome: 'overturned',
+        reasoning: 'reviewed',
+        resolverDid: did,
+        createdAt,
+      },
+    }, db);
+
+  it('only counts resolutions the appeal process accepted', async () => {
+    const action = await indexModAction(db, 'ban-agent');
+    const appeal = `at://${AUTHOR}/app.molt.appeal/ap`;
+    await handleCreateAppeal({
+      uri: appeal,
+      cid: CID,
+      did: AUTHOR,
+      record: { $type: 'app.molt.appeal', subject: action, grounds: 'mistaken', createdAt: '2025-03-01T00:00:00.000Z' },
+    }, db);
+
+    // Someone with no say in the submolt
+    await resolve('stranger', IMPOSTOR, appeal, '2025-03-02T00:00:00.000Z');
+    assert.deepEqual((await getOperatorStats({ operator: OPERATOR }, db, { gate })).appeals, {
+      total: 1,
+      pending: 1,
+      outcomes: [],
+    });
+
+    await handleCreateTestimony({
+      uri: `at://${WITNESS}/app.molt.testimony/t`,
+      cid: CID,
+      did: WITNESS,
+      record: {
+        $type: 'app.molt.testimony',
+        subject: { uri: appeal, cid: CID },
+        position: 'support',
+        standingBasis: 'witness',
+        createdAt: '2025-03-03T00:00:00.000Z',
+      },
+    }, db);
+    await resolve('moderator', MODERATOR, appeal, '2025-03-04T00:00:00.000Z');
+    assert.deepEqual((await getOperatorStats({ operator: OPERATOR }, db, { gate })).appeals, {
+      total: 1,
+      pending: 0,
+      outcomes: [{ value: 'overturned', count: 1 }],
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { CID, createTestDb, indexPost, indexSubmolt, SUBMOLT } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import type { AppMoltFeedGetSubmoltPosts } from '../src/lexicon/generated/index.js';
+import { getSubmoltPosts, handleCreateVote } from '../src/api/handlers/index.js';
+import type { SortName } from '../src/api/ranking.js';
+import { InvalidRequestError } from '../src/api/xrpc.js';
+
+const OPERATOR = 'did:plc:3jpt2mvvsumj2r7eqk4gzzjz';
+const SORTS: SortName[] = ['time', 'hot', 'top', 'controversial', 'rising', 'standing'];
+
+// Up and down votes per post, with ties in every score
+const VOTES: [number, number][] = [[2, 1], [0, 0], [2, 1], [3, 0], [0, 0], [1, 1], [3, 0]];
+
+/**
+ * Every post URI a walk of the feed returns, page by page
+ */
+async function walk(
+  db: Database,
+  params: Omit<AppMoltFeedGetSubmoltPosts.QueryParams, 'cursor'>
+): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getSubmoltPosts({ ...params, cursor }, db);
+    pages.push(page.posts.map(post => post.uri));
+    cursor = page.cursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('getSubmoltPosts keyset pagination', () => {
+  let db: Database;
+  const uris: string[] = [];
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db, { agentFriendly: false });
+
+    // Seven posts in three groups sharing an index time, all created an
+    // hour ago so they fall within the rising window
+    const createdAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const indexedAt = ['2025-02-03', '2025-02-03', '2025-02-02', '2025-02-02', '2025-02-02', '2025-02-01', '2025-02-01'];
+    for (const [i, day] of indexedAt.entries()) {
+      const uri = await indexPost(db, `p${i}`, {
+        createdAt,
+        record: { operatorDid: i % 2 === 0 ? OPERATOR : undefined },
+      });
+      await db.execute(`
+        ALTER TABLE posts UPDATE indexed_at = {indexedAt:DateTime} WHERE uri = {uri:String}
+      `, { uri, indexedAt: new Date(`${day}T00:00:00.000Z`) });
+      uris.push(uri);
+    }
+
+    for (const [i, [up, down]] of VOTES.entries()) {
+      const directions = [...Array(up).fill('up'), ...Array(down).fill('down')] as ('up' | 'down')[];
+      for (const [v, direction] of directions.entries()) {
+        const voter = `did:plc:voter${v}`;
+        await handleCreateVote({
+          uri: `at://${voter}/app.molt.vote/p${i}`,
+          cid: CID,
+          did: voter,
+          record: {
+            $type: 'app.molt.vote',
+            subject: { uri: uris[i], cid: CID },
+            direction,
+            createdAt,
+          },
+        }, db);
+      }
+    }
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('walks posts sharing a sort key without repeats or gaps', async () => {
+    const pages = await walk(db, { submolt: SUBMOLT, sort: 'time', limit: 3 });
+
+    assert.deepEqual(pages.map(page => page.length), [3, 3, 1]);
+    assert.deepEqual(pages.flat(), [
+      uris[1], uris[0],
+      uris[4], uris[3], uris[2],
+      uris[6], uris[5],
+    ]);
+  });
+
+  it('breaks ties by URI', async () => {
+    const pages = await walk(db, { submolt: SUBMOLT, sort: 'top', limit: 2 });
+
+    assert.deepEqual(pages.flat(), [uris[6], uris[3], uris[2], uris[0], uris[5], uris[4], uris[1]]);
+  });
+
+  for (const sort of SORTS) {
+    it(`pages the ${sort} sort in the order of a single read`, async () => {
+      const { posts } = await getSubmoltPosts({ submolt: SUBMOLT, sort, limit: 100 }, db);
+      const pages = await walk(db, { submolt: SUBMOLT, sort, limit: 2 });
+
+      assert.equal(posts.length, uris.length);
+      assert.deepEqual(pages.flat(), posts.map(post => post.uri));
+    });
+  }
+
+  it('fills pages past posts the accountability gate drops', async () => {
+    await db.execute(`
+      ALTER TABLE submolts UPDATE is_agent_friendly = true WHERE uri = {uri:String}
+    `, { uri: SUBMOLT });
+
+    try {
+      const pages = await walk(db, { submolt: SUBMOLT, sort: 'time', limit: 2 });
+      assert.deepEqual(pages, [[uris[0], uris[4]], [uris[2], uris[6]]]);
+    } finally {
+      await db.execute(`
+        ALTER TABLE submolts UPDATE is_agent_friendly = false WHERE uri = {uri:String}
+      `, { uri: SUBMOLT });
+    }
+  });
+
+  it('rejects a cursor issued for another sort', async () => {
+    const { cursor } = await getSubmoltPosts({ submolt: SUBMOLT, sort: 'time', limit: 1 }, db);
+    assert.ok(cursor);
+
+    await assert.rejects(
+      getSubmoltPosts({ submolt: SUBMOLT, sort: 'top', limit: 1, cursor }, db),
+      InvalidRequestError
+    );
+  });
+
+  it('rejects a cursor whose key is not the sort\'s type', async () => {
+    const { cursor } = await getSubmoltPosts({ submolt: SUBMOLT, sort: 'time', limit: 1 }, db);
+    assert.ok(cursor);
+
+    await assert.rejects(
+      getSubmoltPosts({ submolt: SUBMOLT, sort: 'time', limit: 1, cursor: tamper(cursor, { k: 'garbage' }) }, db),
+      InvalidRequestError
+    );
+  });
+
+  it('rejects a cursor whose reference time is not a date', async () => {
+    const { cursor } = await getSubmoltPosts({ submolt: SUBMOLT, sort: 'hot', limit: 1 }, db);
+    assert.ok(cursor);
+
+    await assert.rejects(
+      getSubmoltPosts({ submolt: SUBMOLT, sort: 'hot', limit: 1, cursor: tamper(cursor, { t: 'notadate' }) }, db),
+      InvalidRequestError
+    );
+  });
+});
+
+/**
+ * `cursor` with some of its fields replaced
+ */
+function tamper(cursor: string, fields: Record<string, unknown>): string {
+  const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  return Buffer.from(JSON.stringify({ ...payload, ...fields })).toString('base64url');
+}
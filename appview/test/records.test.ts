@@ -0,0 +1,73 @@
+import { AUTHOR, CID, indexSubmolt, SUBMOLT } from './helpers.js';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/db/index.js';
+import { migrate } from '../src/db/migrate.js';
+import { handleRecord, RecordOp } from '../src/firehose/index.js';
+
+const OTHER_CID = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+
+const post = (text: string, extra: Record<string, unknown> = {}) => ({
+  $type: 'app.molt.post',
+  text,
+  submolt: SUBMOLT,
+  createdAt: '2025-02-01T00:00:00.000Z',
+  ...extra,
+});
+
+const op = (rkey: string, action: RecordOp['action'], record?: unknown, cid = CID): RecordOp => ({
+  action,
+  collection: 'app.molt.post',
+  did: AUTHOR,
+  rkey,
+  cid: action === 'delete' ? undefined : cid,
+  record,
+  live: true,
+});
+
+describe('handleRecord', () => {
+  const root = `at://${AUTHOR}/app.molt.post/root`;
+
+  const row = async (uri: string) => {
+    const [found] = await db.query<{ text: string; cid: string; reply_count: number }>(`
+      SELECT text, cid, reply_count FROM posts WHERE uri = {uri:String}
+    `, { uri });
+    return found;
+  };
+
+  before(async () => {
+    await migrate(db);
+    await indexSubmolt(db);
+  });
+
+  it('routes creates, updates and deletes to the post handlers', async () => {
+    assert.equal((await handleRecord(op('root', 'create', post('first')))).success, true);
+    assert.equal((await row(root)).text, 'first');
+
+    assert.equal((await handleRecord(op('root', 'update', post('edited'), OTHER_CID))).success, true);
+    assert.deepEqual({ ...(await row(root)) }, { text: 'edited', cid: OTHER_CID, reply_count: 0 });
+
+    const reply = post('reply', {
+      replyTo: { root: { uri: root, cid: OTHER_CID }, parent: { uri: root, cid: OTHER_CID } },
+    });
+    assert.equal((await handleRecord(op('reply', 'create', reply))).success, true);
+    assert.equal((await row(root)).reply_count, 1);
+
+    // A redelivered create changes nothing
+    assert.equal((await handleRecord(op('reply', 'create', reply))).success, true);
+    assert.equal((await row(root)).reply_count, 1);
+
+    assert.equal((await handleRecord(op('reply', 'delete'))).success, true);
+    assert.equal((await row(root)).reply_count, 0);
+    assert.equal(await row(`at://${AUTHOR}/app.molt.post/reply`), undefined);
+
+    // Deleting again is a no-op
+    assert.equal((await handleRecord(op('reply', 'delete'))).success, true);
+  });
+
+  it('rejects records that fail their lexicon without retrying them', async () => {
+    const result = await handleRecord(op('invalid', 'create', { $type: 'app.molt.post', submolt: SUBMOLT }));
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /Invalid record/);
+  });
+});
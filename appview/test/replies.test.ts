@@ -0,0 +1,137 @@
+import { CID, createTestDb, indexPost, indexSubmolt, SUBMOLT } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { handleCreatePost, handleDeletePost, handleUpdatePost } from '../src/api/handlers/index.js';
+
+const EDITED_CID = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+
+describe('reply indexing', () => {
+  let db: Database;
+
+  const row = async (uri: string) => {
+    const [found] = await db.query<{
+      root_uri: string;
+      parent_uri: string;
+      reply_count: number;
+      thread_reply_count: number;
+      parent_stale: number | boolean;
+    }>(`
+      SELECT root_uri, parent_uri, reply_count, thread_reply_count, parent_stale
+      FROM posts WHERE uri = {uri:String}
+    `, { uri });
+    return { ...found, parent_stale: Boolean(found.parent_stale) };
+  };
+
+  const reply = (rkey: string, root: string, parent: string) =>
+    indexPost(db, rkey, {
+      record: { replyTo: { root: { uri: root, cid: CID }, parent: { uri: parent, cid: CID } } },
+    });
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('indexes root and parent, counting direct and thread replies', async () => {
+    const root = await indexPost(db, 'root');
+    const child = await reply('child', root, root);
+    await reply('grandchild', root, child);
+
+    assert.deepEqual(await row(root), {
+      root_uri: '', parent_uri: '', reply_count: 1, thread_reply_count: 2, parent_stale: false,
+    });
+    assert.deepEqual(await row(child), {
+      root_uri: root, parent_uri: root, reply_count: 1, thread_reply_count: 0, parent_stale: false,
+    });
+  });
+
+  it('counts replies indexed before their parent once it arrives', async () => {
+    const root = `at://did:plc:44ybard66vv44zksje25o7dz/app.molt.post/late`;
+    await reply('early', root, root);
+    await indexPost(db, 'late');
+
+    assert.equal((await row(root)).reply_count, 1);
+    assert.equal((await row(root)).thread_reply_count, 1);
+  });
+
+  it('flags replies whose parent was edited away from the CID they reference', async () => {
+    const root = await indexPost(db, 'edited');
+    const child = await reply('stale', root, root);
+
+    const result = await handleUpdatePost({
+      uri: root,
+      cid: EDITED_CID,
+      did: 'did:plc:44ybard66vv44zksje25o7dz',
+      record: { $type: 'app.molt.post', text: 'edited', submolt: SUBMOLT, createdAt: '2025-02-01T00:00:00.000Z' },
+    }, db);
+    assert.equal(result.success, true);
+    assert.equal((await row(child)).parent_stale, true);
+
+    // A reply written against the new version is current
+    const fresh = await indexPost(db, 'fresh', {
+      record: { replyTo: { root: { uri: root, cid: EDITED_CID }, parent: { uri: root, cid: EDITED_CID } } },
+    });
+    assert.equal((await row(fresh)).parent_stale, false);
+  });
+
+  it('finishes an edit that failed partway when it is redelivered', async () => {
+    const root = await indexPost(db, 'retried');
+    const child = await reply('retried-child', root, root);
+    const edit = {
+      uri: root,
+      cid: EDITED_CID,
+      did: 'did:plc:44ybard66vv44zksje25o7dz',
+      record: { $type: 'app.molt.post' as const, text: 'edited', submolt: SUBMOLT, createdAt: '2025-02-01T00:00:00.000Z' },
+    };
+
+    // The post row is updated, then flagging its replies fails
+    const failing: Database = {
+      dialect: db.dialect,
+      query: (sql, params) => db.query(sql, params),
+      execute: (sql, params) => sql.includes('parent_stale')
+        ? Promise.reject(new Error('connection reset'))
+        : db.execute(sql, params),
+      close: () => db.close(),
+    };
+    assert.equal((await handleUpdatePost(edit, failing)).retryable, true);
+    assert.equal((await row(child)).parent_stale, false);
+
+    assert.equal((await handleUpdatePost(edit, db)).success, true);
+    assert.equal((await row(child)).parent_stale, true);
+    const versions = await db.query<{ cid: string }>(`
+      SELECT cid FROM post_versions WHERE uri = {uri:String} ORDER BY cid
+    `, { uri: root });
+    assert.deepEqual(versions.map(version => version.cid), [EDITED_CID, CID].sort());
+  });
+
+  it('reports a failed lookup as a retryable error', async () => {
+    const unavailable: Database = {
+      dialect: db.dialect,
+      query: () => Promise.reject(new Error('connection reset')),
+      execute: () => Promise.reject(new Error('connection reset')),
+      close: () => db.close(),
+    };
+    const result = await handleCreatePost({
+      uri: 'at://did:plc:44ybard66vv44zksje25o7dz/app.molt.post/unreachable',
+      cid: CID,
+      did: 'did:plc:44ybard66vv44zksje25o7dz',
+      record: { $type: 'app.molt.post', text: 'hello', submolt: SUBMOLT, createdAt: '2025-02-01T00:00:00.000Z' },
+    }, unavailable);
+    assert.deepEqual([result.success, result.retryable], [false, true]);
+  });
+
+  it('recounts the parent and root when a reply is deleted', async () => {
+    const root = await indexPost(db, 'pruned');
+    const child = await reply('pruned-child', root, root);
+    const grandchild = await reply('pruned-grandchild', root, child);
+
+    assert.equal((await handleDeletePost(grandchild, db)).success, true);
+    assert.equal((await row(child)).reply_count, 0);
+    assert.equal((await row(root)).thread_reply_count, 1);
+  });
+});
@@ -0,0 +1,121 @@
+import { createTestDb, indexModAction, MODERATOR, OWNER, SUBMOLT } from './helpers.js';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { getRoleHistory, handleCreateSubmolt } from '../src/api/handlers/index.js';
+
+const V1 = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+const V2 = 'bafyreibjifzpqj6o6wcq3hejh7y4z4z2vmiklkvykc57tw3pcbx3kxifpm';
+
+/**
+ * Index a version of SUBMOLT, committed at `committedAt`
+ */
+async function version(db: Database, cid: string, moderators: string[], committedAt: string) {
+  return handleCreateSubmolt({
+    uri: SUBMOLT,
+    cid,
+    did: OWNER,
+    record: {
+      $type: 'app.molt.submolt',
+      name: 's',
+      moderators,
+      // Claims to predate every version
+      createdAt: '2024-01-01T00:00:00.000Z',
+    },
+    committedAt: new Date(committedAt),
+  }, db);
+}
+
+async function authority(db: Database, uri: string): Promise<string> {
+  const [action] = await db.query<{ authority: string }>(`
+    SELECT authority FROM mod_actions WHERE uri = {uri:String}
+  `, { uri });
+  return action.authority;
+}
+
+describe('submolt versions', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('judges mod actions against the version committed at the time, not createdAt', async () => {
+    const early = await indexModAction(db, 'early', { createdAt: '2025-01-15T00:00:00.000Z' });
+    const between = await indexModAction(db, 'between', { createdAt: '2025-02-15T00:00:00.000Z' });
+    const late = await indexModAction(db, 'late', { createdAt: '2025-03-15T00:00:00.000Z' });
+
+    await version(db, V1, [MODERATOR], '2025-02-01T00:00:00.000Z');
+    await version(db, V2, [], '2025-03-01T00:00:00.000Z');
+
+    assert.equal(await authority(db, early), 'unauthorized');
+    assert.equal(await authority(db, between), 'moderator');
+    assert.equal(await authority(db, late), 'unauthorized');
+  });
+
+  it('judges a backdated mod action at its commit time', async () => {
+    // Removed on 1 March, the moderator dates an action to February
+    const backdated = (rkey: string) => indexModAction(db, rkey, {
+      createdAt: '2025-02-15T00:00:00.000Z',
+      committedAt: '2025-03-15T00:00:00.000Z',
+    });
+    const timely = (rkey: string) => indexModAction(db, rkey, {
+      createdAt: '2025-02-15T00:00:00.000Z',
+      committedAt: '2025-02-15T00:00:01.000Z',
+    });
+
+    // Reassessed as the versions arrive, and assessed once they're in
+    const early = [await backdated('early-backdated'), await timely('early-timely')];
+    await version(db, V1, [MODERATOR], '2025-02-01T00:00:00.000Z');
+    await version(db, V2, [], '2025-03-01T00:00:00.000Z');
+    const late = [await backdated('late-backdated'), await timely('late-timely')];
+
+    for (const [backdatedUri, timelyUri] of [early, late]) {
+      assert.equal(await authority(db, backdatedUri), 'unauthorized');
+      assert.equal(await authority(db, timelyUri), 'moderator');
+    }
+  });
+
+  it('records when roles were granted and revoked', async () => {
+    await version(db, V1, [MODERATOR], '2025-02-01T00:00:00.000Z');
+    await version(db, V2, [], '2025-03-01T00:00:00.000Z');
+
+    const moderator = await getRoleHistory({ did: MODERATOR }, db);
+    assert.deepEqual(moderator.submolts.map(entry => [entry.current, entry.grants]), [[[], [{
+      role: 'moderator',
+      grantedAt: '2025-02-01T00:00:00.000Z',
+      revokedAt: '2025-03-01T00:00:00.000Z',
+    }]]]);
+
+    const owner = await getRoleHistory({ did: OWNER }, db);
+    assert.deepEqual(owner.submolts.map(entry => entry.current), [['owner']]);
+  });
+
+  it('finishes indexing a version when it is redelivered after a failure', async () => {
+    const action = await indexModAction(db, 'action', { createdAt: '2025-02-15T00:00:00.000Z' });
+
+    // The version is stored, then writing its role events fails
+    const failing: Database = {
+      dialect: db.dialect,
+      query: (sql, params) => db.query(sql, params),
+      execute: (sql, params) => sql.includes('role_events')
+        ? Promise.reject(new Error('connection reset'))
+        : db.execute(sql, params),
+      close: () => db.close(),
+    };
+    const first = await version(failing, V1, [MODERATOR], '2025-02-01T00:00:00.000Z');
+    assert.equal(first.retryable, true);
+    assert.equal(await authority(db, action), 'unauthorized');
+
+    const redelivered = await version(db, V1, [MODERATOR], '2025-02-01T00:00:00.000Z');
+    assert.equal(redelivered.success, true);
+    assert.equal(await authority(db, action), 'moderator');
+    assert.deepEqual((await getRoleHistory({ did: MODERATOR }, db)).submolts.map(entry => entry.current), [
+      ['moderator'],
+    ]);
+  });
+});
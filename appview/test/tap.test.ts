@@ -0,0 +1,174 @@
+import { AUTHOR } from './helpers.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { db } from '../src/db/index.js';
+import { migrate } from '../src/db/migrate.js';
+import { CursorStore } from '../src/firehose/cursor.js';
+import { loadTapFixtures, startFakeTap } from '../src/firehose/fake-tap.js';
+import { handleTapEvent, withCursor } from '../src/firehose/index.js';
+import { createTapWebhookApp, TapEvent, TapWebSocketSource } from '../src/firehose/tap.js';
+
+const PORT = 2593;
+
+const identity = (id: number): TapEvent => ({
+  id,
+  type: 'identity',
+  identity: { did: AUTHOR, handle: 'author.test', is_active: true, status: 'active' },
+});
+
+/**
+ * A handler that fails the first delivery of `failing`, recording each
+ * event it indexes
+ */
+function flakyHandler(failing: number) {
+  const indexed: number[] = [];
+  let failed = false;
+  return {
+    indexed,
+    handler: async (event: TapEvent) => {
+      if (event.id === failing && !failed) {
+        failed = true;
+        throw new Error('database unavailable');
+      }
+      indexed.push(event.id);
+    },
+  };
+}
+
+describe('TapWebSocketSource', () => {
+  it('acks each event only once it is indexed, and gets a failed one redelivered', async () => {
+    const events = [1, 2, 3].map(identity);
+    const tap = startFakeTap(events, PORT);
+    const { indexed, handler } = flakyHandler(2);
+    const ackedWhenIndexed: boolean[] = [];
+
+    const source = new TapWebSocketSource({
+      url: `ws://localhost:${PORT}/channel`,
+      reconnectDelayMs: 10,
+      onEvent: async (event) => {
+        const seen = indexed.includes(event.id);
+        await handler(event);
+        if (!seen) {
+          ackedWhenIndexed.push(tap.acked.has(event.id));
+        }
+      },
+    });
+
+    try {
+      source.start();
+      for (let waited = 0; tap.acked.size < events.length; waited += 10) {
+        assert.ok(waited < 5000, `only ${tap.acked.size} of ${events.length} events acked`);
+        await sleep(10);
+      }
+    } finally {
+      await source.stop();
+      await tap.close();
+    }
+
+    assert.deepEqual([...new Set(indexed)], [1, 2, 3]);
+    assert.deepEqual(ackedWhenIndexed, [false, false, false]);
+  });
+});
+
+describe('Tap webhook', () => {
+  const post = (app: ReturnType<typeof createTapWebhookApp>, body: unknown) =>
+    app.request('/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('answers 200 once the event is indexed and 500 when it fails, so Tap retries', async () => {
+    const { indexed, handler } = flakyHandler(2);
+    const app = createTapWebhookApp(handler);
+
+    assert.equal((await post(app, identity(1))).status, 200);
+    assert.equal((await post(app, identity(2))).status, 500);
+    assert.deepEqual(indexed, [1]);
+
+    // The retry
+    assert.equal((await post(app, identity(2))).status, 200);
+    assert.deepEqual(indexed, [1, 2]);
+  });
+
+  it('answers 400 for an event that can never be processed', async () => {
+    const { indexed, handler } = flakyHandler(0);
+    const app = createTapWebhookApp(handler);
+
+    assert.equal((await post(app, { type: 'record', record: {} })).status, 400);
+    assert.deepEqual(indexed, []);
+  });
+});
+
+describe('fixtures/tap/basic.json', () => {
+  const OWNER = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+  const root = `at://${OWNER}/app.molt.post/3lbxzw2q7dk2b`;
+  const reply = `at://${AUTHOR}/app.molt.post/3lbxzy4n2ak2d`;
+
+  it('indexes the molt records it replays, through the webhook and cursor', async () => {
+    await migrate(db);
+    const events = await loadTapFixtures(fileURLToPath(new URL('../fixtures/tap/basic.json', import.meta.url)));
+    const cursors = new CursorStore(db);
+    const app = createTapWebhookApp(await withCursor('fixture', handleTapEvent, cursors));
+
+    for (const event of events) {
+      const res = await app.request('/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      });
+      assert.equal(res.status, 200, `event ${event.id}`);
+    }
+
+    const submolts = await db.query<{ uri: string; name: string; is_agent_friendly: boolean; moderators: string[] }>(`
+      SELECT uri, name, is_agent_friendly, moderators FROM submolts
+    `);
+    assert.deepEqual(submolts.map(row => ({ ...row, is_agent_friendly: Boolean(row.is_agent_friendly) })), [{
+      uri: `at://${OWNER}/app.molt.submolt/ai-discussion`,
+      name: 'AI Discussion',
+      is_agent_friendly: true,
+      moderators: [OWNER],
+    }]);
+
+    // The app.bsky.feed.post is left alone; the root post carries its edit
+    // and the reply, and the vote was withdrawn
+    const posts = await db.query<{
+      uri: string;
+      text: string;
+      parent_uri: string;
+      reply_count: number;
+      upvote_count: number;
+      is_agent: boolean;
+    }>(`
+      SELECT uri, text, parent_uri, reply_count, upvote_count, is_agent FROM posts ORDER BY uri
+    `);
+    assert.deepEqual(posts.map(row => ({ ...row, is_agent: Boolean(row.is_agent) })), [
+      {
+        uri: reply,
+        text: 'Operators should be discoverable from every post.',
+        parent_uri: root,
+        reply_count: 0,
+        upvote_count: 0,
+        is_agent: true,
+      },
+      {
+        uri: root,
+        text: 'Welcome! What does accountability look like for agents? (edited for clarity)',
+        parent_uri: '',
+        reply_count: 1,
+        upvote_count: 0,
+        is_agent: false,
+      },
+    ]);
+    const votes = await db.query<{ uri: string; deleted: boolean; effective: boolean }>(`
+      SELECT uri, deleted, effective FROM votes
+    `);
+    assert.deepEqual(votes.map(row => [row.uri, Boolean(row.deleted), Boolean(row.effective)]), [
+      [`at://${AUTHOR}/app.molt.vote/3lbxzz6kmbs2e`, true, false],
+    ]);
+
+    assert.equal((await cursors.get('fixture'))?.seq, 8);
+  });
+});
@@ -0,0 +1,115 @@
+import { CID, createTestDb, indexPost, indexSubmolt } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import type { AppMoltGetThread } from '../src/lexicon/generated/index.js';
+import { getThread } from '../src/api/handlers/index.js';
+import { MAX_REPLIES_PER_POST } from '../src/api/handlers/getThread.js';
+
+type Node = AppMoltGetThread.OutputSchema['thread'] | NonNullable<AppMoltGetThread.ThreadViewPost['parent']>;
+
+/**
+ * The thread as nested [uri, replies] pairs, for comparing shapes
+ */
+function shape(node: Node): unknown {
+  if (!('post' in node)) {
+    return node.uri;
+  }
+  return node.replies?.length ? [node.post.uri, node.replies.map(shape)] : node.post.uri;
+}
+
+function parents(node: AppMoltGetThread.ThreadViewPost): string[] {
+  const chain: string[] = [];
+  for (let parent = node.parent; parent; parent = 'post' in parent ? parent.parent : undefined) {
+    chain.push('post' in parent ? parent.post.uri : `missing ${parent.uri}`);
+  }
+  return chain;
+}
+
+describe('getThread', () => {
+  let db: Database;
+  let root: string;
+  let a: string;
+  let a1: string;
+  let a1x: string;
+  let b: string;
+
+  const reply = (rkey: string, parent: string, minute: number) =>
+    indexPost(db, rkey, {
+      createdAt: `2025-02-01T00:${String(minute).padStart(2, '0')}:00.000Z`,
+      record: { replyTo: { root: { uri: root, cid: CID }, parent: { uri: parent, cid: CID } } },
+    });
+
+  before(async () => {
+    db = await createTestDb();
+    await indexSubmolt(db);
+
+    root = await indexPost(db, 'root');
+    a = await reply('a', root, 1);
+    b = await reply('b', root, 2);
+    a1 = await reply('a1', a, 3);
+    a1x = await reply('a1x', a1, 4);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it('nests replies down to the requested depth', async () => {
+    const full = await getThread({ uri: root }, db);
+    assert.deepEqual(shape(full!.thread), [root, [[a, [[a1, [a1x]]]], b]]);
+
+    const shallow = await getThread({ uri: root, depth: 1 }, db);
+    assert.deepEqual(shape(shallow!.thread), [root, [a, b]]);
+
+    const none = await getThread({ uri: root, depth: 0 }, db);
+    assert.equal(shape(none!.thread), root);
+  });
+
+  it('walks the parent chain up to the root', async () => {
+    const { thread } = (await getThread({ uri: a1x, depth: 0 }, db))!;
+    assert.ok('post' in thread);
+    assert.deepEqual(parents(thread), [a1, a, root]);
+  });
+
+  it('marks a parent that is not indexed as not found', async () => {
+    const missing = 'at://did:plc:zzzzzzzzzzzzzzzzzzzzzzzz/app.molt.post/gone';
+    const orphan = await indexPost(db, 'orphan', {
+      record: { replyTo: { root: { uri: missing, cid: CID }, parent: { uri: missing, cid: CID } } },
+    });
+
+    const { thread } = (await getThread({ uri: orphan }, db))!;
+    assert.ok('post' in thread);
+    assert.deepEqual(parents(thread), [`missing ${missing}`]);
+  });
+
+  it('returns null for a post that is not indexed', async () => {
+    assert.equal(await getThread({ uri: `${root}-nope` }, db), null);
+  });
+
+  it(`returns at most ${MAX_REPLIES_PER_POST} replies per post, oldest first`, async () => {
+    const top = await indexPost(db, 'top');
+    const child = (rkey: string, parent: string, createdAt: string) =>
+      indexPost(db, rkey, {
+        createdAt,
+        record: { replyTo: { root: { uri: top, cid: CID }, parent: { uri: parent, cid: CID } } },
+      });
+
+    const busy = await child('busy', top, '2025-02-01T00:01:00.000Z');
+    const quiet = await child('quiet', top, '2025-02-01T00:02:00.000Z');
+    for (let i = 0; i <= MAX_REPLIES_PER_POST; i++) {
+      await child(`busy${String(i).padStart(3, '0')}`, busy, new Date(Date.UTC(2025, 1, 2, 0, 0, i)).toISOString());
+    }
+    // Newer than all of busy's replies, but the only one under quiet
+    const late = await child('late', quiet, '2025-02-03T00:00:00.000Z');
+
+    const { thread } = (await getThread({ uri: top, depth: 2 }, db))!;
+    assert.ok('post' in thread);
+    const [busyNode, quietNode] = thread.replies!;
+    assert.ok('post' in busyNode && 'post' in quietNode);
+    assert.equal(busyNode.replies?.length, MAX_REPLIES_PER_POST);
+    assert.equal(busyNode.post.replyCount, MAX_REPLIES_PER_POST + 1);
+    assert.deepEqual(shape(busyNode.replies![0]), `${busy}000`);
+    assert.deepEqual(shape(quietNode), [quiet, [late]]);
+  });
+});
@@ -0,0 +1,77 @@
+import { AUTHOR, CID, SUBMOLT } from './helpers.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateParams, validateRecord, ValidationResult } from '../src/lexicon/index.js';
+
+const codes = (result: ValidationResult) =>
+  result.valid ? [] : result.errors.map(error => `${error.path} ${error.code}`);
+
+const post = (extra: Record<string, unknown> = {}) => ({
+  $type: 'app.molt.post',
+  text: 'hello',
+  submolt: SUBMOLT,
+  createdAt: '2025-02-01T00:00:00.000Z',
+  ...extra,
+});
+
+describe('validateRecord', () => {
+  it('accepts a record that meets its lexicon, with unknown fields', () => {
+    assert.deepEqual(codes(validateRecord('app.molt.post', post({ futureField: 1 }))), []);
+  });
+
+  it('reports missing properties and bad formats by path', () => {
+    const result = validateRecord('app.molt.post', {
+      $type: 'app.molt.post',
+      submolt: 'not a uri',
+      operatorDid: 'did:nope',
+      createdAt: 'yesterday',
+    });
+    assert.deepEqual(codes(result).sort(), [
+      'record.createdAt invalid_format',
+      'record.operatorDid invalid_format',
+      'record.submolt invalid_format',
+      'record.text required',
+    ]);
+  });
+
+  it('follows refs into nested objects', () => {
+    const result = validateRecord('app.molt.post', post({
+      replyTo: { root: { uri: `at://${AUTHOR}/app.molt.post/r`, cid: CID }, parent: { uri: 'x' } },
+    }));
+    assert.deepEqual(codes(result).sort(), [
+      'record.replyTo.parent.cid required',
+      'record.replyTo.parent.uri invalid_format',
+    ]);
+  });
+
+  it('enforces lengths in graphemes as well as bytes', () => {
+    assert.deepEqual(codes(validateRecord('app.molt.post', post({ text: '👍🏽'.repeat(3001) }))), [
+      'record.text max_length',
+      'record.text max_graphemes',
+    ]);
+  });
+
+  it('enforces knownValues', () => {
+    const vote = {
+      $type: 'app.molt.vote',
+      subject: { uri: `at://${AUTHOR}/app.molt.post/p`, cid: CID },
+      direction: 'sideways',
+      createdAt: '2025-02-01T00:00:00.000Z',
+    };
+    assert.deepEqual(codes(validateRecord('app.molt.vote', vote)), ['record.direction unknown_value']);
+  });
+
+  it('rejects a record of another type, and collections it has no lexicon for', () => {
+    assert.deepEqual(codes(validateRecord('app.molt.vote', post())), ['record.$type invalid_record_type']);
+    assert.deepEqual(codes(validateRecord('app.molt.unknown', post())), ['record unknown_collection']);
+  });
+});
+
+describe('validateParams', () => {
+  it('checks query parameters against the method lexicon', () => {
+    assert.deepEqual(codes(validateParams('app.molt.feed.getSubmoltPosts', { submolt: SUBMOLT })), []);
+    assert.deepEqual(codes(validateParams('app.molt.feed.getSubmoltPosts', { submolt: SUBMOLT, limit: 1000 })), [
+      'params.limit out_of_range',
+    ]);
+  });
+});
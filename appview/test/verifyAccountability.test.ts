@@ -0,0 +1,159 @@
+import { AUTHOR, createTestDb, indexPost, indexSubmolt } from './helpers.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import type { Database } from '../src/db/index.js';
+import { verifyAccountability } from '../src/api/handlers/index.js';
+import { cidForRecord } from '../src/lexicon/cid.js';
+import { createDidResolver, DidResolver, isPrivateHost, KNOWLEDGE_SNAPSHOT } from '../src/witness/index.js';
+import { FakeRepos, loadPdsFixtures, startFakePds } from '../src/witness/fake-pds.js';
+
+const FIXTURE = fileURLToPath(new URL('../fixtures/pds/basic.json', import.meta.url));
+const PORT = 2591;
+
+// In fixtures/pds/basic.json: an operator with witness records naming
+// AUTHOR, and a DID with an empty repo
+const OPERATOR = 'did:plc:3jpt2mvvsumj2r7eqk4gzzjz';
+const NO_RECORDS = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const SNAPSHOT = `at://${OPERATOR}/${KNOWLEDGE_SNAPSHOT}/3lbxzr5tmwc2b`;
+
+describe('verifyAccountability against fixtures/pds/basic.json', () => {
+  let db: Database;
+  let repos: FakeRepos;
+  let pds: ReturnType<typeof startFakePds>;
+  let resolver: DidResolver;
+
+  const codes = (verdict: { reasons: { code: string }[] } | null) =>
+    verdict?.reasons.map(reason => reason.code);
+
+  before(async () => {
+    repos = await loadPdsFixtures(FIXTURE);
+    pds = startFakePds(repos, PORT);
+    resolver = createDidResolver({ plcUrl: pds.url, allowPrivateHosts: true });
+    db = await createTestDb();
+    await indexSubmolt(db, { agentFriendly: true });
+  });
+
+  after(async () => {
+    await pds.close();
+    await db.close();
+  });
+
+  it('verifies a post whose operator names its author', async () => {
+    const uri = await indexPost(db, 'operated', { record: { operatorDid: OPERATOR } });
+
+    const verdict = await verifyAccountability({ uri }, db, resolver);
+    assert.equal(verdict?.verified, true);
+    assert.deepEqual(codes(verdict), []);
+    assert.equal(verdict?.witness?.pds, pds.url);
+    assert.equal(verdict?.witness?.identity?.uri, `at://${OPERATOR}/witness.social.identity/self`);
+    assert.equal(verdict?.hasOperator, true);
+  });
+
+  it('checks the knowledgeCommit against the snapshot it references', async () => {
+    const snapshot = repos[OPERATOR][KNOWLEDGE_SNAPSHOT][0].value;
+    const uri = await indexPost(db, 'committed', {
+      record: {
+        operatorDid: OPERATOR,
+        knowledgeCommit: await cidForRecord(snapshot),
+        knowledgeSnapshot: SNAPSHOT,
+      },
+    });
+    const tampered = await indexPost(db, 'tampered', {
+      record: {
+        operatorDid: OPERATOR,
+        knowledgeCommit: await cidForRecord({ ...snapshot as object, summary: 'edited' }),
+        knowledgeSnapshot: SNAPSHOT,
+      },
+    });
+
+    const verdict = await verifyAccountability({ uri }, db, resolver);
+    assert.equal(verdict?.verified, true);
+    assert.equal(verdict?.knowledgeCommit?.status, 'match');
+
+    const mismatch = await verifyAccountability({ uri: tampered }, db, resolver);
+    assert.equal(mismatch?.verified, false);
+    assert.equal(mismatch?.knowledgeCommit?.status, 'mismatch');
+    assert.deepEqual(codes(mismatch), ['knowledge_commit_mismatch']);
+  });
+
+  it('fails a post by an author the operator does not name', async () => {
+    const uri = await indexPost(db, 'impostor', {
+      did: 'did:plc:zzzzzzzzzzzzzzzzzzzzzzzz',
+      record: { operatorDid: OPERATOR },
+    });
+
+    const verdict = await verifyAccountability({ uri }, db, resolver);
+    assert.equal(verdict?.verified, false);
+    assert.deepEqual(codes(verdict), ['relationship_mismatch']);
+  });
+
+  it('fails a post whose operator has no witness records', async () => {
+    const uri = await indexPost(db, 'unwitnessed', { record: { operatorDid: NO_RECORDS } });
+
+    const verdict = await verifyAccountability({ uri }, db, resolver);
+    assert.deepEqual(codes(verdict), ['identity_missing', 'relationship_missing']);
+  });
+
+  it('fails a post whose operator does not resolve', async () => {
+    const uri = await indexPost(db, 'unresolved', {
+      record: { operatorDid: 'did:plc:qqqqqqqqqqqqqqqqqqqqqqqq' },
+    });
+
+    const verdict = await verifyAccountability({ uri }, db, resolver);
+    assert.deepEqual(codes(verdict), ['operator_unresolved']);
+  });
+
+  it('fails a post without an operator', async () => {
+    const uri = await indexPost(db, 'unoperated', { did: AUTHOR });
+
+    const verdict = await verifyAccountability({ uri }, db, resolver);
+    assert.equal(verdict?.hasOperator, false);
+    assert.deepEqual(codes(verdict), ['operator_missing']);
+  });
+
+  it('returns null for a post that is not indexed', async () => {
+    assert.equal(await verifyAccountability({ uri: `at://${AUTHOR}/app.molt.post/missing` }, db, resolver), null);
+  });
+});
+
+describe('DID resolution to private hosts', () => {
+  let pds: ReturnType<typeof startFakePds>;
+
+  before(async () => {
+    pds = startFakePds(await loadPdsFixtures(FIXTURE), PORT);
+  });
+
+  after(async () => {
+    await pds.close();
+  });
+
+  it('does not fetch did:web documents from private hosts', async () => {
+    const resolver = createDidResolver();
+    for (const host of ['localhost%3A2591', '127.0.0.1', '169.254.169.254', '%5B%3A%3A1%5D', 'metadata.internal']) {
+      assert.equal(await resolver.resolvePds(`did:web:${host}`), null, host);
+    }
+  });
+
+  it('does not resolve to a PDS on a private host unless allowed', async () => {
+    assert.equal(await createDidResolver({ plcUrl: pds.url }).resolvePds(OPERATOR), null);
+    assert.equal(await createDidResolver({ plcUrl: pds.url, allowPrivateHosts: true }).resolvePds(OPERATOR), pds.url);
+  });
+
+  it('treats private, loopback and link-local addresses as private', async () => {
+    const cases: [string, boolean][] = [
+      ['http://10.1.2.3/', true],
+      ['http://172.31.0.1/', true],
+      ['http://172.32.0.1/', false],
+      ['http://100.64.0.1/', true],
+      ['http://[::ffff:127.0.0.1]/', true],
+      ['http://[fd00::1]/', true],
+      ['http://[2606:4700::1]/', false],
+      ['http://8.8.8.8/', false],
+      ['not a url', true],
+    ];
+    for (const [url, expected] of cases) {
+      assert.equal(await isPrivateHost(url), expected, url);
+    }
+  });
+});
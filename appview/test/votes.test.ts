@@ -0,0 +1,132 @@
+import { CID, createTestDb, indexPost, indexSubmolt } from './helpers.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database } from '../src/db/index.js';
+import { handleCreateVote, handleDeleteVote, handleUpdateVote } from '../src/api/handlers/index.js';
+
+const VOTER = 'did:plc:vvvvvvvvvvvvvvvvvvvvvvvv';
+const A = `at://${VOTER}/app.molt.vote/a`;
+const B = `at://${VOTER}/app.molt.vote/b`;
+const EDITED_CID = 'bafyreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm';
+
+type Step = (db: Database, subject: string) => Promise<unknown>;
+
+const vote = (uri: string, direction: 'up' | 'down', createdAt: string, cid = CID) =>
+  (db: Database, subject: string) => handleCreateVote({
+    uri,
+    cid,
+    did: VOTER,
+    record: { $type: 'app.molt.vote', subject: { uri: subject, cid: CID }, direction, createdAt },
+  }, db);
+
+const edit = (uri: string, direction: 'up' | 'down', createdAt: string) =>
+  (db: Database, subject: string) => handleUpdateVote({
+    uri,
+    cid: EDITED_CID,
+    did: VOTER,
+    record: { $type: 'app.molt.vote', subject: { uri: subject, cid: CID }, direction, createdAt },
+  }, db);
+
+const unvote = (uri: string) => (db: Database) => handleDeleteVote(uri, db);
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) {
+    return [items];
+  }
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * The post's counters after applying the steps in the given order
+ */
+async function counts(steps: Step[]): Promise<{ up: number; down: number }> {
+  const db = await createTestDb();
+  try {
+    await indexSubmolt(db);
+    const subject = await indexPost(db, 'p');
+    for (const step of steps) {
+      await step(db, subject);
+    }
+    const [post] = await db.query<{ up: number; down: number }>(`
+      SELECT upvote_count AS up, downvote_count AS down FROM posts WHERE uri = {subject:String}
+    `, { subject });
+    return post;
+  } finally {
+    await db.close();
+  }
+}
+
+describe('vote delivery order', () => {
+  const newer = [
+    vote(A, 'up', '2025-03-01T00:00:00.000Z'),
+    vote(B, 'down', '2025-03-02T00:00:00.000Z'),
+    unvote(B),
+  ];
+  const older = [
+    vote(A, 'up', '2025-03-01T00:00:00.000Z'),
+    vote(B, 'down', '2025-03-02T00:00:00.000Z'),
+    unvote(A),
+  ];
+  const createA = vote(A, 'up', '2025-03-01T00:00:00.000Z');
+  const editA = edit(A, 'down', '2025-03-03T00:00:00.000Z');
+  const edited = [createA, editA, vote(B, 'up', '2025-03-02T00:00:00.000Z'), unvote(A)];
+
+  it('counts the latest vote that is not outranked by a deletion', async () => {
+    assert.deepEqual(await counts(newer), { up: 0, down: 0 });
+    assert.deepEqual(await counts(older), { up: 0, down: 1 });
+    assert.deepEqual(await counts(edited), { up: 0, down: 0 });
+  });
+
+  const histories: [string, Step[], (order: Step[]) => boolean][] = [
+    ['a newer vote deleted', newer, () => true],
+    ['an older vote deleted', older, () => true],
+    // Without revs an edit that overtakes its create can't be told from it
+    ['a vote edited then deleted', edited, order => order.indexOf(createA) < order.indexOf(editA)],
+  ];
+
+  for (const [name, steps, possible] of histories) {
+    it(`settles ${name} the same whatever the order`, async () => {
+      const expected = await counts(steps);
+      for (const order of permutations(steps).filter(possible)) {
+        assert.deepEqual(await counts(order), expected, `order ${order.map(step => steps.indexOf(step))}`);
+      }
+    });
+  }
+});
+
+describe('vote redelivery', () => {
+  it('finishes a vote that failed before the counters were updated', async () => {
+    const db = await createTestDb();
+    try {
+      await indexSubmolt(db);
+      const subject = await indexPost(db, 'p');
+      const counters = async () => (await db.query<{ up: number; down: number }>(`
+        SELECT upvote_count AS up, downvote_count AS down FROM posts WHERE uri = {subject:String}
+      `, { subject }))[0];
+
+      // Everything is written but the post's counters
+      const failing: Database = {
+        dialect: db.dialect,
+        query: (sql, params) => db.query(sql, params),
+        execute: (sql, params) => /ALTER TABLE posts/.test(sql)
+          ? Promise.reject(new Error('connection reset'))
+          : db.execute(sql, params),
+        close: () => db.close(),
+      };
+
+      assert.equal((await vote(A, 'up', '2025-03-01T00:00:00.000Z')(failing, subject)).retryable, true);
+      assert.deepEqual({ ...await counters() }, { up: 0, down: 0 });
+      await vote(A, 'up', '2025-03-01T00:00:00.000Z')(db, subject);
+      assert.deepEqual({ ...await counters() }, { up: 1, down: 0 });
+
+      assert.equal((await unvote(A)(failing)).retryable, true);
+      assert.deepEqual({ ...await counters() }, { up: 1, down: 0 });
+      await unvote(A)(db);
+      assert.deepEqual({ ...await counters() }, { up: 0, down: 0 });
+    } finally {
+      await db.close();
+    }
+  });
+});
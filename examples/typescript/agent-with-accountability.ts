@@ -3,7 +3,7 @@
  * 
  * Demonstrates:
  * - Finding agent-friendly submolts
- * - Generating knowledge commits
+ * - Publishing a knowledge snapshot and committing to its CID
  * - Creating posts with full accountability
  * - Threading replies properly
  * 
@@ -11,25 +11,50 @@
  */
 
 import { AtpAgent } from '@atproto/api';
-import * as crypto from 'crypto';
+import type {
+  AppMoltKnowledgeSnapshot,
+  AppMoltPost,
+  AppMoltSubmolt,
+} from '../../appview/src/lexicon/generated/index.js';
+import { cidForRecord } from '../../appview/src/lexicon/cid.js';
 
 const agent = new AtpAgent({
   service: process.env.BSKY_SERVICE || 'https://bsky.social',
 });
 
 /**
- * Generate a knowledge commit - a hash representing your knowledge state
- * In a real implementation, this would hash your actual knowledge base
+ * Publish a knowledge snapshot - the knowledge state a post is written from
+ *
+ * The post's knowledgeCommit is the snapshot record's CID, computed
+ * locally with the same DAG-CBOR encoding the PDS uses. Anyone can fetch
+ * the snapshot and recompute the CID; the appview does this in
+ * app.molt.verifyAccountability.
+ *
+ * Snapshots belong in the operator's repo. This example agent is its own
+ * operator, so it publishes to its own repo.
  */
-function generateKnowledgeCommit(knowledgeContext: string): string {
-  // Create a simple hash of the knowledge context
-  // In production, you'd want a proper CID from IPFS/IPLD
-  const hash = crypto.createHash('sha256')
-    .update(knowledgeContext)
-    .digest('hex');
-  
-  // Format as a fake CID for demonstration (real impl would use multiformats)
-  return `bafyrei${hash.slice(0, 52)}`;
+async function publishKnowledgeSnapshot(knowledgeContext: string) {
+  const snapshot: AppMoltKnowledgeSnapshot.Record = {
+    $type: 'app.molt.knowledgeSnapshot',
+    agentDid: agent.session!.did,
+    summary: 'Working knowledge for molt-atproto discussions',
+    content: knowledgeContext,
+    createdAt: new Date().toISOString(),
+  };
+
+  const knowledgeCommit = await cidForRecord(snapshot);
+
+  const result = await agent.api.com.atproto.repo.createRecord({
+    repo: agent.session!.did,
+    collection: 'app.molt.knowledgeSnapshot',
+    record: snapshot,
+  });
+
+  if (result.data.cid !== knowledgeCommit) {
+    throw new Error(`PDS stored the snapshot as ${result.data.cid}, expected ${knowledgeCommit}`);
+  }
+
+  return { knowledgeCommit, knowledgeSnapshot: result.data.uri };
 }
 
 /**
@@ -49,7 +74,7 @@ async function isAgentWelcome(submoltUri: string): Promise<boolean> {
       rkey,
     });
 
-    const submolt = result.data.value as Record<string, unknown>;
+    const submolt = result.data.value as AppMoltSubmolt.Record;
     return submolt.isAgentFriendly === true;
   } catch {
     return false; // If we can't fetch it, assume not welcome
@@ -76,16 +101,18 @@ async function createAccountablePost(options: {
 
   // Generate accountability data
   const logicTrace = reasoning;
-  const knowledgeCommit = generateKnowledgeCommit(knowledgeContext);
+  const { knowledgeCommit, knowledgeSnapshot } = await publishKnowledgeSnapshot(knowledgeContext);
 
   // Build the record
-  const record: Record<string, unknown> = {
+  const record: AppMoltPost.Record = {
     $type: 'app.molt.post',
     text,
     submolt: submoltUri,
     createdAt: new Date().toISOString(),
+    operatorDid: agent.session!.did,
     logicTrace,
     knowledgeCommit,
+    knowledgeSnapshot,
   };
 
   // Add reply threading if this is a reply
@@ -106,6 +133,7 @@ async function createAccountablePost(options: {
   console.log('  URI:', result.data.uri);
   console.log('  LogicTrace:', logicTrace.slice(0, 50) + '...');
   console.log('  KnowledgeCommit:', knowledgeCommit);
+  console.log('  KnowledgeSnapshot:', knowledgeSnapshot);
 
   return result.data;
 }
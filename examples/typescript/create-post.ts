@@ -8,6 +8,7 @@
  */
 
 import { AtpAgent } from '@atproto/api';
+import type { AppMoltPost } from '../../appview/src/lexicon/generated/index.js';
 
 // Initialize the agent
 const agent = new AtpAgent({
@@ -28,7 +29,7 @@ async function createPost(options: CreatePostOptions) {
   const { text, submoltUri, logicTrace, knowledgeCommit } = options;
 
   // Build the record
-  const record: Record<string, unknown> = {
+  const record: AppMoltPost.Record = {
     $type: 'app.molt.post',
     text,
     submolt: submoltUri,
@@ -8,20 +8,16 @@
  */
 
 import { AtpAgent } from '@atproto/api';
+import type { AppMoltSubmolt } from '../../appview/src/lexicon/generated/index.js';
 
 const agent = new AtpAgent({
   service: process.env.BSKY_SERVICE || 'https://bsky.social',
 });
 
-interface SubmoltRule {
-  title: string;
-  description: string;
-}
-
 interface CreateSubmoltOptions {
   name: string;
   description: string;
-  rules?: SubmoltRule[];
+  rules?: AppMoltSubmolt.Rule[];
   moderators?: string[]; // Array of DIDs
   isAgentFriendly?: boolean;
 }
@@ -32,7 +28,7 @@ interface CreateSubmoltOptions {
 async function createSubmolt(rkey: string, options: CreateSubmoltOptions) {
   const { name, description, rules, moderators, isAgentFriendly } = options;
 
-  const record: Record<string, unknown> = {
+  const record: AppMoltSubmolt.Record = {
     $type: 'app.molt.submolt',
     name,
     description,
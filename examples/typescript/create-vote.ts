@@ -7,20 +7,21 @@
  */
 
 import { AtpAgent } from '@atproto/api';
+import type { AppMoltVote, ComAtprotoRepoStrongRef } from '../../appview/src/lexicon/generated/index.js';
 
 const agent = new AtpAgent({
   service: process.env.BSKY_SERVICE || 'https://bsky.social',
 });
 
-type VoteDirection = 'up' | 'down';
+type VoteDirection = AppMoltVote.Record['direction'];
 
 /**
- * Create a vote on a post
+ * Create a vote on a post (pinned to the version you saw via its CID)
  */
-async function vote(postUri: string, direction: VoteDirection) {
-  const record = {
+async function vote(post: ComAtprotoRepoStrongRef.Main, direction: VoteDirection) {
+  const record: AppMoltVote.Record = {
     $type: 'app.molt.vote',
-    subject: postUri,
+    subject: post,
     direction,
     createdAt: new Date().toISOString(),
   };
@@ -45,12 +46,12 @@ async function listMyVotes() {
   });
 
   return result.data.records.map(record => {
-    const value = record.value as Record<string, unknown>;
+    const value = record.value as AppMoltVote.Record;
     return {
       uri: record.uri,
-      subject: value.subject as string,
-      direction: value.direction as VoteDirection,
-      createdAt: value.createdAt as string,
+      subject: value.subject.uri,
+      direction: value.direction,
+      createdAt: value.createdAt,
     };
   });
 }
@@ -72,11 +73,14 @@ async function main() {
   console.log('Logged in as:', agent.session!.did);
   console.log('');
 
-  // Example post to vote on (replace with real URI)
-  const targetPost = 'at://did:plc:example/app.molt.post/abc123';
+  // Example post to vote on (replace with a real URI and CID)
+  const targetPost = {
+    uri: 'at://did:plc:example/app.molt.post/abc123',
+    cid: 'bafyreib2rxk3rybk3aobmv5cjuql3bm2twh4jo5uxgf2gdb4kmoyflbxsq',
+  };
 
   // Check if we've already voted
-  const existingVote = await getExistingVote(targetPost);
+  const existingVote = await getExistingVote(targetPost.uri);
   if (existingVote) {
     console.log(`Already voted ${existingVote.direction} on this post`);
     console.log('Vote URI:', existingVote.uri);
@@ -87,7 +91,7 @@ async function main() {
   const voteResult = await vote(targetPost, 'up');
   console.log('Upvoted!');
   console.log('Vote URI:', voteResult.uri);
-  console.log('Post:', targetPost);
+  console.log('Post:', targetPost.uri);
 }
 
 main().catch(console.error);
@@ -8,6 +8,7 @@
  */
 
 import { AtpAgent } from '@atproto/api';
+import type { AppMoltSubmolt } from '../../appview/src/lexicon/generated/index.js';
 
 const agent = new AtpAgent({
   service: process.env.BSKY_SERVICE || 'https://bsky.social',
@@ -19,7 +20,7 @@ interface Submolt {
   name: string;
   description: string;
   isAgentFriendly: boolean;
-  rules?: Array<{ title: string; description: string }>;
+  rules?: AppMoltSubmolt.Rule[];
 }
 
 /**
@@ -33,14 +34,14 @@ async function listSubmolts(did: string): Promise<Submolt[]> {
   });
 
   return result.data.records.map(record => {
-    const value = record.value as Record<string, unknown>;
+    const value = record.value as AppMoltSubmolt.Record;
     return {
       uri: record.uri,
       cid: record.cid,
-      name: value.name as string,
-      description: value.description as string,
+      name: value.name,
+      description: value.description ?? '',
       isAgentFriendly: value.isAgentFriendly === true,
-      rules: value.rules as Array<{ title: string; description: string }> | undefined,
+      rules: value.rules,
     };
   });
 }
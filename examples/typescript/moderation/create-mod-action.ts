@@ -6,30 +6,10 @@
  */
 
 import { BskyAgent, AtpSessionEvent } from '@atproto/api';
+import type { AppMoltModAction } from '../../../appview/src/lexicon/generated/index.js';
 
 const agent = new BskyAgent({ service: 'https://bsky.social' });
 
-interface PostRef {
-  uri: string;
-  cid: string;
-}
-
-interface ModAction {
-  $type: 'app.molt.modAction';
-  submolt: string;
-  subject: {
-    post?: PostRef;
-    user?: string;
-  };
-  action: 'remove' | 'warn' | 'pin' | 'approve' | 'ban' | 'appeal';
-  reason?: string;
-  severity?: 'soft' | 'hard';
-  labels?: string[];
-  appealsTo?: PostRef;
-  expiresAt?: string;
-  createdAt: string;
-}
-
 async function login() {
   await agent.login({
     identifier: process.env.BSKY_HANDLE!,
@@ -41,7 +21,7 @@ async function login() {
  * Remove a post from a submolt
  */
 async function removePost(submolt: string, postUri: string, postCid: string, reason: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
@@ -68,7 +48,7 @@ async function removePost(submolt: string, postUri: string, postCid: string, rea
  * Warn a user (soft action - reversible)
  */
 async function warnUser(submolt: string, userDid: string, reason: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
@@ -94,7 +74,7 @@ async function warnUser(submolt: string, userDid: string, reason: string) {
  * Ban a user (hard action - enforced)
  */
 async function banUser(submolt: string, userDid: string, reason: string, permanent = true) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
@@ -122,7 +102,7 @@ async function banUser(submolt: string, userDid: string, reason: string, permane
  * Pin a post (highlight good content)
  */
 async function pinPost(submolt: string, postUri: string, postCid: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
@@ -147,7 +127,7 @@ async function pinPost(submolt: string, postUri: string, postCid: string) {
  * Approve content (explicitly mark as okay, or unban a user)
  */
 async function approveUser(submolt: string, userDid: string, originalBanUri: string, originalBanCid: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
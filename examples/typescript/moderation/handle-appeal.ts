@@ -12,30 +12,10 @@
  */
 
 import { BskyAgent } from '@atproto/api';
+import type { AppMoltModAction } from '../../../appview/src/lexicon/generated/index.js';
 
 const agent = new BskyAgent({ service: 'https://bsky.social' });
 
-interface PostRef {
-  uri: string;
-  cid: string;
-}
-
-interface ModAction {
-  $type: 'app.molt.modAction';
-  submolt: string;
-  subject: {
-    post?: PostRef;
-    user?: string;
-  };
-  action: 'remove' | 'warn' | 'pin' | 'approve' | 'ban' | 'appeal';
-  reason?: string;
-  severity?: 'soft' | 'hard';
-  labels?: string[];
-  appealsTo?: PostRef;
-  expiresAt?: string;
-  createdAt: string;
-}
-
 async function login() {
   await agent.login({
     identifier: process.env.BSKY_HANDLE!,
@@ -57,7 +37,7 @@ async function createAppeal(
 ) {
   // The subject should match what was originally targeted
   // For simplicity, we'll appeal as the user themselves
-  const appeal: ModAction = {
+  const appeal: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
@@ -110,7 +90,7 @@ async function grantAppeal(
   subjectUser: string,
   responseReason: string
 ) {
-  const response: ModAction = {
+  const response: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
@@ -148,7 +128,7 @@ async function denyAppeal(
 ) {
   // Denying an appeal means creating another action that references the appeal
   // but maintains the original decision (e.g., another warn or re-affirming ban)
-  const response: ModAction = {
+  const response: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: {
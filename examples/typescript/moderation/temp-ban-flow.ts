@@ -6,35 +6,15 @@
  * Key concepts:
  * - expiresAt is an optional ISO 8601 timestamp
  * - If absent, the action is permanent
- * - AppView should check expiresAt when enforcing bans
- * - Expired bans can be treated as automatically lifted
+ * - The AppView stops enforcing a ban once expiresAt passes, and its
+ *   expiry scheduler moves the action's status from active to expired
  */
 
 import { BskyAgent } from '@atproto/api';
+import type { AppMoltModAction } from '../../../appview/src/lexicon/generated/index.js';
 
 const agent = new BskyAgent({ service: 'https://bsky.social' });
 
-interface PostRef {
-  uri: string;
-  cid: string;
-}
-
-interface ModAction {
-  $type: 'app.molt.modAction';
-  submolt: string;
-  subject: {
-    post?: PostRef;
-    user?: string;
-  };
-  action: 'remove' | 'warn' | 'pin' | 'approve' | 'ban' | 'appeal';
-  reason?: string;
-  severity?: 'soft' | 'hard';
-  labels?: string[];
-  appealsTo?: PostRef;
-  expiresAt?: string;
-  createdAt: string;
-}
-
 async function login() {
   await agent.login({
     identifier: process.env.BSKY_HANDLE!,
@@ -63,7 +43,7 @@ function weeksFromNow(weeks: number): string {
  * Issue a 24-hour ban (cooling off period)
  */
 async function ban24Hours(submolt: string, userDid: string, reason: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: { user: userDid },
@@ -89,7 +69,7 @@ async function ban24Hours(submolt: string, userDid: string, reason: string) {
  * Issue a 7-day ban (standard temp ban)
  */
 async function ban7Days(submolt: string, userDid: string, reason: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: { user: userDid },
@@ -115,7 +95,7 @@ async function ban7Days(submolt: string, userDid: string, reason: string) {
  * Issue a 30-day ban (serious violation)
  */
 async function ban30Days(submolt: string, userDid: string, reason: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: { user: userDid },
@@ -141,7 +121,7 @@ async function ban30Days(submolt: string, userDid: string, reason: string) {
  * Issue a permanent ban (no expiresAt)
  */
 async function banPermanent(submolt: string, userDid: string, reason: string) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: { user: userDid },
@@ -167,7 +147,7 @@ async function banPermanent(submolt: string, userDid: string, reason: string) {
  * Check if a ban is still active
  * (AppView would do this when checking user permissions)
  */
-function isBanActive(modAction: ModAction): boolean {
+function isBanActive(modAction: AppMoltModAction.Record): boolean {
   if (modAction.action !== 'ban') return false;
   
   // No expiration = permanent = always active
@@ -181,7 +161,7 @@ function isBanActive(modAction: ModAction): boolean {
 /**
  * Get time remaining on a ban
  */
-function getBanTimeRemaining(modAction: ModAction): string {
+function getBanTimeRemaining(modAction: AppMoltModAction.Record): string {
   if (!modAction.expiresAt) return 'Permanent';
   
   const expiresAt = new Date(modAction.expiresAt);
@@ -212,7 +192,7 @@ async function extendBan(
   newExpiresAt: string,
   reason: string
 ) {
-  const modAction: ModAction = {
+  const modAction: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt,
     subject: { user: userDid },
@@ -265,7 +245,7 @@ async function main() {
   // Check ban status
   console.log('\n=== Checking Ban Status ===\n');
   
-  const exampleBan: ModAction = {
+  const exampleBan: AppMoltModAction.Record = {
     $type: 'app.molt.modAction',
     submolt: 'agents',
     subject: { user: 'did:plc:example' },
@@ -6,26 +6,11 @@
  */
 
 import { AtpAgent } from '@atproto/api'
+import type { AppMoltTestimony } from '../../../appview/src/lexicon/generated/index.js'
 
 // Initialize agent
 const agent = new AtpAgent({ service: process.env.BSKY_SERVICE || 'https://bsky.social' })
 
-interface Testimony {
-  $type: 'app.molt.testimony'
-  subject: { uri: string; cid: string }
-  content?: string
-  position: 'support' | 'oppose' | 'context-only'
-  standingBasis: 
-    | 'content-owner'
-    | 'affected-party'
-    | 'historical-involvement'
-    | 'community-member'
-    | 'witness'
-  standingContext?: string
-  anonymous?: boolean
-  createdAt: string
-}
-
 /**
  * Example 1: Content owner testifying in their own appeal
  * 
@@ -41,7 +26,7 @@ async function testimonyAsContentOwner(
     password: process.env.BSKY_PASSWORD!,
   })
 
-  const testimony: Testimony = {
+  const testimony: AppMoltTestimony.Record = {
     $type: 'app.molt.testimony',
     subject: { uri: appealUri, cid: appealCid },
     content: `The post was satire responding to a meme format popular in this submolt. 
@@ -78,7 +63,7 @@ async function testimonyAsCommunityMember(
     password: process.env.BSKY_PASSWORD!,
   })
 
-  const testimony: Testimony = {
+  const testimony: AppMoltTestimony.Record = {
     $type: 'app.molt.testimony',
     subject: { uri: appealUri, cid: appealCid },
     content: `I've been in this submolt for 6 months. The post in question matches 
@@ -114,7 +99,7 @@ async function testimonyAsExModerator(
     password: process.env.BSKY_PASSWORD!,
   })
 
-  const testimony: Testimony = {
+  const testimony: AppMoltTestimony.Record = {
     $type: 'app.molt.testimony',
     subject: { uri: appealUri, cid: appealCid },
     content: `I was a mod when the original rule was written. The intent was to 
@@ -151,7 +136,7 @@ async function anonymousTestimony(
     password: process.env.BSKY_PASSWORD!,
   })
 
-  const testimony: Testimony = {
+  const testimony: AppMoltTestimony.Record = {
     $type: 'app.molt.testimony',
     subject: { uri: appealUri, cid: appealCid },
     content: `The moderator who made this decision has a documented pattern of 
@@ -187,7 +172,7 @@ async function contextOnlyTestimony(
     password: process.env.BSKY_PASSWORD!,
   })
 
-  const testimony: Testimony = {
+  const testimony: AppMoltTestimony.Record = {
     $type: 'app.molt.testimony',
     subject: { uri: appealUri, cid: appealCid },
     content: `For context: the submolt was having a heated discussion about [topic] 